@@ -0,0 +1,152 @@
+import type { GD, GDLayer } from '../types/gdcore.js';
+
+// Rendering types of a layer: the default one displays both 2D and 3D objects
+export const LAYER_RENDERING_TYPES = ['', '2d', '3d'] as const;
+
+export const LAYER_CAMERA_TYPES = ['perspective', 'orthographic'] as const;
+
+/**
+ * A camera of a layer. Its size is the game resolution unless a custom size is
+ * used, and its viewport is the whole screen unless a custom viewport is used.
+ * Viewport bounds are fractions of the screen size, from 0 to 1.
+ */
+export interface LayerCamera {
+  useGameResolution: boolean;
+  width: number;
+  height: number;
+  useDefaultViewport: boolean;
+  viewport: {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+  };
+}
+
+export interface LayerCameraSettings {
+  renderingType: string;
+  cameraType: string;
+  fieldOfView: number;
+  nearPlaneDistance: number;
+  farPlaneDistance: number;
+  cameras: LayerCamera[];
+}
+
+/**
+ * A camera as serialized in the layer.
+ */
+interface SerializedCamera {
+  defaultSize: boolean;
+  width: number;
+  height: number;
+  defaultViewport: boolean;
+  viewportLeft: number;
+  viewportTop: number;
+  viewportRight: number;
+  viewportBottom: number;
+}
+
+/**
+ * A serialized layer. Only its cameras are read: other settings are kept as is.
+ */
+interface SerializedLayer {
+  cameras?: SerializedCamera[];
+  [attribute: string]: unknown;
+}
+
+/**
+ * Describe the 3D settings and the cameras of a layer.
+ */
+export function getLayerCameraSettings(gd: GD, layer: GDLayer): LayerCameraSettings {
+  return {
+    renderingType: layer.getRenderingType(),
+    cameraType: layer.getCameraType(),
+    fieldOfView: layer.getCamera3DFieldOfView(),
+    nearPlaneDistance: layer.getCamera3DNearPlaneDistance(),
+    farPlaneDistance: layer.getCamera3DFarPlaneDistance(),
+    cameras: getLayerCameras(gd, layer),
+  };
+}
+
+/**
+ * Get the cameras of a layer. They are only exposed through the serialized
+ * layer, so they are read from it.
+ */
+export function getLayerCameras(gd: GD, layer: GDLayer): LayerCamera[] {
+  const serializedLayer = serializeLayer(gd, layer);
+  const cameras = serializedLayer.cameras ?? [];
+
+  return cameras.map((camera) => ({
+    useGameResolution: camera.defaultSize,
+    width: camera.width,
+    height: camera.height,
+    useDefaultViewport: camera.defaultViewport,
+    viewport: {
+      left: camera.viewportLeft,
+      top: camera.viewportTop,
+      right: camera.viewportRight,
+      bottom: camera.viewportBottom,
+    },
+  }));
+}
+
+/**
+ * Replace the cameras of a layer, keeping its other settings and its effects.
+ * @throws Error if there is no camera, or a camera has a negative size or an invalid viewport.
+ */
+export function setLayerCameras(gd: GD, layer: GDLayer, cameras: LayerCamera[]): void {
+  if (cameras.length === 0) {
+    throw new Error('A layer must have at least one camera');
+  }
+  cameras.forEach((camera, index) => {
+    const { left, top, right, bottom } = camera.viewport;
+    if (camera.width < 0 || camera.height < 0) {
+      throw new Error(`Camera ${index} has a negative size`);
+    }
+    if ([left, top, right, bottom].some((value) => value < 0 || value > 1)) {
+      throw new Error(`Camera ${index} viewport bounds must be between 0 and 1`);
+    }
+    if (left >= right || top >= bottom) {
+      throw new Error(`Camera ${index} viewport is empty`);
+    }
+  });
+
+  const serializedLayer = serializeLayer(gd, layer);
+  serializedLayer.cameras = cameras.map(
+    (camera): SerializedCamera => ({
+      defaultSize: camera.useGameResolution,
+      width: camera.width,
+      height: camera.height,
+      defaultViewport: camera.useDefaultViewport,
+      viewportLeft: camera.viewport.left,
+      viewportTop: camera.viewport.top,
+      viewportRight: camera.viewport.right,
+      viewportBottom: camera.viewport.bottom,
+    })
+  );
+
+  const element = gd.Serializer.fromJSON(JSON.stringify(serializedLayer));
+  layer.unserializeFrom(element);
+  element.delete();
+}
+
+/**
+ * Create a camera with the defaults of the editor: game resolution and whole screen.
+ */
+export function createDefaultCamera(): LayerCamera {
+  return {
+    useGameResolution: true,
+    width: 0,
+    height: 0,
+    useDefaultViewport: true,
+    viewport: { left: 0, top: 0, right: 1, bottom: 1 },
+  };
+}
+
+function serializeLayer(gd: GD, layer: GDLayer): SerializedLayer {
+  const element = new gd.SerializerElement();
+  layer.serializeTo(element);
+  const json = gd.Serializer.toJSON(element);
+  element.delete();
+  return JSON.parse(json) as SerializedLayer;
+}
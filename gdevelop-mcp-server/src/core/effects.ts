@@ -0,0 +1,145 @@
+import type { GD, GDPlatform, GDEffect, GDEffectMetadata } from '../types/gdcore.js';
+
+export type EffectParameterValue = number | string | boolean;
+
+export interface EffectDescription {
+  name: string;
+  type: string;
+  enabled: boolean;
+  parameters: Record<string, EffectParameterValue>;
+}
+
+/**
+ * How an effect parameter is stored, depending on its declared type.
+ */
+type EffectParameterKind = 'double' | 'string' | 'boolean';
+
+/**
+ * Describe an effect with all its parameters.
+ */
+export function describeEffect(effect: GDEffect): EffectDescription {
+  const parameters: Record<string, EffectParameterValue> = {};
+
+  const doubles = effect.getAllDoubleParameters();
+  for (const name of toArray(doubles.keys())) parameters[name] = doubles.get(name);
+  const strings = effect.getAllStringParameters();
+  for (const name of toArray(strings.keys())) parameters[name] = strings.get(name);
+  const booleans = effect.getAllBooleanParameters();
+  for (const name of toArray(booleans.keys())) parameters[name] = booleans.get(name);
+
+  return {
+    name: effect.getName(),
+    type: effect.getEffectType(),
+    enabled: effect.isEnabled(),
+    parameters,
+  };
+}
+
+/**
+ * Get the metadata of an effect type.
+ * @throws Error if the effect type is unknown.
+ */
+export function getEffectMetadata(gd: GD, platform: GDPlatform, type: string): GDEffectMetadata {
+  const metadata = gd.MetadataProvider.getEffectMetadata(platform, type);
+  if (gd.MetadataProvider.isBadEffectMetadata(metadata)) {
+    throw new Error(`Unknown effect type "${type}"`);
+  }
+  return metadata;
+}
+
+/**
+ * Set all the parameters of an effect to the default values of its type.
+ */
+export function resetEffectParameters(effect: GDEffect, metadata: GDEffectMetadata): void {
+  effect.clearParameters();
+
+  const properties = metadata.getProperties();
+  for (const name of toArray(properties.keys())) {
+    const property = properties.get(name);
+    setParameter(effect, name, getParameterKind(property.getType()), property.getValue());
+  }
+}
+
+/**
+ * Update parameters of an effect. Values are stored as numbers, strings or
+ * booleans depending on the type of the parameters declared by the effect type.
+ * Values are checked before anything is changed.
+ * @throws Error if a parameter is not declared or a value has the wrong type.
+ */
+export function updateEffectParameters(
+  effect: GDEffect,
+  metadata: GDEffectMetadata,
+  values: Record<string, EffectParameterValue>
+): void {
+  const properties = metadata.getProperties();
+
+  const updates = Object.entries(values).map(([name, value]) => {
+    if (!properties.has(name)) {
+      throw new Error(`Effect type "${effect.getEffectType()}" has no parameter "${name}"`);
+    }
+    const kind = getParameterKind(properties.get(name).getType());
+    const coerced = coerceParameterValue(name, kind, value);
+    return () => setParameter(effect, name, kind, coerced);
+  });
+
+  for (const update of updates) update();
+}
+
+function getParameterKind(propertyType: string): EffectParameterKind {
+  switch (propertyType.toLowerCase()) {
+    case 'number':
+      return 'double';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+function coerceParameterValue(
+  name: string,
+  kind: EffectParameterKind,
+  value: EffectParameterValue
+): EffectParameterValue {
+  switch (kind) {
+    case 'double': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || value === '' || Number.isNaN(number)) {
+        throw new Error(`Effect parameter "${name}" must be a number`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw new Error(`Effect parameter "${name}" must be a boolean`);
+    default:
+      return String(value);
+  }
+}
+
+function setParameter(
+  effect: GDEffect,
+  name: string,
+  kind: EffectParameterKind,
+  value: EffectParameterValue
+): void {
+  switch (kind) {
+    case 'double':
+      effect.setDoubleParameter(name, Number(value));
+      break;
+    case 'boolean':
+      effect.setBooleanParameter(name, value === true || value === 'true');
+      break;
+    default:
+      effect.setStringParameter(name, String(value));
+  }
+}
+
+function toArray(vector: { size(): number; at(index: number): string }): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < vector.size(); i++) {
+    values.push(vector.at(i));
+  }
+  return values;
+}
@@ -0,0 +1,198 @@
+import type {
+  GD,
+  GDBaseEvent,
+  GDEventsList,
+  GDInstruction,
+  GDInstructionsList,
+  GDEventsFunctionsContainer,
+  GDProject,
+} from '../types/gdcore.js';
+import type { InstructionKind, InstructionScope } from './instruction-validator.js';
+
+// Event type mappings
+export const EVENT_TYPES: Record<string, string> = {
+  standard: 'BuiltinCommonInstructions::Standard',
+  else: 'BuiltinCommonInstructions::Else',
+  comment: 'BuiltinCommonInstructions::Comment',
+  group: 'BuiltinCommonInstructions::Group',
+  foreach: 'BuiltinCommonInstructions::ForEach',
+  foreachchildvariable: 'BuiltinCommonInstructions::ForEachChildVariable',
+  repeat: 'BuiltinCommonInstructions::Repeat',
+  while: 'BuiltinCommonInstructions::While',
+  link: 'BuiltinCommonInstructions::Link',
+};
+
+export interface EventInstructionLists {
+  conditions?: GDInstructionsList;
+  actions?: GDInstructionsList;
+  whileConditions?: GDInstructionsList;
+}
+
+/**
+ * An events list with a human-readable location, e.g. `scene:Level1`,
+ * `externalEvents:Enemies` or `extension:Platformer/function:Jump`.
+ * Scenes and external events have the scope their instructions run in;
+ * extension functions have none, as their objects are parameters.
+ */
+export interface EventsSheet {
+  location: string;
+  events: GDEventsList;
+  scope?: InstructionScope;
+}
+
+/**
+ * Get the instruction lists of an event, using its concrete GDCore class.
+ * Comments, groups and links have no instructions and return an empty object.
+ */
+export function getInstructionLists(gd: GD, event: GDBaseEvent): EventInstructionLists {
+  switch (event.getType()) {
+    case EVENT_TYPES.standard:
+      return listsOf(gd.asStandardEvent(event));
+    case EVENT_TYPES.else:
+      return listsOf(gd.asElseEvent(event));
+    case EVENT_TYPES.foreach:
+      return listsOf(gd.asForEachEvent(event));
+    case EVENT_TYPES.foreachchildvariable:
+      return listsOf(gd.asForEachChildVariableEvent(event));
+    case EVENT_TYPES.repeat:
+      return listsOf(gd.asRepeatEvent(event));
+    case EVENT_TYPES.while: {
+      const whileEvent = gd.asWhileEvent(event);
+      return { ...listsOf(whileEvent), whileConditions: whileEvent.getWhileConditions() };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Conditions and actions of an event that has both.
+ */
+function listsOf(event: {
+  getConditions(): GDInstructionsList;
+  getActions(): GDInstructionsList;
+}): EventInstructionLists {
+  return { conditions: event.getConditions(), actions: event.getActions() };
+}
+
+/**
+ * Visit every event of a list, depth first, with its path of indices.
+ */
+export function forEachEvent(
+  list: GDEventsList,
+  visitor: (event: GDBaseEvent, path: number[]) => void,
+  parentPath: number[] = []
+): void {
+  for (let i = 0; i < list.getEventsCount(); i++) {
+    const event = list.getEventAt(i);
+    const path = [...parentPath, i];
+
+    visitor(event, path);
+
+    if (event.canHaveSubEvents() && event.hasSubEvents()) {
+      forEachEvent(event.getSubEvents(), visitor, path);
+    }
+  }
+}
+
+/**
+ * Visit every condition and action of a list of events, including
+ * sub-instructions (e.g. the conditions of an "Or" condition).
+ */
+export function forEachInstruction(
+  gd: GD,
+  list: GDEventsList,
+  visitor: (instruction: GDInstruction, kind: InstructionKind, path: number[]) => void
+): void {
+  forEachEvent(list, (event, path) => {
+    const { conditions, actions, whileConditions } = getInstructionLists(gd, event);
+
+    const visitList = (instructions: GDInstructionsList, kind: InstructionKind) => {
+      for (let i = 0; i < instructions.size(); i++) {
+        const instruction = instructions.get(i);
+        visitor(instruction, kind, path);
+        visitList(instruction.getSubInstructions(), kind);
+      }
+    };
+
+    if (whileConditions) visitList(whileConditions, 'condition');
+    if (conditions) visitList(conditions, 'condition');
+    if (actions) visitList(actions, 'action');
+  });
+}
+
+/**
+ * Get the events sheets of the functions of an extension, behavior or object.
+ */
+export function getEventsFunctionsSheets(
+  functions: GDEventsFunctionsContainer,
+  locationPrefix: string
+): EventsSheet[] {
+  const sheets: EventsSheet[] = [];
+  for (let i = 0; i < functions.getEventsFunctionsCount(); i++) {
+    const eventsFunction = functions.getEventsFunctionAt(i);
+    sheets.push({
+      location: `${locationPrefix}/function:${eventsFunction.getName()}`,
+      events: eventsFunction.getEvents(),
+    });
+  }
+  return sheets;
+}
+
+/**
+ * Get every events sheet of a project: scenes, external events, and the
+ * functions of its extensions, behaviors and custom objects.
+ */
+export function getProjectEventsSheets(project: GDProject): EventsSheet[] {
+  const sheets: EventsSheet[] = [];
+
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    const layout = project.getLayoutAt(i);
+    sheets.push({
+      location: `scene:${layout.getName()}`,
+      events: layout.getEvents(),
+      scope: { project, layout },
+    });
+  }
+  for (let i = 0; i < project.getExternalEventsCount(); i++) {
+    const externalEvents = project.getExternalEventsAt(i);
+    const associatedLayout = externalEvents.getAssociatedLayout();
+    sheets.push({
+      location: `externalEvents:${externalEvents.getName()}`,
+      events: externalEvents.getEvents(),
+      scope: project.hasLayoutNamed(associatedLayout)
+        ? { project, layout: project.getLayout(associatedLayout) }
+        : { project },
+    });
+  }
+
+  for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+    const extension = project.getEventsFunctionsExtensionAt(i);
+    const prefix = `extension:${extension.getName()}`;
+    sheets.push(...getEventsFunctionsSheets(extension.getEventsFunctions(), prefix));
+
+    const behaviors = extension.getEventsBasedBehaviors();
+    for (let j = 0; j < behaviors.size(); j++) {
+      const behavior = behaviors.at(j);
+      sheets.push(
+        ...getEventsFunctionsSheets(
+          behavior.getEventsFunctions(),
+          `${prefix}/behavior:${behavior.getName()}`
+        )
+      );
+    }
+
+    const objects = extension.getEventsBasedObjects();
+    for (let j = 0; j < objects.size(); j++) {
+      const object = objects.at(j);
+      sheets.push(
+        ...getEventsFunctionsSheets(
+          object.getEventsFunctions(),
+          `${prefix}/object:${object.getName()}`
+        )
+      );
+    }
+  }
+
+  return sheets;
+}
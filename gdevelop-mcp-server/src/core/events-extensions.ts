@@ -0,0 +1,602 @@
+import type {
+  GD,
+  GDProject,
+  GDEventsFunctionsExtension,
+  GDEventsFunctionsContainer,
+  GDEventsFunction,
+  GDEventsBasedBehavior,
+  GDEventsBasedObject,
+  GDEventsList,
+  GDPropertiesContainer,
+  GDNamedPropertyDescriptor,
+} from '../types/gdcore.js';
+import type { InstructionScope } from './instruction-validator.js';
+
+// Function types, in the order of gd.EventsFunction.FunctionType
+export const FUNCTION_TYPES = [
+  'action',
+  'condition',
+  'expression',
+  'expressionAndCondition',
+  'actionWithOperator',
+] as const;
+
+export type FunctionTypeName = (typeof FUNCTION_TYPES)[number];
+
+// Value types returned by expressions, by the name used for their metadata
+const EXPRESSION_TYPES: Record<string, string> = {
+  number: 'expression',
+  string: 'string',
+  boolean: 'boolean',
+};
+
+// Friendlier names accepted for the most common parameter types
+const PARAMETER_TYPE_ALIASES: Record<string, string> = {
+  number: 'expression',
+  object: 'objectList',
+  boolean: 'yesorno',
+};
+
+export const PROPERTY_TYPES = [
+  'Number',
+  'String',
+  'Boolean',
+  'Choice',
+  'Color',
+  'Resource',
+  'Behavior',
+] as const;
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface FunctionParameterSpec {
+  name: string;
+  type: string;
+  description?: string;
+  longDescription?: string;
+  extraInfo?: string;
+  optional?: boolean;
+  defaultValue?: string;
+}
+
+export interface PropertySpec {
+  name: string;
+  type?: (typeof PROPERTY_TYPES)[number];
+  value?: string;
+  label?: string;
+  description?: string;
+  group?: string;
+  choices?: string[];
+  behaviorType?: string;
+  hidden?: boolean;
+}
+
+/**
+ * The extension, behavior or custom object owning events functions.
+ */
+export interface EventsFunctionOwner {
+  extension: GDEventsFunctionsExtension;
+  functions: GDEventsFunctionsContainer;
+  behavior?: GDEventsBasedBehavior;
+  object?: GDEventsBasedObject;
+  label: string;
+}
+
+/**
+ * Check that a name can be used for an extension, a function, a behavior,
+ * a custom object or a parameter.
+ * @throws Error if the name is not a valid identifier.
+ */
+export function checkEventsExtensionName(name: string, kind: string): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid ${kind} name "${name}": use only letters, digits and underscores, ` +
+        'not starting with a digit'
+    );
+  }
+}
+
+/**
+ * Get an events-based extension of a project.
+ * @throws Error if the extension doesn't exist.
+ */
+export function getEventsFunctionsExtension(
+  project: GDProject,
+  extensionName: string
+): GDEventsFunctionsExtension {
+  if (!project.hasEventsFunctionsExtensionNamed(extensionName)) {
+    throw new Error(`Extension "${extensionName}" not found`);
+  }
+  return project.getEventsFunctionsExtension(extensionName);
+}
+
+/**
+ * Get the functions of an extension, or of one of its behaviors or custom objects.
+ * @throws Error if the extension, behavior or object doesn't exist.
+ */
+export function getEventsFunctionOwner(
+  project: GDProject,
+  extensionName: string,
+  behaviorName?: string,
+  objectName?: string
+): EventsFunctionOwner {
+  const extension = getEventsFunctionsExtension(project, extensionName);
+  if (behaviorName && objectName) {
+    throw new Error('Specify either behaviorName or objectName, not both');
+  }
+
+  if (behaviorName) {
+    const behaviors = extension.getEventsBasedBehaviors();
+    if (!behaviors.has(behaviorName)) {
+      throw new Error(`Behavior "${behaviorName}" not found in "${extensionName}"`);
+    }
+    const behavior = behaviors.get(behaviorName);
+    return {
+      extension,
+      functions: behavior.getEventsFunctions(),
+      behavior,
+      label: `behavior "${extensionName}::${behaviorName}"`,
+    };
+  }
+
+  if (objectName) {
+    const objects = extension.getEventsBasedObjects();
+    if (!objects.has(objectName)) {
+      throw new Error(`Custom object "${objectName}" not found in "${extensionName}"`);
+    }
+    const object = objects.get(objectName);
+    return {
+      extension,
+      functions: object.getEventsFunctions(),
+      object,
+      label: `object "${extensionName}::${objectName}"`,
+    };
+  }
+
+  return {
+    extension,
+    functions: extension.getEventsFunctions(),
+    label: `extension "${extensionName}"`,
+  };
+}
+
+/**
+ * Get a function of an extension, behavior or custom object.
+ * @throws Error if the function doesn't exist.
+ */
+export function getEventsFunction(owner: EventsFunctionOwner, name: string): GDEventsFunction {
+  if (!owner.functions.hasEventsFunctionNamed(name)) {
+    throw new Error(`Function "${name}" not found in ${owner.label}`);
+  }
+  return owner.functions.getEventsFunction(name);
+}
+
+/**
+ * Get the scope in which instructions of the events of a function are checked.
+ */
+export function getEventsFunctionScope(
+  gd: GD,
+  project: GDProject,
+  owner: EventsFunctionOwner,
+  eventsFunction: GDEventsFunction
+): InstructionScope {
+  const objectParameters: string[] = [];
+  const parameters = eventsFunction.getParameters();
+  for (let i = 0; i < parameters.getParametersCount(); i++) {
+    const parameter = parameters.getParameterAt(i);
+    if (gd.ParameterMetadata.isObject(parameter.getType())) {
+      objectParameters.push(parameter.getName());
+    }
+  }
+
+  return {
+    project,
+    eventsFunction: { objectParameters, childObjects: owner.object?.getObjects() },
+  };
+}
+
+/**
+ * Check if a function is called by the engine (like onCreated or
+ * doStepPreEvents) rather than used as an instruction or expression.
+ */
+export function isLifecycleFunction(gd: GD, owner: EventsFunctionOwner, name: string): boolean {
+  const helper = gd.MetadataDeclarationHelper;
+  if (owner.behavior) return helper.isBehaviorLifecycleEventsFunction(name);
+  if (owner.object) return helper.isObjectLifecycleEventsFunction(name);
+  return helper.isExtensionLifecycleEventsFunction(name);
+}
+
+/**
+ * Set the type of a function and, for expressions, the type of the returned value.
+ */
+export function setFunctionType(
+  eventsFunction: GDEventsFunction,
+  type: FunctionTypeName,
+  expressionType?: string
+): void {
+  eventsFunction.setFunctionType(FUNCTION_TYPES.indexOf(type));
+
+  const returnsValue = type === 'expression' || type === 'expressionAndCondition';
+  if (!returnsValue) return;
+  const valueType = EXPRESSION_TYPES[expressionType ?? 'number'];
+  if (!valueType) {
+    throw new Error(
+      `Invalid expression type "${expressionType}" (expected ${Object.keys(EXPRESSION_TYPES).join(', ')})`
+    );
+  }
+  eventsFunction.getExpressionType().setName(valueType);
+}
+
+/**
+ * Replace the parameters of a function. Functions of behaviors and custom
+ * objects first get the parameters for the object (and the behavior), which
+ * GDevelop requires.
+ */
+export function setFunctionParameters(
+  gd: GD,
+  owner: EventsFunctionOwner,
+  eventsFunction: GDEventsFunction,
+  parameters: FunctionParameterSpec[]
+): void {
+  const names = new Set<string>();
+  for (const parameter of parameters) {
+    checkEventsExtensionName(parameter.name, 'parameter');
+    if (names.has(parameter.name)) {
+      throw new Error(`Parameter "${parameter.name}" is declared twice`);
+    }
+    if ((owner.behavior || owner.object) && ['Object', 'Behavior'].includes(parameter.name)) {
+      throw new Error(`Parameter name "${parameter.name}" is reserved in ${owner.label}`);
+    }
+    names.add(parameter.name);
+  }
+
+  const container = eventsFunction.getParameters();
+  container.clearParameters();
+
+  // Placeholders, completed by the refactorer below
+  if (owner.behavior || owner.object) container.addNewParameter('Object');
+  if (owner.behavior) container.addNewParameter('Behavior');
+
+  for (const spec of parameters) {
+    const parameter = container.addNewParameter(spec.name);
+    parameter.setType(PARAMETER_TYPE_ALIASES[spec.type] ?? spec.type);
+    parameter.setDescription(spec.description ?? spec.name);
+    parameter.setLongDescription(spec.longDescription ?? '');
+    parameter.setExtraInfo(spec.extraInfo ?? '');
+    parameter.setOptional(spec.optional ?? false);
+    parameter.setDefaultValue(spec.defaultValue ?? '');
+  }
+
+  if (owner.behavior) {
+    gd.WholeProjectRefactorer.ensureBehaviorEventsFunctionsProperParameters(
+      owner.extension,
+      owner.behavior
+    );
+  } else if (owner.object) {
+    gd.WholeProjectRefactorer.ensureObjectEventsFunctionsProperParameters(
+      owner.extension,
+      owner.object
+    );
+  }
+}
+
+/**
+ * Replace events with events in the GDevelop JSON format, as saved in project files.
+ */
+export function setEventsFromJSON(
+  gd: GD,
+  project: GDProject,
+  eventsList: GDEventsList,
+  events: unknown[]
+): void {
+  const element = gd.Serializer.fromJSON(JSON.stringify(events));
+  eventsList.unserializeFrom(project, element);
+  element.delete();
+}
+
+/**
+ * Get events in the GDevelop JSON format, as saved in project files.
+ */
+export function getEventsAsJSON(gd: GD, eventsList: GDEventsList): unknown[] {
+  const element = new gd.SerializerElement();
+  eventsList.serializeTo(element);
+  const json = gd.Serializer.toJSON(element);
+  element.delete();
+  return JSON.parse(json);
+}
+
+/**
+ * Create or update a property of a behavior or custom object.
+ * Only the given fields of an existing property are changed.
+ */
+export function setProperty(
+  gd: GD,
+  properties: GDPropertiesContainer,
+  spec: PropertySpec
+): GDNamedPropertyDescriptor {
+  checkEventsExtensionName(spec.name, 'property');
+
+  const isNew = !properties.has(spec.name);
+  const existing = isNew ? undefined : properties.get(spec.name);
+  // Checked before any change, as the property is not removed on failure
+  const type = spec.type ?? existing?.getType() ?? 'Number';
+  const choiceCount = spec.choices?.length ?? existing?.getChoices().size() ?? 0;
+  if (type === 'Choice' && choiceCount === 0) {
+    throw new Error(`Choice property "${spec.name}" needs choices`);
+  }
+
+  const property = existing ?? properties.insertNew(spec.name, properties.size());
+
+  if (isNew || spec.type) property.setType(spec.type ?? 'Number');
+  if (isNew || spec.value !== undefined) {
+    property.setValue(spec.value ?? getDefaultPropertyValue(property.getType()));
+  }
+  if (isNew || spec.label !== undefined) property.setLabel(spec.label ?? spec.name);
+  if (spec.description !== undefined) property.setDescription(spec.description);
+  if (spec.group !== undefined) property.setGroup(spec.group);
+  if (spec.hidden !== undefined) property.setHidden(spec.hidden);
+  if (spec.choices) {
+    property.clearChoices();
+    for (const choice of spec.choices) property.addChoice(choice, choice);
+  }
+  if (spec.behaviorType !== undefined) {
+    const extraInfo = new gd.VectorString();
+    extraInfo.push_back(spec.behaviorType);
+    property.setExtraInfo(extraInfo);
+    extraInfo.delete();
+  }
+
+  return property;
+}
+
+function getDefaultPropertyValue(type: string): string {
+  switch (type) {
+    case 'Number':
+      return '0';
+    case 'Boolean':
+      return 'false';
+    case 'Color':
+      return '0;0;0';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Describe a property of a behavior or custom object.
+ */
+export function describeProperty(property: GDNamedPropertyDescriptor) {
+  const choices = property.getChoices();
+  const extraInfo = property.getExtraInfo();
+  return {
+    name: property.getName(),
+    type: property.getType(),
+    value: property.getValue(),
+    label: property.getLabel(),
+    description: property.getDescription(),
+    group: property.getGroup(),
+    hidden: property.isHidden(),
+    ...(choices.size() > 0
+      ? { choices: Array.from({ length: choices.size() }, (_, i) => choices.at(i).getValue()) }
+      : {}),
+    ...(property.getType() === 'Behavior' && extraInfo.size() > 0
+      ? { behaviorType: extraInfo.at(0) }
+      : {}),
+  };
+}
+
+/**
+ * Describe a function with its parameters.
+ */
+export function describeEventsFunction(eventsFunction: GDEventsFunction) {
+  const type = FUNCTION_TYPES[eventsFunction.getFunctionType()];
+  const container = eventsFunction.getParameters();
+  const parameters = [];
+  for (let i = 0; i < container.getParametersCount(); i++) {
+    const parameter = container.getParameterAt(i);
+    parameters.push({
+      name: parameter.getName(),
+      type: parameter.getType(),
+      description: parameter.getDescription(),
+      extraInfo: parameter.getExtraInfo(),
+      optional: parameter.isOptional(),
+      defaultValue: parameter.getDefaultValue(),
+    });
+  }
+
+  const returnsValue = type === 'expression' || type === 'expressionAndCondition';
+  return {
+    name: eventsFunction.getName(),
+    type,
+    fullName: eventsFunction.getFullName(),
+    description: eventsFunction.getDescription(),
+    sentence: eventsFunction.getSentence(),
+    group: eventsFunction.getGroup(),
+    private: eventsFunction.isPrivate(),
+    async: eventsFunction.isAsync(),
+    ...(returnsValue ? { expressionType: eventsFunction.getExpressionType().getName() } : {}),
+    parameters,
+    eventCount: eventsFunction.getEvents().getEventsCount(),
+  };
+}
+
+function describeEventsFunctions(functions: GDEventsFunctionsContainer) {
+  const result = [];
+  for (let i = 0; i < functions.getEventsFunctionsCount(); i++) {
+    result.push(describeEventsFunction(functions.getEventsFunctionAt(i)));
+  }
+  return result;
+}
+
+function describeProperties(properties: GDPropertiesContainer) {
+  const result = [];
+  for (let i = 0; i < properties.size(); i++) {
+    result.push(describeProperty(properties.at(i)));
+  }
+  return result;
+}
+
+/**
+ * Describe an events-based extension with its functions, behaviors and custom objects.
+ */
+export function describeEventsFunctionsExtension(extension: GDEventsFunctionsExtension) {
+  const tags = extension.getTags();
+  const behaviors = extension.getEventsBasedBehaviors();
+  const objects = extension.getEventsBasedObjects();
+
+  return {
+    name: extension.getName(),
+    fullName: extension.getFullName(),
+    shortDescription: extension.getShortDescription(),
+    description: extension.getDescription(),
+    version: extension.getVersion(),
+    author: extension.getAuthor(),
+    category: extension.getCategory(),
+    tags: Array.from({ length: tags.size() }, (_, i) => tags.at(i)),
+    functions: describeEventsFunctions(extension.getEventsFunctions()),
+    behaviors: Array.from({ length: behaviors.size() }, (_, i) => {
+      const behavior = behaviors.at(i);
+      return {
+        name: behavior.getName(),
+        type: `${extension.getName()}::${behavior.getName()}`,
+        fullName: behavior.getFullName(),
+        description: behavior.getDescription(),
+        objectType: behavior.getObjectType(),
+        private: behavior.isPrivate(),
+        properties: describeProperties(behavior.getPropertyDescriptors()),
+        functions: describeEventsFunctions(behavior.getEventsFunctions()),
+      };
+    }),
+    objects: Array.from({ length: objects.size() }, (_, i) => {
+      const object = objects.at(i);
+      const children = object.getObjects();
+      return {
+        name: object.getName(),
+        type: `${extension.getName()}::${object.getName()}`,
+        fullName: object.getFullName(),
+        description: object.getDescription(),
+        defaultName: object.getDefaultName(),
+        renderedIn3D: object.isRenderedIn3D(),
+        private: object.isPrivate(),
+        children: Array.from({ length: children.getObjectsCount() }, (_, j) => ({
+          name: children.getObjectAt(j).getName(),
+          type: children.getObjectAt(j).getType(),
+        })),
+        properties: describeProperties(object.getPropertyDescriptors()),
+        functions: describeEventsFunctions(object.getEventsFunctions()),
+      };
+    }),
+  };
+}
+
+/**
+ * Declare (again) the instructions, expressions, behaviors and objects of an
+ * events-based extension on the platform, so that they can be used and checked
+ * in events like those of built-in extensions. No code is generated here:
+ * it is done when the game is exported.
+ * Extensions named like a built-in extension are not declared, as they would
+ * replace it on the platform shared by all projects.
+ */
+export function reloadExtensionMetadata(
+  gd: GD,
+  project: GDProject,
+  builtinExtensionNames: ReadonlySet<string>,
+  extension: GDEventsFunctionsExtension
+): void {
+  if (builtinExtensionNames.has(extension.getName())) return;
+
+  const platform = project.getCurrentPlatform();
+  if (platform.isExtensionLoaded(extension.getName())) {
+    platform.removeExtension(extension.getName());
+  }
+
+  const platformExtension = new gd.PlatformExtension();
+  gd.MetadataDeclarationHelper.declareExtension(platformExtension, extension);
+
+  const behaviors = extension.getEventsBasedBehaviors();
+  for (let i = 0; i < behaviors.size(); i++) {
+    const mangledNames = new gd.MapStringString();
+    gd.MetadataDeclarationHelper.generateBehaviorMetadata(
+      project,
+      platformExtension,
+      extension,
+      behaviors.at(i),
+      mangledNames
+    );
+    mangledNames.delete();
+  }
+
+  const objects = extension.getEventsBasedObjects();
+  for (let i = 0; i < objects.size(); i++) {
+    const mangledNames = new gd.MapStringString();
+    gd.MetadataDeclarationHelper.generateObjectMetadata(
+      project,
+      platformExtension,
+      extension,
+      objects.at(i),
+      mangledNames
+    );
+    mangledNames.delete();
+  }
+
+  const helper = new gd.MetadataDeclarationHelper();
+  const functions = extension.getEventsFunctions();
+  for (let i = 0; i < functions.getEventsFunctionsCount(); i++) {
+    helper.generateFreeFunctionMetadata(
+      project,
+      platformExtension,
+      extension,
+      functions.getEventsFunctionAt(i)
+    );
+  }
+  helper.delete();
+
+  platform.addNewExtension(platformExtension);
+  platformExtension.delete();
+}
+
+/**
+ * Declare the events-based extensions of a project on the platform, like
+ * reloadExtensionMetadata does for one extension.
+ * @param extensionNames Only declare the extensions with these names.
+ */
+export function reloadProjectExtensionsMetadata(
+  gd: GD,
+  project: GDProject,
+  builtinExtensionNames: ReadonlySet<string>,
+  extensionNames?: ReadonlySet<string>
+): void {
+  for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+    const extension = project.getEventsFunctionsExtensionAt(i);
+    if (!extensionNames || extensionNames.has(extension.getName())) {
+      reloadExtensionMetadata(gd, project, builtinExtensionNames, extension);
+    }
+  }
+}
+
+/**
+ * Remove the declarations of events-based extensions from the platform.
+ * Built-in extensions with the same names are kept.
+ */
+export function unloadExtensionsMetadata(
+  project: GDProject,
+  builtinExtensionNames: ReadonlySet<string>,
+  extensionNames: Iterable<string>
+): void {
+  const platform = project.getCurrentPlatform();
+  for (const name of extensionNames) {
+    if (builtinExtensionNames.has(name)) continue;
+    if (platform.isExtensionLoaded(name)) platform.removeExtension(name);
+  }
+}
+
+/**
+ * Get the names of the events-based extensions of a project.
+ */
+export function getEventsFunctionsExtensionNames(project: GDProject): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+    names.push(project.getEventsFunctionsExtensionAt(i).getName());
+  }
+  return names;
+}
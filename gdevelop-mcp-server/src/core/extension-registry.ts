@@ -0,0 +1,376 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GD, GDProject, GDEventsFunctionsExtension } from '../types/gdcore.js';
+import { reloadExtensionMetadata } from './events-extensions.js';
+
+// Origin set on extensions installed from the registry, as done by the editor
+export const EXTENSION_STORE_ORIGIN = 'gdevelop-extension-store';
+
+/**
+ * An extension of the registry: its header and its serialized content.
+ */
+export interface RegistryExtension {
+  name: string;
+  fullName: string;
+  shortDescription: string;
+  version: string;
+  category: string;
+  tags: string[];
+  author: string;
+  // Range of GDevelop versions the extension works with ("" for any)
+  gdevelopVersion: string;
+  requiredExtensions: { extensionName: string; extensionVersion: string }[];
+  file: string;
+  serialized: SerializedExtension;
+}
+
+/**
+ * An extension as parsed from a registry file. Only its name and functions
+ * are known to be there: other fields are checked when read.
+ */
+export interface SerializedExtension {
+  name: string;
+  eventsFunctions: unknown[];
+  [field: string]: unknown;
+}
+
+/**
+ * Get the path of the registry: the one given, or the one configured with
+ * the GDEVELOP_EXTENSION_REGISTRY environment variable.
+ * @throws Error if no registry is configured.
+ */
+export function getRegistryPath(registryPath?: string): string {
+  const resolved = registryPath || process.env.GDEVELOP_EXTENSION_REGISTRY;
+  if (!resolved) {
+    throw new Error(
+      'No extension registry: set GDEVELOP_EXTENSION_REGISTRY or give registryPath'
+    );
+  }
+  return path.resolve(resolved);
+}
+
+/**
+ * Load the extensions of a registry: a directory of extension files (searched
+ * recursively, like a mirror of the extension store), or a single file holding
+ * an extension or an array of extensions. Files that are not extensions are
+ * ignored. When an extension is found twice, its most recent version is kept.
+ * @throws Error if the registry can't be read or a file is not valid JSON.
+ */
+export async function loadExtensionRegistry(registryPath: string): Promise<RegistryExtension[]> {
+  let stats;
+  try {
+    stats = await fs.stat(registryPath);
+  } catch {
+    throw new Error(`Extension registry "${registryPath}" not found`);
+  }
+
+  const files = stats.isDirectory() ? await findJsonFiles(registryPath) : [registryPath];
+  const extensions = new Map<string, RegistryExtension>();
+  for (const file of files) {
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      throw new Error(`Invalid JSON in extension registry file "${file}"`);
+    }
+
+    for (const serialized of Array.isArray(content) ? content : [content]) {
+      if (!isSerializedExtension(serialized)) continue;
+      const extension = toRegistryExtension(serialized, file);
+      const existing = extensions.get(extension.name);
+      if (!existing || compareVersions(extension.version, existing.version) > 0) {
+        extensions.set(extension.name, extension);
+      }
+    }
+  }
+
+  return [...extensions.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get the version of GDevelop Core, as "major.minor.build".
+ */
+export function getGDevelopVersion(gd: GD): string {
+  return `${gd.VersionWrapper.major()}.${gd.VersionWrapper.minor()}.${gd.VersionWrapper.build()}`;
+}
+
+/**
+ * Check if an extension of the registry works with the running GDevelop version.
+ */
+export function isCompatible(gd: GD, extension: RegistryExtension): boolean {
+  return satisfiesVersionRange(getGDevelopVersion(gd), extension.gdevelopVersion);
+}
+
+/**
+ * Describe an extension of the registry, with the version installed in the
+ * project if any.
+ */
+export function describeRegistryExtension(
+  gd: GD,
+  project: GDProject,
+  extension: RegistryExtension
+) {
+  const installedVersion = project.hasEventsFunctionsExtensionNamed(extension.name)
+    ? project.getEventsFunctionsExtension(extension.name).getVersion()
+    : undefined;
+
+  return {
+    name: extension.name,
+    fullName: extension.fullName,
+    shortDescription: extension.shortDescription,
+    version: extension.version,
+    category: extension.category,
+    tags: extension.tags,
+    author: extension.author,
+    gdevelopVersion: extension.gdevelopVersion || undefined,
+    compatible: isCompatible(gd, extension),
+    requiredExtensions: extension.requiredExtensions.map((required) => required.extensionName),
+    installedVersion,
+    updateAvailable:
+      installedVersion !== undefined && compareVersions(extension.version, installedVersion) > 0,
+  };
+}
+
+/**
+ * Find the extensions to install from the registry so that the given extensions
+ * are installed with their required extensions, dependencies first.
+ * Required extensions already installed in the project in a suitable version, and
+ * built-in extensions, are kept, unless listed in the extensions to install.
+ * @param builtinExtensionNames Extensions built into the platform, which
+ *   registry extensions can't replace.
+ * @throws Error if an extension or a dependency is missing from the registry,
+ * doesn't work with this GDevelop version (unless ignoreCompatibility is set),
+ * conflicts with a built-in extension, or if dependencies are circular.
+ */
+export function planExtensionInstall(
+  gd: GD,
+  project: GDProject,
+  builtinExtensionNames: ReadonlySet<string>,
+  registry: RegistryExtension[],
+  extensionNames: string[],
+  ignoreCompatibility = false
+): RegistryExtension[] {
+  const plan: RegistryExtension[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (name: string, requiredBy?: string) => {
+    if (plan.some((extension) => extension.name === name)) return;
+    if (visiting.has(name)) {
+      const cycle = [...visiting, name].join(' -> ');
+      throw new Error(`Circular dependency between extensions: ${cycle}`);
+    }
+
+    const extension = registry.find((entry) => entry.name === name);
+    if (!extension) {
+      throw new Error(
+        requiredBy
+          ? `Extension "${requiredBy}" requires "${name}", which is not in the registry`
+          : `Extension "${name}" not found in the registry`
+      );
+    }
+    if (builtinExtensionNames.has(name)) {
+      throw new Error(`Extension "${name}" conflicts with a built-in extension`);
+    }
+    if (!ignoreCompatibility && !isCompatible(gd, extension)) {
+      throw new Error(
+        `Extension "${name}" ${extension.version} requires GDevelop ` +
+          `${extension.gdevelopVersion}, but GDevelop ${getGDevelopVersion(gd)} is used`
+      );
+    }
+
+    visiting.add(name);
+    for (const { extensionName, extensionVersion } of extension.requiredExtensions) {
+      const range = toMinimumVersionRange(extensionVersion);
+      if (project.hasEventsFunctionsExtensionNamed(extensionName)) {
+        const installed = project.getEventsFunctionsExtension(extensionName).getVersion();
+        if (satisfiesVersionRange(installed, range)) continue;
+      } else if (builtinExtensionNames.has(extensionName)) {
+        continue;
+      }
+
+      const required = registry.find((entry) => entry.name === extensionName);
+      if (required && !satisfiesVersionRange(required.version, range)) {
+        throw new Error(
+          `Extension "${name}" requires "${extensionName}" ${range}, ` +
+            `but the registry has version ${required.version}`
+        );
+      }
+      visit(extensionName, name);
+    }
+    visiting.delete(name);
+    plan.push(extension);
+  };
+
+  for (const name of extensionNames) visit(name);
+  return plan;
+}
+
+/**
+ * Install an extension of the registry in the project, replacing the installed
+ * version if any, and declare its instructions, behaviors and objects.
+ */
+export function installRegistryExtension(
+  gd: GD,
+  project: GDProject,
+  builtinExtensionNames: ReadonlySet<string>,
+  extension: RegistryExtension
+): GDEventsFunctionsExtension {
+  const eventsFunctionsExtension = project.hasEventsFunctionsExtensionNamed(extension.name)
+    ? project.getEventsFunctionsExtension(extension.name)
+    : project.insertNewEventsFunctionsExtension(
+        extension.name,
+        project.getEventsFunctionsExtensionsCount()
+      );
+
+  const element = gd.Serializer.fromJSON(JSON.stringify(extension.serialized));
+  eventsFunctionsExtension.unserializeFrom(project, element);
+  element.delete();
+  eventsFunctionsExtension.setOrigin(EXTENSION_STORE_ORIGIN, extension.name);
+
+  reloadExtensionMetadata(gd, project, builtinExtensionNames, eventsFunctionsExtension);
+  return eventsFunctionsExtension;
+}
+
+/**
+ * Compare two versions ("1.2.3", "v2.0"), ignoring pre-release suffixes.
+ * @returns A negative number if a is older than b, 0 if equal, a positive number if newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = parseVersion(a);
+  const partsB = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (partsA[i] !== partsB[i]) return partsA[i] - partsB[i];
+  }
+  return 0;
+}
+
+/**
+ * Check if a version is in a range like ">=5.3.180", "^1.2.0", "~1.2.0",
+ * ">=1.0.0 <2.0.0" or "1.x || 2.x". An empty range or "*" accepts any version.
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  return range.split('||').some((alternative) =>
+    // An operator may be separated from its version by spaces (">= 5.3.180")
+    [...alternative.matchAll(/(>=|<=|>|<|=|\^|~)?\s*v?([^\s<>=^~]+)/g)].every(
+      ([, operator = '=', target]) => satisfiesComparator(version, operator, target)
+    )
+  );
+}
+
+function satisfiesComparator(version: string, operator: string, target: string): boolean {
+  if (target === '*') return true;
+
+  const comparison = compareVersions(version, target);
+  const [major, minor] = parseVersion(target);
+
+  switch (operator) {
+    case '>=':
+      return comparison >= 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '<':
+      return comparison < 0;
+    case '^':
+      return comparison >= 0 && parseVersion(version)[0] === major;
+    case '~': {
+      const [versionMajor, versionMinor] = parseVersion(version);
+      return comparison >= 0 && versionMajor === major && versionMinor === minor;
+    }
+    default:
+      return isWildcardVersion(target)
+        ? target
+            .split('.')
+            .every((part, i) => /^[x*]$/i.test(part) || Number(part) === parseVersion(version)[i])
+        : comparison === 0;
+  }
+}
+
+function isWildcardVersion(version: string): boolean {
+  return version.split('.').some((part) => /^[x*]$/i.test(part));
+}
+
+function parseVersion(version: string): number[] {
+  const parts = version.trim().replace(/^v/, '').split(/[-+]/)[0].split('.');
+  return [0, 1, 2].map((i) => {
+    const part = Number(parts[i]);
+    return Number.isFinite(part) ? part : 0;
+  });
+}
+
+/**
+ * Required extension versions are minimum versions, unless given as a range.
+ */
+function toMinimumVersionRange(version: string): string {
+  if (!version) return '';
+  return /^v?\d/.test(version.trim()) ? `>=${version.trim()}` : version;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSerializedExtension(content: unknown): content is SerializedExtension {
+  return (
+    isRecord(content) &&
+    typeof content.name === 'string' &&
+    Array.isArray(content.eventsFunctions)
+  );
+}
+
+function toRegistryExtension(serialized: SerializedExtension, file: string): RegistryExtension {
+  const requiredExtensions = Array.isArray(serialized.requiredExtensions)
+    ? serialized.requiredExtensions.filter(
+        (required): required is Record<string, unknown> & { extensionName: string } =>
+          isRecord(required) && typeof required.extensionName === 'string'
+      )
+    : [];
+
+  return {
+    name: serialized.name,
+    fullName: readString(serialized.fullName, serialized.name),
+    shortDescription: readString(serialized.shortDescription, ''),
+    version: readString(serialized.version, '0.0.0'),
+    category: readString(serialized.category, ''),
+    tags: readTags(serialized.tags),
+    author: readString(serialized.author, ''),
+    gdevelopVersion: readString(serialized.gdevelopVersion, ''),
+    requiredExtensions: requiredExtensions.map((required) => ({
+      extensionName: required.extensionName,
+      extensionVersion: readString(required.extensionVersion, ''),
+    })),
+    file,
+    serialized,
+  };
+}
+
+function readString(value: unknown, defaultValue: string): string {
+  return typeof value === 'string' ? value : defaultValue;
+}
+
+// Older extensions store their tags as a comma-separated string
+function readTags(tags: unknown): string[] {
+  if (Array.isArray(tags)) {
+    return tags.filter((tag): tag is string => typeof tag === 'string');
+  }
+  if (typeof tags !== 'string') return [];
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+async function findJsonFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findJsonFiles(entryPath)));
+    } else if (entry.name.endsWith('.json')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
@@ -11,6 +11,7 @@ export class GDCoreManager {
   private gdtools: GDTools | null = null;
   private initPromise: Promise<void> | null = null;
   private version: string | undefined;
+  private builtinExtensionNames: Set<string> = new Set();
 
   /**
    * Initialize the GDevelop Core library.
@@ -31,6 +32,12 @@ export class GDCoreManager {
         const gdtools = (await import('gdcore-tools')) as unknown as GDTools;
         this.gdtools = gdtools;
 
+        // Recorded before any project declares its events-based extensions
+        const extensions = gdtools.gd.JsPlatform.get().getAllPlatformExtensions();
+        for (let i = 0; i < extensions.size(); i++) {
+          this.builtinExtensionNames.add(extensions.at(i).getName());
+        }
+
         if (version) {
           logger.info(
             { version },
@@ -85,6 +92,14 @@ export class GDCoreManager {
     return this.gdtools !== null;
   }
 
+  /**
+   * Get the names of the extensions built into the platform, excluding the
+   * events-based extensions declared for the opened projects.
+   */
+  getBuiltinExtensionNames(): ReadonlySet<string> {
+    return this.builtinExtensionNames;
+  }
+
   /**
    * Get the GDevelop version being used.
    */
@@ -1,3 +1,190 @@
 export { GDCoreManager, getGDCoreManager } from './gdcore-manager.js';
 export { ProjectManager, type SessionSummary } from './project-manager.js';
-export { ProjectSession, type ProjectInfo } from './project-session.js';
+export { ProjectSession, type ProjectInfo, type HistoryEntry } from './project-session.js';
+export {
+  getInstructionMetadata,
+  getInstructionProblems,
+  getParameterCountProblem,
+  validateInstruction,
+  type InstructionKind,
+  type InstructionScope,
+  type InstructionSpec,
+} from './instruction-validator.js';
+export {
+  getInstructionCatalog,
+  getObjectCatalog,
+  getBehaviorCatalog,
+  findObjectTypeMetadata,
+  findBehaviorTypeMetadata,
+  getEffectCatalog,
+  findPlatformExtension,
+  getExtensionContents,
+  type CatalogKind,
+  type CatalogProperty,
+  type ObjectCatalogEntry,
+  type BehaviorCatalogEntry,
+  type EffectCatalogEntry,
+  type TypeCatalogSource,
+  type CatalogParameter,
+  type InstructionCatalogEntry,
+  type InstructionCatalogFilter,
+  type InstructionCatalogScope,
+  type ExtensionContents,
+} from './metadata-catalog.js';
+export {
+  getConfigurationProperties,
+  updateConfigurationProperties,
+  getInstanceProperties,
+  updateInstanceProperties,
+  type ConfigurationProperty,
+  type ConfigurationValue,
+} from './object-configuration.js';
+export {
+  EVENT_TYPES,
+  getInstructionLists,
+  forEachEvent,
+  forEachInstruction,
+  getEventsFunctionsSheets,
+  getProjectEventsSheets,
+  type EventInstructionLists,
+  type EventsSheet,
+} from './event-traversal.js';
+export {
+  findObjectReferences,
+  findSceneReferences,
+  findVariableReferences,
+  findResourceReferences,
+  findBehaviorReferences,
+  findLayerReferences,
+  findExternalEventsReferences,
+  findExtensionReferences,
+  removeObjectReferences,
+  removeSceneReferences,
+  removeVariableReferences,
+  replaceResourceReferences,
+  removeExtensionReferences,
+  countReferences,
+  describeReference,
+  formatReferences,
+  type ObjectScope,
+  type VariableScope,
+  type Reference,
+  type ReferenceKind,
+} from './usage-analysis.js';
+export {
+  validateProject,
+  type Diagnostic,
+  type DiagnosticSeverity,
+} from './project-validator.js';
+export {
+  getVariableType,
+  readVariable,
+  readVariables,
+  writeVariable,
+  convertPrimitiveValue,
+  parseVariablePath,
+  formatPath,
+  getVariableAtPath,
+  setVariableAtPath,
+  removeVariableAtPath,
+  renameVariable,
+  variableValueSchema,
+  VARIABLE_TYPES,
+  type VariableValue,
+  type VariableTypeName,
+  type VariablePathSegment,
+} from './variables.js';
+export {
+  findInstance,
+  selectInstances,
+  getSelectionCenter,
+  moveInstances,
+  rotateInstances,
+  scaleInstances,
+  type InstanceSelection,
+  type Point,
+} from './instances.js';
+export {
+  locateInstances,
+  getObjectDefaultSize,
+  readImageSize,
+  getBounds,
+  boundsOverlap,
+  boundsContain,
+  distanceToBounds,
+  farthestDistanceToBounds,
+  getLayerStats,
+  type Size,
+  type ObjectSize,
+  type Bounds,
+  type LocatedInstance,
+  type LayerStats,
+} from './spatial.js';
+export {
+  computePlacements,
+  MAX_PLACEMENTS,
+  type Placement,
+  type PlacementPattern,
+  type GridPattern,
+  type LinePattern,
+  type CirclePattern,
+  type ScatterPattern,
+  type MapPattern,
+} from './placement.js';
+export {
+  describeEffect,
+  getEffectMetadata,
+  resetEffectParameters,
+  updateEffectParameters,
+  type EffectParameterValue,
+  type EffectDescription,
+} from './effects.js';
+export {
+  LAYER_RENDERING_TYPES,
+  LAYER_CAMERA_TYPES,
+  getLayerCameraSettings,
+  getLayerCameras,
+  setLayerCameras,
+  createDefaultCamera,
+  type LayerCamera,
+  type LayerCameraSettings,
+} from './cameras.js';
+export {
+  FUNCTION_TYPES,
+  PROPERTY_TYPES,
+  checkEventsExtensionName,
+  getEventsFunctionsExtension,
+  getEventsFunctionOwner,
+  getEventsFunction,
+  getEventsFunctionScope,
+  isLifecycleFunction,
+  setFunctionType,
+  setFunctionParameters,
+  setEventsFromJSON,
+  getEventsAsJSON,
+  setProperty,
+  describeProperty,
+  describeEventsFunction,
+  describeEventsFunctionsExtension,
+  reloadExtensionMetadata,
+  reloadProjectExtensionsMetadata,
+  unloadExtensionsMetadata,
+  getEventsFunctionsExtensionNames,
+  type FunctionTypeName,
+  type FunctionParameterSpec,
+  type PropertySpec,
+  type EventsFunctionOwner,
+} from './events-extensions.js';
+export {
+  EXTENSION_STORE_ORIGIN,
+  getRegistryPath,
+  loadExtensionRegistry,
+  getGDevelopVersion,
+  isCompatible,
+  describeRegistryExtension,
+  planExtensionInstall,
+  installRegistryExtension,
+  compareVersions,
+  satisfiesVersionRange,
+  type RegistryExtension,
+} from './extension-registry.js';
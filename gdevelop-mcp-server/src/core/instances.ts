@@ -0,0 +1,140 @@
+import type { GDInitialInstance, GDInitialInstancesContainer } from '../types/gdcore.js';
+
+/**
+ * Instances to work on: the instances with the given IDs, or all the
+ * instances matching the object and layer filters.
+ */
+export interface InstanceSelection {
+  ids?: string[];
+  objectName?: string;
+  layer?: string;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Find an instance by its persistent UUID.
+ */
+export function findInstance(
+  container: GDInitialInstancesContainer,
+  id: string
+): GDInitialInstance | undefined {
+  let found: GDInitialInstance | undefined;
+  container.iterateOverInstances((instance: GDInitialInstance) => {
+    if (!found && instance.getPersistentUuid() === id) found = instance;
+  });
+  return found;
+}
+
+/**
+ * Get the instances of a selection.
+ * @throws Error if an instance of the selected IDs is not found.
+ */
+export function selectInstances(
+  container: GDInitialInstancesContainer,
+  selection: InstanceSelection
+): GDInitialInstance[] {
+  const { ids, objectName, layer } = selection;
+  const instances: GDInitialInstance[] = [];
+
+  container.iterateOverInstances((instance: GDInitialInstance) => {
+    if (ids && !ids.includes(instance.getPersistentUuid())) return;
+    if (objectName !== undefined && instance.getObjectName() !== objectName) return;
+    if (layer !== undefined && instance.getLayer() !== layer) return;
+    instances.push(instance);
+  });
+
+  if (ids) {
+    const found = new Set(instances.map((instance) => instance.getPersistentUuid()));
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Instances not found: ${missing.join(', ')}`);
+    }
+  }
+  return instances;
+}
+
+/**
+ * Get the center of the positions of instances.
+ */
+export function getSelectionCenter(instances: GDInitialInstance[]): Point {
+  const xs = instances.map((instance) => instance.getX());
+  const ys = instances.map((instance) => instance.getY());
+  return {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+}
+
+/**
+ * Move instances by an offset.
+ */
+export function moveInstances(instances: GDInitialInstance[], dx: number, dy: number): void {
+  for (const instance of instances) {
+    instance.setX(instance.getX() + dx);
+    instance.setY(instance.getY() + dy);
+  }
+}
+
+/**
+ * Rotate instances around a pivot: their positions turn around it and
+ * their angles are increased by the same angle.
+ * @param angle Angle in degrees, clockwise as in the scene.
+ */
+export function rotateInstances(
+  instances: GDInitialInstance[],
+  angle: number,
+  pivot: Point
+): void {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  for (const instance of instances) {
+    const dx = instance.getX() - pivot.x;
+    const dy = instance.getY() - pivot.y;
+    instance.setX(pivot.x + dx * cos - dy * sin);
+    instance.setY(pivot.y + dx * sin + dy * cos);
+    instance.setAngle((((instance.getAngle() + angle) % 360) + 360) % 360);
+  }
+}
+
+/**
+ * Scale instances from an origin: their positions get away from it and
+ * their sizes are multiplied by the same factors.
+ * @returns The instances that were only moved, because their size is unknown:
+ *   they have no custom size and the default size of their object is not known.
+ */
+export function scaleInstances(
+  instances: GDInitialInstance[],
+  scaleX: number,
+  scaleY: number,
+  origin: Point
+): GDInitialInstance[] {
+  const unsized: GDInitialInstance[] = [];
+
+  for (const instance of instances) {
+    instance.setX(origin.x + (instance.getX() - origin.x) * scaleX);
+    instance.setY(origin.y + (instance.getY() - origin.y) * scaleY);
+
+    const width = instance.hasCustomSize() ? instance.getCustomWidth() : instance.getDefaultWidth();
+    const height = instance.hasCustomSize()
+      ? instance.getCustomHeight()
+      : instance.getDefaultHeight();
+    if (width <= 0 || height <= 0) {
+      unsized.push(instance);
+      continue;
+    }
+
+    instance.setHasCustomSize(true);
+    instance.setCustomWidth(width * Math.abs(scaleX));
+    instance.setCustomHeight(height * Math.abs(scaleY));
+    if (scaleX < 0) instance.setFlippedX(!instance.isFlippedX());
+    if (scaleY < 0) instance.setFlippedY(!instance.isFlippedY());
+  }
+
+  return unsized;
+}
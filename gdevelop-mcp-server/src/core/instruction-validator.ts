@@ -0,0 +1,349 @@
+import type {
+  GD,
+  GDProject,
+  GDLayout,
+  GDObject,
+  GDObjectsContainer,
+  GDInstructionMetadata,
+  GDParameterMetadata,
+} from '../types/gdcore.js';
+
+export type InstructionKind = 'condition' | 'action';
+
+export interface InstructionSpec {
+  type: string;
+  parameters: string[];
+}
+
+/**
+ * Where an instruction is used: the project and, for scene events, the scene.
+ * In the events of an extension function, objects are those given as parameters
+ * and, for a custom object, its child objects.
+ */
+export interface InstructionScope {
+  project: GDProject;
+  layout?: GDLayout;
+  eventsFunction?: {
+    objectParameters: string[];
+    childObjects?: GDObjectsContainer;
+  };
+}
+
+// Key names understood by the keyboard conditions
+const KEY_NAMES = new Set([
+  ...'abcdefghijklmnopqrstuvwxyz'.split(''),
+  ...Array.from({ length: 10 }, (_, i) => `Num${i}`),
+  ...Array.from({ length: 10 }, (_, i) => `Numpad${i}`),
+  ...Array.from({ length: 12 }, (_, i) => `F${i + 1}`),
+  'LShift', 'RShift', 'LControl', 'RControl', 'LAlt', 'RAlt', 'LSystem', 'RSystem',
+  'SemiColon', 'Comma', 'Period', 'Quote', 'Slash', 'BackSlash', 'Equal', 'Dash',
+  'Menu', 'LBracket', 'RBracket', 'Tilde', 'Space', 'Back', 'Tab', 'Delete', 'Insert',
+  'Escape', 'PageUp', 'PageDown', 'End', 'Home', 'Return',
+  'NumpadPageUp', 'NumpadPageDown', 'NumpadEnd', 'NumpadHome', 'NumpadReturn',
+  'Add', 'Subtract', 'Multiply', 'Divide',
+  'NumpadAdd', 'NumpadSubtract', 'NumpadMultiply', 'NumpadDivide',
+  'Left', 'Up', 'Right', 'Down', 'NumpadLeft', 'NumpadUp', 'NumpadRight', 'NumpadDown',
+  'Pause',
+]);
+
+const MOUSE_BUTTONS = ['Left', 'Right', 'Middle', 'Back', 'Forward'];
+
+// Allowed operators, by value type (the parameter's extra info)
+const OPERATORS: Record<string, string[]> = {
+  number: ['=', '+', '-', '*', '/'],
+  string: ['=', '+'],
+  boolean: ['True', 'False', 'Toggle'],
+};
+
+const RELATIONAL_OPERATORS: Record<string, string[]> = {
+  number: ['=', '<', '>', '<=', '>=', '!='],
+  string: ['=', '!=', 'startsWith', 'endsWith', 'contains'],
+};
+
+// Parameter types that must not be left empty when required
+const NON_EMPTY_PARAMETER_TYPES = new Set([
+  'behavior',
+  'expression',
+  'number',
+  'operator',
+  'relationalOperator',
+  'key',
+  'mouse',
+  'layer',
+  'scenevar',
+  'globalvar',
+  'objectvar',
+  'variable',
+]);
+
+/**
+ * Get the metadata of a condition or action, or null if the type is unknown
+ * to the project's platform (including loaded extensions).
+ */
+export function getInstructionMetadata(
+  gd: GD,
+  project: GDProject,
+  kind: InstructionKind,
+  type: string
+): GDInstructionMetadata | null {
+  const platform = project.getCurrentPlatform();
+  const metadata =
+    kind === 'condition'
+      ? gd.MetadataProvider.getConditionMetadata(platform, type)
+      : gd.MetadataProvider.getActionMetadata(platform, type);
+
+  return gd.MetadataProvider.isBadInstructionMetadata(metadata) ? null : metadata;
+}
+
+/**
+ * Check an instruction against its GDCore metadata.
+ * @returns A list of problems, empty if the instruction is valid.
+ */
+export function getInstructionProblems(
+  gd: GD,
+  scope: InstructionScope,
+  kind: InstructionKind,
+  instruction: InstructionSpec
+): string[] {
+  const metadata = getInstructionMetadata(gd, scope.project, kind, instruction.type);
+  if (!metadata) {
+    return [`Unknown ${kind} type "${instruction.type}"`];
+  }
+
+  const problems: string[] = [];
+  const { parameters } = instruction;
+  const maxCount = metadata.getParametersCount();
+
+  const countProblem = getParameterCountProblem(metadata, parameters.length);
+  if (countProblem) {
+    problems.push(countProblem);
+  }
+
+  let lastObject: GDObject | null = null;
+
+  for (let i = 0; i < Math.min(parameters.length, maxCount); i++) {
+    const parameter = metadata.getParameter(i);
+    const value = parameters[i];
+    const type = parameter.getType();
+
+    if (gd.ParameterMetadata.isObject(type)) {
+      lastObject = value ? findObject(scope, value) : null;
+    }
+    if (parameter.isCodeOnly()) continue;
+
+    const problem = getParameterProblem(gd, scope, parameter, value, lastObject);
+    if (problem) {
+      const name = parameter.getName() || type;
+      problems.push(`parameter ${i} (${name}) ${problem}`);
+    }
+  }
+
+  return problems.map((problem) =>
+    problem.startsWith('Unknown') ? problem : `${capitalize(kind)} "${instruction.type}" ${problem}`
+  );
+}
+
+/**
+ * Check the number of parameters of an instruction. Trailing optional and
+ * code-only parameters can be omitted.
+ * @returns A description of the problem, or null if the count is valid.
+ */
+export function getParameterCountProblem(
+  metadata: GDInstructionMetadata,
+  count: number
+): string | null {
+  const maxCount = metadata.getParametersCount();
+  let minCount = 0;
+  for (let i = 0; i < maxCount; i++) {
+    const parameter = metadata.getParameter(i);
+    if (!parameter.isOptional() && !parameter.isCodeOnly()) {
+      minCount = i + 1;
+    }
+  }
+
+  if (count >= minCount && count <= maxCount) return null;
+  const expected = minCount === maxCount ? `${maxCount}` : `${minCount} to ${maxCount}`;
+  return `expects ${expected} parameter(s), got ${count}`;
+}
+
+/**
+ * Check an instruction against its GDCore metadata.
+ * @throws Error listing every problem found.
+ */
+export function validateInstruction(
+  gd: GD,
+  scope: InstructionScope,
+  kind: InstructionKind,
+  instruction: InstructionSpec
+): void {
+  const problems = getInstructionProblems(gd, scope, kind, instruction);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${kind}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Check a single parameter value against its declared kind.
+ * @returns A description of the problem, or null if the value is valid.
+ */
+function getParameterProblem(
+  gd: GD,
+  scope: InstructionScope,
+  parameter: GDParameterMetadata,
+  value: string,
+  lastObject: GDObject | null
+): string | null {
+  const type = parameter.getType();
+  const extraInfo = parameter.getExtraInfo();
+
+  if (value === '') {
+    if (parameter.isOptional()) return null;
+    if (gd.ParameterMetadata.isObject(type) || NON_EMPTY_PARAMETER_TYPES.has(type)) {
+      return 'is required';
+    }
+    return null;
+  }
+
+  if (gd.ParameterMetadata.isObject(type)) {
+    if (!isObjectOrGroup(scope, value)) {
+      return `"${value}" is not an object or group`;
+    }
+    const object = findObject(scope, value);
+    if (extraInfo && object && object.getType() !== extraInfo) {
+      return `"${value}" must be an object of type "${extraInfo}" (is "${object.getType()}")`;
+    }
+    return null;
+  }
+
+  if (gd.ParameterMetadata.isBehavior(type)) {
+    if (!lastObject) return null;
+    if (!lastObject.hasBehaviorNamed(value)) {
+      return `"${value}" is not a behavior of object "${lastObject.getName()}"`;
+    }
+    const behaviorType = lastObject.getBehavior(value).getTypeName();
+    if (extraInfo && behaviorType !== extraInfo) {
+      return `"${value}" must be a behavior of type "${extraInfo}" (is "${behaviorType}")`;
+    }
+    return null;
+  }
+
+  switch (type) {
+    case 'operator': {
+      const allowed = OPERATORS[extraInfo || 'number'];
+      return allowed && !allowed.includes(value)
+        ? `"${value}" is not a valid operator (expected one of ${allowed.join(', ')})`
+        : null;
+    }
+    case 'relationalOperator': {
+      const allowed = RELATIONAL_OPERATORS[extraInfo || 'number'];
+      return allowed && !allowed.includes(value)
+        ? `"${value}" is not a valid comparison (expected one of ${allowed.join(', ')})`
+        : null;
+    }
+    case 'yesorno':
+      return ['yes', 'no'].includes(value) ? null : `must be "yes" or "no"`;
+    case 'trueorfalse':
+      return ['True', 'False'].includes(value) ? null : `must be "True" or "False"`;
+    case 'key':
+      return KEY_NAMES.has(value) ? null : `"${value}" is not a valid key name`;
+    case 'mouse':
+      return MOUSE_BUTTONS.includes(value)
+        ? null
+        : `"${value}" is not a valid mouse button (expected one of ${MOUSE_BUTTONS.join(', ')})`;
+    case 'layer': {
+      const layerName = parseStringLiteral(value);
+      if (layerName === null || !scope.layout) return null;
+      return layerName === '' || scope.layout.hasLayerNamed(layerName)
+        ? null
+        : `layer "${layerName}" does not exist in scene "${scope.layout.getName()}"`;
+    }
+    case 'sceneName': {
+      const sceneName = parseStringLiteral(value);
+      return sceneName === null || scope.project.hasLayoutNamed(sceneName)
+        ? null
+        : `scene "${sceneName}" does not exist`;
+    }
+    case 'stringWithSelector': {
+      const choice = parseStringLiteral(value);
+      const choices = parseChoices(extraInfo);
+      return choice === null || !choices || choices.includes(choice)
+        ? null
+        : `"${choice}" is not one of ${choices.map((c) => `"${c}"`).join(', ')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find an object by name in the scene or the global objects.
+ * Without a scene, objects of any scene are considered. In function events,
+ * only child objects can be found (parameters are not actual objects).
+ */
+function findObject(scope: InstructionScope, name: string): GDObject | null {
+  const { project, layout, eventsFunction } = scope;
+
+  if (eventsFunction) {
+    const { childObjects } = eventsFunction;
+    return childObjects?.hasObjectNamed(name) ? childObjects.getObject(name) : null;
+  }
+
+  if (layout) {
+    if (layout.hasObjectNamed(name)) return layout.getObject(name);
+    return project.hasObjectNamed(name) ? project.getObject(name) : null;
+  }
+
+  if (project.hasObjectNamed(name)) return project.getObject(name);
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    const candidate = project.getLayoutAt(i);
+    if (candidate.hasObjectNamed(name)) return candidate.getObject(name);
+  }
+  return null;
+}
+
+/**
+ * Check if a name is an object or an object group usable in the scope.
+ */
+function isObjectOrGroup(scope: InstructionScope, name: string): boolean {
+  if (findObject(scope, name)) return true;
+
+  const { project, layout, eventsFunction } = scope;
+  if (eventsFunction) {
+    return (
+      eventsFunction.objectParameters.includes(name) ||
+      !!eventsFunction.childObjects?.getObjectGroups().has(name)
+    );
+  }
+  if (project.getObjectGroups().has(name)) return true;
+  if (layout) return layout.getObjectGroups().has(name);
+
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    if (project.getLayoutAt(i).getObjectGroups().has(name)) return true;
+  }
+  return false;
+}
+
+/**
+ * Get the content of a string literal expression (e.g. "UI" with quotes).
+ * @returns The string, or null if the expression is not a plain literal.
+ */
+export function parseStringLiteral(expression: string): string | null {
+  const match = /^\s*"([^"\\]*)"\s*$/.exec(expression);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse the choices of a "stringWithSelector" parameter (a JSON array).
+ */
+function parseChoices(extraInfo: string): string[] | null {
+  try {
+    const choices = JSON.parse(extraInfo);
+    return Array.isArray(choices) ? choices.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,551 @@
+import type {
+  GD,
+  GDPlatform,
+  GDObjectMetadata,
+  GDBehaviorMetadata,
+  GDPlatformExtension,
+  GDProject,
+  GDParameterMetadata,
+  GDPropertyDescriptor,
+  GDMapStringInstructionMetadata,
+  GDMapStringExpressionMetadata,
+  GDMapStringPropertyDescriptor,
+  GDPropertiesContainer,
+} from '../types/gdcore.js';
+
+export type CatalogKind = 'conditions' | 'actions' | 'expressions';
+
+/**
+ * Whether an instruction is free, or applies to an object or a behavior.
+ */
+export type InstructionCatalogScope = 'free' | 'object' | 'behavior';
+
+export interface CatalogParameter {
+  type: string;
+  name: string;
+  description: string;
+  extraInfo: string;
+  optional: boolean;
+  codeOnly: boolean;
+  defaultValue: string;
+}
+
+export interface InstructionCatalogEntry {
+  type: string;
+  fullName: string;
+  description: string;
+  group: string;
+  extension: string;
+  scope: InstructionCatalogScope;
+  objectType?: string;
+  behaviorType?: string;
+  returnType?: string;
+  parameters: CatalogParameter[];
+}
+
+export interface InstructionCatalogFilter {
+  extension?: string;
+  objectType?: string;
+  behaviorType?: string;
+}
+
+/**
+ * Where an object or behavior type comes from: a platform extension,
+ * or an events-based extension of the project.
+ */
+export type TypeCatalogSource = 'platform' | 'project';
+
+export interface CatalogProperty {
+  name: string;
+  type: string;
+  defaultValue: string;
+  label: string;
+  description: string;
+}
+
+export interface ObjectCatalogEntry {
+  type: string;
+  fullName: string;
+  description: string;
+  category: string;
+  extension: string;
+  source: TypeCatalogSource;
+  properties: CatalogProperty[];
+}
+
+export interface BehaviorCatalogEntry {
+  type: string;
+  fullName: string;
+  defaultName: string;
+  description: string;
+  group: string;
+  extension: string;
+  source: TypeCatalogSource;
+  /** Type of object the behavior can be attached to, empty for any object. */
+  objectType: string;
+  properties: CatalogProperty[];
+}
+
+export interface EffectCatalogEntry {
+  type: string;
+  fullName: string;
+  description: string;
+  extension: string;
+  /** Renderer the effect works with: 2D layers, 3D layers or both. */
+  renderer: '2d' | '3d' | 'any';
+  worksForObjects: boolean;
+  /** Whether a layer or object can only have one effect of this type. */
+  unique: boolean;
+  parameters: CatalogProperty[];
+}
+
+/**
+ * Everything declared by a platform extension, including hidden and private
+ * instructions. Expressions include string expressions.
+ */
+export interface ExtensionContents {
+  objectTypes: string[];
+  behaviorTypes: string[];
+  conditions: string[];
+  actions: string[];
+  expressions: string[];
+}
+
+/**
+ * Instruction and expression maps of an extension for one scope.
+ */
+interface ScopedMetadata {
+  scope: InstructionCatalogScope;
+  objectType?: string;
+  behaviorType?: string;
+  instructions: GDMapStringInstructionMetadata[];
+  expressions: GDMapStringExpressionMetadata[];
+}
+
+function toArray(vector: { size(): number; at(index: number): string }): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < vector.size(); i++) {
+    values.push(vector.at(i));
+  }
+  return values;
+}
+
+function getParameters(metadata: {
+  getParametersCount(): number;
+  getParameter(index: number): GDParameterMetadata;
+}): CatalogParameter[] {
+  const parameters: CatalogParameter[] = [];
+  for (let i = 0; i < metadata.getParametersCount(); i++) {
+    const parameter = metadata.getParameter(i);
+    parameters.push({
+      type: parameter.getType(),
+      name: parameter.getName(),
+      description: parameter.getDescription(),
+      extraInfo: parameter.getExtraInfo(),
+      optional: parameter.isOptional(),
+      codeOnly: parameter.isCodeOnly(),
+      defaultValue: parameter.getDefaultValue(),
+    });
+  }
+  return parameters;
+}
+
+/**
+ * Get the metadata maps of an extension for the requested kind, grouped by scope.
+ */
+function getScopedMetadata(
+  extension: GDPlatformExtension,
+  kind: CatalogKind,
+  filter: InstructionCatalogFilter
+): ScopedMetadata[] {
+  const scoped: ScopedMetadata[] = [];
+  const pick = (
+    instructions: () => GDMapStringInstructionMetadata,
+    numberExpressions: () => GDMapStringExpressionMetadata,
+    stringExpressions: () => GDMapStringExpressionMetadata
+  ) =>
+    kind === 'expressions'
+      ? { instructions: [], expressions: [numberExpressions(), stringExpressions()] }
+      : { instructions: [instructions()], expressions: [] };
+
+  const isCondition = kind === 'conditions';
+
+  if (!filter.objectType && !filter.behaviorType) {
+    scoped.push({
+      scope: 'free',
+      ...pick(
+        () => (isCondition ? extension.getAllConditions() : extension.getAllActions()),
+        () => extension.getAllExpressions(),
+        () => extension.getAllStrExpressions()
+      ),
+    });
+  }
+
+  if (!filter.behaviorType) {
+    for (const objectType of toArray(extension.getExtensionObjectsTypes())) {
+      // The base object ("") provides instructions available to every object
+      if (filter.objectType && objectType !== filter.objectType && objectType !== '') {
+        continue;
+      }
+      scoped.push({
+        scope: 'object',
+        objectType,
+        ...pick(
+          () =>
+            isCondition
+              ? extension.getAllConditionsForObject(objectType)
+              : extension.getAllActionsForObject(objectType),
+          () => extension.getAllExpressionsForObject(objectType),
+          () => extension.getAllStrExpressionsForObject(objectType)
+        ),
+      });
+    }
+  }
+
+  if (!filter.objectType) {
+    for (const behaviorType of toArray(extension.getBehaviorsTypes())) {
+      if (filter.behaviorType && behaviorType !== filter.behaviorType) continue;
+      scoped.push({
+        scope: 'behavior',
+        behaviorType,
+        ...pick(
+          () =>
+            isCondition
+              ? extension.getAllConditionsForBehavior(behaviorType)
+              : extension.getAllActionsForBehavior(behaviorType),
+          () => extension.getAllExpressionsForBehavior(behaviorType),
+          () => extension.getAllStrExpressionsForBehavior(behaviorType)
+        ),
+      });
+    }
+  }
+
+  return scoped;
+}
+
+/**
+ * List the conditions, actions or expressions declared by the platform
+ * extensions (built-in and loaded from the project's events extensions).
+ * Hidden and private instructions are not listed.
+ */
+export function getInstructionCatalog(
+  platform: GDPlatform,
+  kind: CatalogKind,
+  filter: InstructionCatalogFilter = {}
+): InstructionCatalogEntry[] {
+  const entries: InstructionCatalogEntry[] = [];
+  const extensions = platform.getAllPlatformExtensions();
+
+  for (let i = 0; i < extensions.size(); i++) {
+    const extension = extensions.at(i);
+    const extensionName = extension.getName();
+    if (filter.extension && extensionName !== filter.extension) continue;
+
+    for (const { scope, objectType, behaviorType, instructions, expressions } of getScopedMetadata(
+      extension,
+      kind,
+      filter
+    )) {
+      const base = {
+        extension: extensionName,
+        scope,
+        ...(scope === 'object' ? { objectType } : {}),
+        ...(scope === 'behavior' ? { behaviorType } : {}),
+      };
+
+      for (const map of instructions) {
+        for (const type of toArray(map.keys())) {
+          const metadata = map.get(type);
+          if (metadata.isHidden() || metadata.isPrivate()) continue;
+
+          entries.push({
+            type,
+            fullName: metadata.getFullName(),
+            description: metadata.getDescription(),
+            group: metadata.getGroup(),
+            ...base,
+            parameters: getParameters(metadata),
+          });
+        }
+      }
+
+      for (const map of expressions) {
+        for (const type of toArray(map.keys())) {
+          const metadata = map.get(type);
+          if (!metadata.isShown() || metadata.isPrivate()) continue;
+
+          entries.push({
+            type,
+            fullName: metadata.getFullName(),
+            description: metadata.getDescription(),
+            group: metadata.getGroup(),
+            ...base,
+            returnType: metadata.getReturnType(),
+            parameters: getParameters(metadata),
+          });
+        }
+      }
+    }
+  }
+
+  return entries;
+}
+
+function toCatalogProperty(name: string, property: GDPropertyDescriptor): CatalogProperty {
+  return {
+    name,
+    type: property.getType(),
+    defaultValue: property.getValue(),
+    label: property.getLabel(),
+    description: property.getDescription(),
+  };
+}
+
+function getMapProperties(properties: GDMapStringPropertyDescriptor): CatalogProperty[] {
+  return toArray(properties.keys())
+    .filter((name) => !properties.get(name).isHidden())
+    .map((name) => toCatalogProperty(name, properties.get(name)));
+}
+
+function getContainerProperties(properties: GDPropertiesContainer): CatalogProperty[] {
+  const result: CatalogProperty[] = [];
+  for (let i = 0; i < properties.size(); i++) {
+    const property = properties.at(i);
+    if (property.isHidden()) continue;
+    result.push(toCatalogProperty(property.getName(), property));
+  }
+  return result;
+}
+
+/**
+ * Check if a platform extension is declared from an events-based extension
+ * of the project (these are listed from the project itself).
+ */
+function isProjectExtension(project: GDProject | undefined, extensionName: string): boolean {
+  return !!project && project.hasEventsFunctionsExtensionNamed(extensionName);
+}
+
+/**
+ * List the object types that can be created: those of the platform extensions
+ * and, if a project is given, the custom objects of its events-based extensions.
+ */
+export function getObjectCatalog(platform: GDPlatform, project?: GDProject): ObjectCatalogEntry[] {
+  const entries: ObjectCatalogEntry[] = [];
+  const extensions = platform.getAllPlatformExtensions();
+
+  for (let i = 0; i < extensions.size(); i++) {
+    const extension = extensions.at(i);
+    const extensionName = extension.getName();
+    if (isProjectExtension(project, extensionName)) continue;
+
+    for (const type of toArray(extension.getExtensionObjectsTypes())) {
+      // The base object ("") can't be created
+      if (type === '') continue;
+
+      const metadata = extension.getObjectMetadata(type);
+      if (metadata.isHidden() || metadata.isPrivate()) continue;
+
+      const configuration = platform.createObjectConfiguration(type);
+      const properties = getMapProperties(configuration.get().getProperties());
+      configuration.delete();
+
+      entries.push({
+        type,
+        fullName: metadata.getFullName(),
+        description: metadata.getDescription(),
+        category: metadata.getCategory(),
+        extension: extensionName,
+        source: 'platform',
+        properties,
+      });
+    }
+  }
+
+  if (project) {
+    for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+      const extension = project.getEventsFunctionsExtensionAt(i);
+      const eventsBasedObjects = extension.getEventsBasedObjects();
+
+      for (let j = 0; j < eventsBasedObjects.size(); j++) {
+        const eventsBasedObject = eventsBasedObjects.at(j);
+        if (eventsBasedObject.isPrivate()) continue;
+
+        entries.push({
+          type: `${extension.getName()}::${eventsBasedObject.getName()}`,
+          fullName: eventsBasedObject.getFullName(),
+          description: eventsBasedObject.getDescription(),
+          category: extension.getCategory(),
+          extension: extension.getName(),
+          source: 'project',
+          properties: getContainerProperties(eventsBasedObject.getPropertyDescriptors()),
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get the metadata of an object type that can be created, as listed by
+ * getObjectCatalog, without building the whole catalog.
+ */
+export function findObjectTypeMetadata(
+  gd: GD,
+  platform: GDPlatform,
+  type: string
+): GDObjectMetadata | undefined {
+  // The base object ("") can't be created
+  if (type === '') return undefined;
+
+  const metadata = gd.MetadataProvider.getObjectMetadata(platform, type);
+  if (gd.MetadataProvider.isBadObjectMetadata(metadata)) return undefined;
+  return metadata.isHidden() || metadata.isPrivate() ? undefined : metadata;
+}
+
+/**
+ * List the behavior types that can be added to objects: those of the platform
+ * extensions and, if a project is given, the custom behaviors of its
+ * events-based extensions.
+ */
+export function getBehaviorCatalog(
+  platform: GDPlatform,
+  project?: GDProject
+): BehaviorCatalogEntry[] {
+  const entries: BehaviorCatalogEntry[] = [];
+  const extensions = platform.getAllPlatformExtensions();
+
+  for (let i = 0; i < extensions.size(); i++) {
+    const extension = extensions.at(i);
+    const extensionName = extension.getName();
+    if (isProjectExtension(project, extensionName)) continue;
+
+    for (const type of toArray(extension.getBehaviorsTypes())) {
+      const metadata = extension.getBehaviorMetadata(type);
+      if (metadata.isHidden() || metadata.isPrivate()) continue;
+
+      entries.push({
+        type,
+        fullName: metadata.getFullName(),
+        defaultName: metadata.getDefaultName(),
+        description: metadata.getDescription(),
+        group: metadata.getGroup(),
+        extension: extensionName,
+        source: 'platform',
+        objectType: metadata.getObjectType(),
+        properties: getMapProperties(metadata.getProperties()),
+      });
+    }
+  }
+
+  if (project) {
+    for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+      const extension = project.getEventsFunctionsExtensionAt(i);
+      const eventsBasedBehaviors = extension.getEventsBasedBehaviors();
+
+      for (let j = 0; j < eventsBasedBehaviors.size(); j++) {
+        const eventsBasedBehavior = eventsBasedBehaviors.at(j);
+        if (eventsBasedBehavior.isPrivate()) continue;
+
+        entries.push({
+          type: `${extension.getName()}::${eventsBasedBehavior.getName()}`,
+          fullName: eventsBasedBehavior.getFullName(),
+          defaultName: eventsBasedBehavior.getName(),
+          description: eventsBasedBehavior.getDescription(),
+          group: extension.getCategory(),
+          extension: extension.getName(),
+          source: 'project',
+          objectType: eventsBasedBehavior.getObjectType(),
+          properties: getContainerProperties(eventsBasedBehavior.getPropertyDescriptors()),
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get the metadata of a behavior type that can be added to objects, as listed
+ * by getBehaviorCatalog, without building the whole catalog.
+ */
+export function findBehaviorTypeMetadata(
+  gd: GD,
+  platform: GDPlatform,
+  type: string
+): GDBehaviorMetadata | undefined {
+  const metadata = gd.MetadataProvider.getBehaviorMetadata(platform, type);
+  if (gd.MetadataProvider.isBadBehaviorMetadata(metadata)) return undefined;
+  return metadata.isHidden() || metadata.isPrivate() ? undefined : metadata;
+}
+
+/**
+ * List the effect types that can be added to layers and objects,
+ * with their parameters.
+ */
+export function getEffectCatalog(platform: GDPlatform): EffectCatalogEntry[] {
+  const entries: EffectCatalogEntry[] = [];
+  const extensions = platform.getAllPlatformExtensions();
+
+  for (let i = 0; i < extensions.size(); i++) {
+    const extension = extensions.at(i);
+
+    for (const type of toArray(extension.getExtensionEffectTypes())) {
+      const metadata = extension.getEffectMetadata(type);
+      entries.push({
+        type,
+        fullName: metadata.getFullName(),
+        description: metadata.getDescription(),
+        extension: extension.getName(),
+        renderer: metadata.isMarkedAsOnlyWorkingFor2D()
+          ? '2d'
+          : metadata.isMarkedAsOnlyWorkingFor3D()
+            ? '3d'
+            : 'any',
+        worksForObjects: !metadata.isMarkedAsNotWorkingForObjects(),
+        unique: metadata.isMarkedAsUnique(),
+        parameters: getMapProperties(metadata.getProperties()),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get a platform extension by name, if it is loaded.
+ */
+export function findPlatformExtension(
+  platform: GDPlatform,
+  extensionName: string
+): GDPlatformExtension | undefined {
+  const extensions = platform.getAllPlatformExtensions();
+  for (let i = 0; i < extensions.size(); i++) {
+    if (extensions.at(i).getName() === extensionName) return extensions.at(i);
+  }
+  return undefined;
+}
+
+/**
+ * List the object types, behavior types, instructions and expressions declared
+ * by a platform extension, for every scope.
+ */
+export function getExtensionContents(extension: GDPlatformExtension): ExtensionContents {
+  const getTypes = (kind: CatalogKind) => {
+    const types = new Set<string>();
+    for (const { instructions, expressions } of getScopedMetadata(extension, kind, {})) {
+      for (const map of [...instructions, ...expressions]) {
+        for (const type of toArray(map.keys())) types.add(type);
+      }
+    }
+    return [...types];
+  };
+
+  return {
+    objectTypes: toArray(extension.getExtensionObjectsTypes()).filter((type) => type !== ''),
+    behaviorTypes: toArray(extension.getBehaviorsTypes()),
+    conditions: getTypes('conditions'),
+    actions: getTypes('actions'),
+    expressions: getTypes('expressions'),
+  };
+}
@@ -0,0 +1,436 @@
+import type {
+  GD,
+  GDProject,
+  GDLayout,
+  GDObject,
+  GDObjectConfiguration,
+  GDInitialInstance,
+  GDMapStringPropertyDescriptor,
+  GDSpriteObject,
+  GDTextObject,
+  GDTiledSpriteObject,
+  GDPanelSpriteObject,
+  GDShapePainterObject,
+  GDParticleEmitterObject,
+} from '../types/gdcore.js';
+
+export type ConfigurationValue = string | number | boolean;
+
+export interface ConfigurationProperty {
+  value: ConfigurationValue;
+  type: string;
+  label?: string;
+  description?: string;
+  choices?: string[];
+}
+
+/**
+ * A configuration setting exposed through typed accessors rather than
+ * through the generic properties of the object configuration.
+ */
+interface ConfigurationField<T> {
+  type: 'number' | 'string' | 'boolean';
+  choices?: string[];
+  get(configuration: T): ConfigurationValue;
+  set(configuration: T, value: ConfigurationValue): void;
+}
+
+/**
+ * A typed field bound to the cast of the configuration it belongs to.
+ */
+interface ConfigurationAccessor {
+  type: ConfigurationField<unknown>['type'];
+  choices?: string[];
+  get(gd: GD, configuration: GDObjectConfiguration): ConfigurationValue;
+  set(gd: GD, configuration: GDObjectConfiguration, value: ConfigurationValue): void;
+}
+
+function numberField<T>(
+  get: (configuration: T) => number,
+  set: (configuration: T, value: number) => void
+): ConfigurationField<T> {
+  return { type: 'number', get, set: (c, value) => set(c, value as number) };
+}
+
+function stringField<T>(
+  get: (configuration: T) => string,
+  set: (configuration: T, value: string) => void
+): ConfigurationField<T> {
+  return { type: 'string', get, set: (c, value) => set(c, value as string) };
+}
+
+function booleanField<T>(
+  get: (configuration: T) => boolean,
+  set: (configuration: T, value: boolean) => void
+): ConfigurationField<T> {
+  return { type: 'boolean', get, set: (c, value) => set(c, value as boolean) };
+}
+
+function typed<T>(
+  cast: (gd: GD, configuration: GDObjectConfiguration) => T,
+  fields: Record<string, ConfigurationField<T>>
+): Record<string, ConfigurationAccessor> {
+  const accessors: Record<string, ConfigurationAccessor> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    accessors[name] = {
+      type: field.type,
+      choices: field.choices,
+      get: (gd, configuration) => field.get(cast(gd, configuration)),
+      set: (gd, configuration, value) => field.set(cast(gd, configuration), value),
+    };
+  }
+  return accessors;
+}
+
+const PARTICLE_RENDERER_TYPES = ['Point', 'Line', 'Quad'];
+
+const SPRITE_FIELDS: Record<string, ConfigurationField<GDSpriteObject>> = {
+  updateIfNotVisible: booleanField(
+    (c) => c.getUpdateIfNotVisible(),
+    (c, v) => c.setUpdateIfNotVisible(v)
+  ),
+  preScale: numberField((c) => c.getPreScale(), (c, v) => c.setPreScale(v)),
+  adaptCollisionMaskAutomatically: booleanField(
+    (c) => c.getAnimations().adaptCollisionMaskAutomatically(),
+    (c, v) => c.getAnimations().setAdaptCollisionMaskAutomatically(v)
+  ),
+};
+
+const TEXT_FIELDS: Record<string, ConfigurationField<GDTextObject>> = {
+  text: stringField((c) => c.getText(), (c, v) => c.setText(v)),
+  characterSize: numberField((c) => c.getCharacterSize(), (c, v) => c.setCharacterSize(v)),
+  lineHeight: numberField((c) => c.getLineHeight(), (c, v) => c.setLineHeight(v)),
+  font: stringField((c) => c.getFontName(), (c, v) => c.setFontName(v)),
+  bold: booleanField((c) => c.isBold(), (c, v) => c.setBold(v)),
+  italic: booleanField((c) => c.isItalic(), (c, v) => c.setItalic(v)),
+  underlined: booleanField((c) => c.isUnderlined(), (c, v) => c.setUnderlined(v)),
+  color: stringField((c) => c.getColor(), (c, v) => c.setColor(v)),
+  textAlignment: stringField((c) => c.getTextAlignment(), (c, v) => c.setTextAlignment(v)),
+  verticalTextAlignment: stringField(
+    (c) => c.getVerticalTextAlignment(),
+    (c, v) => c.setVerticalTextAlignment(v)
+  ),
+  outlineEnabled: booleanField((c) => c.isOutlineEnabled(), (c, v) => c.setOutlineEnabled(v)),
+  outlineThickness: numberField(
+    (c) => c.getOutlineThickness(),
+    (c, v) => c.setOutlineThickness(v)
+  ),
+  outlineColor: stringField((c) => c.getOutlineColor(), (c, v) => c.setOutlineColor(v)),
+  shadowEnabled: booleanField((c) => c.isShadowEnabled(), (c, v) => c.setShadowEnabled(v)),
+  shadowColor: stringField((c) => c.getShadowColor(), (c, v) => c.setShadowColor(v)),
+  shadowOpacity: numberField((c) => c.getShadowOpacity(), (c, v) => c.setShadowOpacity(v)),
+  shadowAngle: numberField((c) => c.getShadowAngle(), (c, v) => c.setShadowAngle(v)),
+  shadowDistance: numberField((c) => c.getShadowDistance(), (c, v) => c.setShadowDistance(v)),
+  shadowBlurRadius: numberField(
+    (c) => c.getShadowBlurRadius(),
+    (c, v) => c.setShadowBlurRadius(v)
+  ),
+};
+
+const TILED_SPRITE_FIELDS: Record<string, ConfigurationField<GDTiledSpriteObject>> = {
+  texture: stringField((c) => c.getTexture(), (c, v) => c.setTexture(v)),
+  width: numberField((c) => c.getWidth(), (c, v) => c.setWidth(v)),
+  height: numberField((c) => c.getHeight(), (c, v) => c.setHeight(v)),
+};
+
+const PANEL_SPRITE_FIELDS: Record<string, ConfigurationField<GDPanelSpriteObject>> = {
+  texture: stringField((c) => c.getTexture(), (c, v) => c.setTexture(v)),
+  width: numberField((c) => c.getWidth(), (c, v) => c.setWidth(v)),
+  height: numberField((c) => c.getHeight(), (c, v) => c.setHeight(v)),
+  leftMargin: numberField((c) => c.getLeftMargin(), (c, v) => c.setLeftMargin(v)),
+  topMargin: numberField((c) => c.getTopMargin(), (c, v) => c.setTopMargin(v)),
+  rightMargin: numberField((c) => c.getRightMargin(), (c, v) => c.setRightMargin(v)),
+  bottomMargin: numberField((c) => c.getBottomMargin(), (c, v) => c.setBottomMargin(v)),
+  tiled: booleanField((c) => c.isTiled(), (c, v) => c.setTiled(v)),
+};
+
+const SHAPE_PAINTER_FIELDS: Record<string, ConfigurationField<GDShapePainterObject>> = {
+  fillColor: stringField((c) => c.getFillColor(), (c, v) => c.setFillColor(v)),
+  fillOpacity: numberField((c) => c.getFillOpacity(), (c, v) => c.setFillOpacity(v)),
+  outlineColor: stringField((c) => c.getOutlineColor(), (c, v) => c.setOutlineColor(v)),
+  outlineOpacity: numberField((c) => c.getOutlineOpacity(), (c, v) => c.setOutlineOpacity(v)),
+  outlineSize: numberField((c) => c.getOutlineSize(), (c, v) => c.setOutlineSize(v)),
+  absoluteCoordinates: booleanField(
+    (c) => c.areCoordinatesAbsolute(),
+    (c, v) => (v ? c.setCoordinatesAbsolute() : c.setCoordinatesRelative())
+  ),
+  clearBetweenFrames: booleanField(
+    (c) => c.isClearedBetweenFrames(),
+    (c, v) => c.setClearBetweenFrames(v)
+  ),
+  antialiasing: {
+    type: 'string',
+    choices: ['none', 'low', 'medium', 'high'],
+    get: (c) => c.getAntialiasing(),
+    set: (c, v) => c.setAntialiasing(v as string),
+  },
+};
+
+const PARTICLE_EMITTER_FIELDS: Record<string, ConfigurationField<GDParticleEmitterObject>> = {
+  rendererType: {
+    type: 'string',
+    choices: PARTICLE_RENDERER_TYPES,
+    get: (c) => PARTICLE_RENDERER_TYPES[c.getRendererType()] ?? String(c.getRendererType()),
+    set: (c, v) => c.setRendererType(PARTICLE_RENDERER_TYPES.indexOf(v as string)),
+  },
+  particleTexture: stringField((c) => c.getParticleTexture(), (c, v) => c.setParticleTexture(v)),
+  rendererParam1: numberField((c) => c.getRendererParam1(), (c, v) => c.setRendererParam1(v)),
+  rendererParam2: numberField((c) => c.getRendererParam2(), (c, v) => c.setRendererParam2(v)),
+  additiveRendering: booleanField(
+    (c) => c.isRenderingAdditive(),
+    (c, v) => (v ? c.setRenderingAdditive() : c.setRenderingAlpha())
+  ),
+  maxParticleNb: numberField((c) => c.getMaxParticleNb(), (c, v) => c.setMaxParticleNb(v)),
+  tank: numberField((c) => c.getTank(), (c, v) => c.setTank(v)),
+  flow: numberField((c) => c.getFlow(), (c, v) => c.setFlow(v)),
+  destroyWhenNoParticles: booleanField(
+    (c) => c.getDestroyWhenNoParticles(),
+    (c, v) => c.setDestroyWhenNoParticles(v)
+  ),
+  emitterForceMin: numberField((c) => c.getEmitterForceMin(), (c, v) => c.setEmitterForceMin(v)),
+  emitterForceMax: numberField((c) => c.getEmitterForceMax(), (c, v) => c.setEmitterForceMax(v)),
+  coneSprayAngle: numberField((c) => c.getConeSprayAngle(), (c, v) => c.setConeSprayAngle(v)),
+  zoneRadius: numberField((c) => c.getZoneRadius(), (c, v) => c.setZoneRadius(v)),
+  particleGravityX: numberField(
+    (c) => c.getParticleGravityX(),
+    (c, v) => c.setParticleGravityX(v)
+  ),
+  particleGravityY: numberField(
+    (c) => c.getParticleGravityY(),
+    (c, v) => c.setParticleGravityY(v)
+  ),
+  particleLifeTimeMin: numberField(
+    (c) => c.getParticleLifeTimeMin(),
+    (c, v) => c.setParticleLifeTimeMin(v)
+  ),
+  particleLifeTimeMax: numberField(
+    (c) => c.getParticleLifeTimeMax(),
+    (c, v) => c.setParticleLifeTimeMax(v)
+  ),
+  particleColor1: stringField((c) => c.getParticleColor1(), (c, v) => c.setParticleColor1(v)),
+  particleColor2: stringField((c) => c.getParticleColor2(), (c, v) => c.setParticleColor2(v)),
+  particleAlpha1: numberField((c) => c.getParticleAlpha1(), (c, v) => c.setParticleAlpha1(v)),
+  particleAlpha2: numberField((c) => c.getParticleAlpha2(), (c, v) => c.setParticleAlpha2(v)),
+  particleSize1: numberField((c) => c.getParticleSize1(), (c, v) => c.setParticleSize1(v)),
+  particleSize2: numberField((c) => c.getParticleSize2(), (c, v) => c.setParticleSize2(v)),
+  particleAngle1: numberField((c) => c.getParticleAngle1(), (c, v) => c.setParticleAngle1(v)),
+  particleAngle2: numberField((c) => c.getParticleAngle2(), (c, v) => c.setParticleAngle2(v)),
+  particleAlphaRandomness1: numberField(
+    (c) => c.getParticleAlphaRandomness1(),
+    (c, v) => c.setParticleAlphaRandomness1(v)
+  ),
+  particleAlphaRandomness2: numberField(
+    (c) => c.getParticleAlphaRandomness2(),
+    (c, v) => c.setParticleAlphaRandomness2(v)
+  ),
+  particleSizeRandomness1: numberField(
+    (c) => c.getParticleSizeRandomness1(),
+    (c, v) => c.setParticleSizeRandomness1(v)
+  ),
+  particleSizeRandomness2: numberField(
+    (c) => c.getParticleSizeRandomness2(),
+    (c, v) => c.setParticleSizeRandomness2(v)
+  ),
+  particleAngleRandomness1: numberField(
+    (c) => c.getParticleAngleRandomness1(),
+    (c, v) => c.setParticleAngleRandomness1(v)
+  ),
+  particleAngleRandomness2: numberField(
+    (c) => c.getParticleAngleRandomness2(),
+    (c, v) => c.setParticleAngleRandomness2(v)
+  ),
+  jumpForwardInTimeOnCreation: numberField(
+    (c) => c.getJumpForwardInTimeOnCreation(),
+    (c, v) => c.setJumpForwardInTimeOnCreation(v)
+  ),
+};
+
+// Settings of built-in objects that are not exposed as generic properties
+const TYPED_CONFIGURATIONS: Record<string, Record<string, ConfigurationAccessor>> = {
+  Sprite: typed((gd, c) => gd.asSpriteConfiguration(c), SPRITE_FIELDS),
+  'TextObject::Text': typed((gd, c) => gd.asTextObjectConfiguration(c), TEXT_FIELDS),
+  'TiledSpriteObject::TiledSprite': typed(
+    (gd, c) => gd.asTiledSpriteConfiguration(c),
+    TILED_SPRITE_FIELDS
+  ),
+  'PanelSpriteObject::PanelSprite': typed(
+    (gd, c) => gd.asPanelSpriteConfiguration(c),
+    PANEL_SPRITE_FIELDS
+  ),
+  'PrimitiveDrawing::Drawer': typed(
+    (gd, c) => gd.asShapePainterConfiguration(c),
+    SHAPE_PAINTER_FIELDS
+  ),
+  'ParticleSystem::ParticleEmitter': typed(
+    (gd, c) => gd.asParticleEmitterConfiguration(c),
+    PARTICLE_EMITTER_FIELDS
+  ),
+};
+
+/**
+ * Convert a property value stored as a string by GDCore to a JSON value.
+ */
+function parsePropertyValue(type: string, value: string): ConfigurationValue {
+  switch (type.toLowerCase()) {
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === 'true';
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a value given by the user to the type of a typed field.
+ * @throws Error if the value can't be converted.
+ */
+function coerceFieldValue(
+  name: string,
+  field: ConfigurationAccessor,
+  value: ConfigurationValue
+): ConfigurationValue {
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || value === '' || Number.isNaN(number)) {
+        throw new Error(`Property "${name}" must be a number`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw new Error(`Property "${name}" must be a boolean`);
+    default:
+      if (field.choices && !field.choices.includes(String(value))) {
+        throw new Error(`Property "${name}" must be one of ${field.choices.join(', ')}`);
+      }
+      return String(value);
+  }
+}
+
+/**
+ * Get the configuration properties of an object: the generic properties
+ * declared by its type, and the settings of built-in objects exposed
+ * through typed accessors.
+ */
+export function getConfigurationProperties(
+  gd: GD,
+  object: GDObject
+): Record<string, ConfigurationProperty> {
+  const configuration = object.getConfiguration();
+  const result: Record<string, ConfigurationProperty> = {};
+
+  const fields = TYPED_CONFIGURATIONS[object.getType()];
+  if (fields) {
+    for (const [name, field] of Object.entries(fields)) {
+      result[name] = {
+        value: field.get(gd, configuration),
+        type: field.type,
+        ...(field.choices ? { choices: field.choices } : {}),
+      };
+    }
+  }
+
+  return { ...result, ...readProperties(configuration.getProperties()) };
+}
+
+/**
+ * Update configuration properties of an object.
+ * Values are checked before anything is changed.
+ * @returns The names of the updated properties.
+ * @throws Error if a property is unknown or a value has the wrong type.
+ */
+export function updateConfigurationProperties(
+  gd: GD,
+  object: GDObject,
+  values: Record<string, ConfigurationValue>
+): string[] {
+  const configuration = object.getConfiguration();
+  const properties = configuration.getProperties();
+  const fields = TYPED_CONFIGURATIONS[object.getType()];
+
+  const updates = Object.entries(values).map(([name, value]) => {
+    if (properties.has(name)) {
+      return () => configuration.updateProperty(name, String(value));
+    }
+
+    const field = fields?.[name];
+    if (!field) {
+      throw new Error(
+        `Object "${object.getName()}" (${object.getType()}) has no property "${name}"`
+      );
+    }
+    const coerced = coerceFieldValue(name, field, value);
+    return () => {
+      field.set(gd, configuration, coerced);
+      return true;
+    };
+  });
+
+  return Object.keys(values).filter((_, index) => updates[index]());
+}
+
+/**
+ * Get the properties set on an initial instance, as declared by the type of
+ * its object (e.g., the content of a text input or the settings of a tilemap).
+ */
+export function getInstanceProperties(
+  project: GDProject,
+  layout: GDLayout,
+  instance: GDInitialInstance
+): Record<string, ConfigurationProperty> {
+  return readProperties(instance.getCustomProperties(project.getObjects(), layout.getObjects()));
+}
+
+/**
+ * Update properties of an initial instance.
+ * Property names are checked before anything is changed.
+ * @throws Error if a property is not declared by the type of the object.
+ */
+export function updateInstanceProperties(
+  project: GDProject,
+  layout: GDLayout,
+  instance: GDInitialInstance,
+  values: Record<string, ConfigurationValue>
+): void {
+  const properties = instance.getCustomProperties(project.getObjects(), layout.getObjects());
+  for (const name of Object.keys(values)) {
+    if (!properties.has(name)) {
+      throw new Error(`Instances of "${instance.getObjectName()}" have no property "${name}"`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    instance.updateCustomProperty(
+      name,
+      String(value),
+      project.getObjects(),
+      layout.getObjects()
+    );
+  }
+}
+
+/**
+ * Read the visible properties of a property descriptors map.
+ */
+function readProperties(
+  properties: GDMapStringPropertyDescriptor
+): Record<string, ConfigurationProperty> {
+  const result: Record<string, ConfigurationProperty> = {};
+  const names = properties.keys();
+  for (let i = 0; i < names.size(); i++) {
+    const name = names.at(i);
+    const property = properties.get(name);
+    if (property.isHidden()) continue;
+
+    result[name] = {
+      value: parsePropertyValue(property.getType(), property.getValue()),
+      type: property.getType(),
+      label: property.getLabel(),
+      description: property.getDescription(),
+    };
+  }
+  return result;
+}
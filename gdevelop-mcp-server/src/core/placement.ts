@@ -0,0 +1,279 @@
+import type { Point } from './instances.js';
+
+// Instances that a pattern can place at once
+export const MAX_PLACEMENTS = 10000;
+
+// Random positions tried for each instance to scatter before giving up
+const SCATTER_ATTEMPTS_PER_INSTANCE = 30;
+
+/**
+ * A position where to place an instance. The object is only given
+ * by patterns placing several objects.
+ */
+export interface Placement {
+  x: number;
+  y: number;
+  angle?: number;
+  objectName?: string;
+}
+
+export interface GridPattern {
+  type: 'grid';
+  x: number;
+  y: number;
+  rows: number;
+  columns: number;
+  spacingX: number;
+  spacingY: number;
+}
+
+export interface LinePattern {
+  type: 'line';
+  points: Point[];
+  spacing?: number;
+  count?: number;
+}
+
+export interface CirclePattern {
+  type: 'circle';
+  x: number;
+  y: number;
+  radius: number;
+  count: number;
+  startAngle?: number;
+  rotate?: boolean;
+}
+
+export interface ScatterPattern {
+  type: 'scatter';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  count: number;
+  minDistance?: number;
+  seed: number;
+}
+
+export interface MapPattern {
+  type: 'map';
+  x: number;
+  y: number;
+  rows: string[];
+  legend: Record<string, string>;
+  cellWidth: number;
+  cellHeight: number;
+}
+
+export type PlacementPattern =
+  | GridPattern
+  | LinePattern
+  | CirclePattern
+  | ScatterPattern
+  | MapPattern;
+
+/**
+ * Compute the positions of the instances of a pattern.
+ * Scattering can give fewer positions than requested when the minimum
+ * distance doesn't leave enough room.
+ */
+export function computePlacements(pattern: PlacementPattern): Placement[] {
+  switch (pattern.type) {
+    case 'grid':
+      return placeOnGrid(pattern);
+    case 'line':
+      return placeOnLine(pattern);
+    case 'circle':
+      return placeOnCircle(pattern);
+    case 'scatter':
+      return scatter(pattern);
+    case 'map':
+      return placeFromMap(pattern);
+  }
+}
+
+function placeOnGrid({ x, y, rows, columns, spacingX, spacingY }: GridPattern): Placement[] {
+  checkPlacementsCount(rows * columns);
+  const placements: Placement[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      placements.push({ x: x + column * spacingX, y: y + row * spacingY });
+    }
+  }
+  return placements;
+}
+
+/**
+ * Place instances along a polyline, every `spacing` units from its start,
+ * or `count` instances evenly spread from its start to its end.
+ */
+function placeOnLine({ points, spacing, count }: LinePattern): Placement[] {
+  if (points.length < 2) {
+    throw new Error('A line needs at least 2 points');
+  }
+  if ((spacing === undefined) === (count === undefined)) {
+    throw new Error('Must specify either spacing or count for a line');
+  }
+
+  const segmentLengths = points
+    .slice(1)
+    .map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  const totalLength = segmentLengths.reduce((total, length) => total + length, 0);
+
+  let distances: number[];
+  if (count !== undefined) {
+    checkPlacementsCount(count);
+    distances = Array.from({ length: count }, (_, index) =>
+      count === 1 ? 0 : (totalLength * index) / (count - 1)
+    );
+  } else {
+    if (spacing! <= 0) throw new Error('Line spacing must be positive');
+    checkPlacementsCount(Math.floor(totalLength / spacing!) + 1);
+    distances = [];
+    // Tolerate rounding errors so that the end of the line gets an instance
+    for (let distance = 0; distance <= totalLength + 1e-9; distance += spacing!) {
+      distances.push(distance);
+    }
+  }
+
+  return distances.map((distance) => {
+    let segment = 0;
+    while (segment < segmentLengths.length - 1 && distance > segmentLengths[segment]) {
+      distance -= segmentLengths[segment];
+      segment++;
+    }
+    const start = points[segment];
+    const end = points[segment + 1];
+    const ratio = segmentLengths[segment] === 0 ? 0 : distance / segmentLengths[segment];
+    return {
+      x: start.x + (end.x - start.x) * ratio,
+      y: start.y + (end.y - start.y) * ratio,
+    };
+  });
+}
+
+/**
+ * Place instances evenly around a circle, clockwise from the start angle.
+ * When rotated, instances are turned to follow the circle.
+ */
+function placeOnCircle({
+  x,
+  y,
+  radius,
+  count,
+  startAngle = 0,
+  rotate = false,
+}: CirclePattern): Placement[] {
+  checkPlacementsCount(count);
+  return Array.from({ length: count }, (_, index) => {
+    const angle = startAngle + (360 * index) / count;
+    const radians = (angle * Math.PI) / 180;
+    return {
+      x: x + radius * Math.cos(radians),
+      y: y + radius * Math.sin(radians),
+      ...(rotate ? { angle: (angle + 90) % 360 } : {}),
+    };
+  });
+}
+
+/**
+ * Place instances at random positions in a rectangle, at least `minDistance`
+ * from each other. The same seed always gives the same positions.
+ */
+function scatter({
+  x,
+  y,
+  width,
+  height,
+  count,
+  minDistance = 0,
+  seed,
+}: ScatterPattern): Placement[] {
+  checkPlacementsCount(count);
+  const random = createRandomGenerator(seed);
+  const placements: Placement[] = [];
+
+  // Placements by cell of minDistance size, so that only neighbor cells are checked
+  const cells = new Map<string, Placement[]>();
+  const getCell = (point: Point) => [
+    Math.floor(point.x / minDistance),
+    Math.floor(point.y / minDistance),
+  ];
+  const isFarEnough = (candidate: Placement) => {
+    if (minDistance <= 0) return true;
+    const [cellX, cellY] = getCell(candidate);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const neighbors = cells.get(`${cellX + dx},${cellY + dy}`) ?? [];
+        for (const placement of neighbors) {
+          if (Math.hypot(placement.x - candidate.x, placement.y - candidate.y) < minDistance) {
+            return false;
+          }
+        }
+      }
+    }
+    return true;
+  };
+
+  for (
+    let attempts = 0;
+    placements.length < count && attempts < count * SCATTER_ATTEMPTS_PER_INSTANCE;
+    attempts++
+  ) {
+    const candidate = { x: x + random() * width, y: y + random() * height };
+    if (!isFarEnough(candidate)) continue;
+
+    placements.push(candidate);
+    if (minDistance > 0) {
+      const key = getCell(candidate).join(',');
+      cells.set(key, [...(cells.get(key) ?? []), candidate]);
+    }
+  }
+  return placements;
+}
+
+/**
+ * Place instances on the cells of a character map, each character being
+ * replaced by the object of the legend. Other characters are empty cells.
+ */
+function placeFromMap({ x, y, rows, legend, cellWidth, cellHeight }: MapPattern): Placement[] {
+  for (const character of Object.keys(legend)) {
+    if ([...character].length !== 1) {
+      throw new Error(`Map legend keys must be single characters (got "${character}")`);
+    }
+  }
+
+  const placements: Placement[] = [];
+  rows.forEach((row, rowIndex) => {
+    [...row].forEach((character, columnIndex) => {
+      const objectName = legend[character];
+      if (objectName === undefined) return;
+      placements.push({
+        x: x + columnIndex * cellWidth,
+        y: y + rowIndex * cellHeight,
+        objectName,
+      });
+    });
+  });
+  return placements;
+}
+
+function checkPlacementsCount(count: number): void {
+  if (count > MAX_PLACEMENTS) {
+    throw new Error(`Pattern would place ${count} instances (at most ${MAX_PLACEMENTS})`);
+  }
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32) of numbers in [0, 1).
+ */
+function createRandomGenerator(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -48,7 +48,9 @@ export class ProjectManager {
     logger.info({ sessionId: id, projectPath: absolutePath }, 'Opening project');
 
     const project = await this.gdcoreManager.loadProject(absolutePath);
-    const session = new ProjectSession(id, project, absolutePath, this.gdcoreManager);
+    const session = new ProjectSession(id, project, absolutePath, this.gdcoreManager, (names) =>
+      this.reloadOtherSessionsExtensions(id, names)
+    );
 
     this.sessions.set(id, session);
 
@@ -85,8 +87,10 @@ export class ProjectManager {
     const project = this.gdcoreManager.createProject();
     project.setName(name);
 
-    const session = new ProjectSession(id, project, absolutePath, this.gdcoreManager);
-    session.markDirty(); // New project needs to be saved
+    const session = new ProjectSession(id, project, absolutePath, this.gdcoreManager, (names) =>
+      this.reloadOtherSessionsExtensions(id, names)
+    );
+    session.markDirty('Create project'); // New project needs to be saved
 
     this.sessions.set(id, session);
 
@@ -104,6 +108,8 @@ export class ProjectManager {
     if (!session) {
       throw new Error(`Session "${sessionId}" not found`);
     }
+    // Changes made by the previous tool call become one undo step
+    session.commitHistory();
     return session;
   }
 
@@ -140,6 +146,19 @@ export class ProjectManager {
     return true;
   }
 
+  /**
+   * Declare again the events-based extensions that other sessions have with
+   * the given names, after a session unloaded them from the shared platform.
+   */
+  private reloadOtherSessionsExtensions(
+    sessionId: string,
+    extensionNames: ReadonlySet<string>
+  ): void {
+    for (const session of this.sessions.values()) {
+      if (session.id !== sessionId) session.reloadExtensionsMetadata(extensionNames);
+    }
+  }
+
   /**
    * List all active sessions.
    */
@@ -4,16 +4,28 @@ import type {
   GDProject,
   GDLayout,
   GDObject,
+  GDInitialInstance,
   GDVariable,
   GDObjectsContainer,
   GDVariablesContainer,
   GD,
 } from '../types/gdcore.js';
 import { GDCoreManager } from './gdcore-manager.js';
+import { findInstance } from './instances.js';
+import {
+  reloadProjectExtensionsMetadata,
+  unloadExtensionsMetadata,
+  getEventsFunctionsExtensionNames,
+} from './events-extensions.js';
 import { createLogger } from '../logger.js';
 
 const logger = createLogger('project-session');
 
+/**
+ * Maximum number of undo steps kept per session.
+ */
+const MAX_HISTORY_ENTRIES = 50;
+
 export interface ProjectInfo {
   sessionId: string;
   projectPath: string;
@@ -34,6 +46,19 @@ export interface ProjectInfo {
   externalLayoutsCount: number;
 }
 
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: Date;
+}
+
+/**
+ * A history entry along with the serialized project it restores.
+ */
+interface HistoryRecord extends HistoryEntry {
+  snapshot: string;
+}
+
 /**
  * Represents an active editing session for a GDevelop project.
  * Provides high-level operations for manipulating project contents.
@@ -43,12 +68,25 @@ export class ProjectSession {
   private createdAt: Date = new Date();
   private lastModifiedAt: Date = new Date();
 
+  // Undo/redo history. Each record stores the project as it was before
+  // (undo) or after (redo) the change it describes.
+  private undoStack: HistoryRecord[] = [];
+  private redoStack: HistoryRecord[] = [];
+  private pendingChange: HistoryEntry | null = null;
+  private currentSnapshot: string;
+  private nextHistoryId: number = 1;
+  private atomicDepth: number = 0;
+
   constructor(
     public readonly id: string,
     private project: GDProject,
     private projectPath: string,
-    private gdcoreManager: GDCoreManager
+    private gdcoreManager: GDCoreManager,
+    // Called after extensions are unloaded from the platform all sessions share
+    private onExtensionsUnloaded: (extensionNames: ReadonlySet<string>) => void
   ) {
+    this.currentSnapshot = this.serializeToString();
+    this.reloadExtensionsMetadata();
     logger.info({ sessionId: id, projectPath }, 'Session created');
   }
 
@@ -59,6 +97,13 @@ export class ProjectSession {
     return this.gdcoreManager.gd;
   }
 
+  /**
+   * Get the names of the extensions built into the platform.
+   */
+  getBuiltinExtensionNames(): ReadonlySet<string> {
+    return this.gdcoreManager.getBuiltinExtensionNames();
+  }
+
   /**
    * Get the underlying GDProject.
    */
@@ -75,10 +120,21 @@ export class ProjectSession {
 
   /**
    * Mark the project as having unsaved changes.
+   * All changes made until the next history commit are grouped into a single
+   * undo step, named after the first label given.
+   * @param label Human readable description of the change.
    */
-  markDirty(): void {
+  markDirty(label: string = 'Edit project'): void {
     this.dirty = true;
     this.lastModifiedAt = new Date();
+
+    if (!this.pendingChange) {
+      this.pendingChange = {
+        id: this.nextHistoryId++,
+        label,
+        timestamp: this.lastModifiedAt,
+      };
+    }
   }
 
   /**
@@ -102,6 +158,160 @@ export class ProjectSession {
     return this.lastModifiedAt;
   }
 
+  // ========== History ==========
+
+  /**
+   * Close the pending change (if any) and record it as an undo step.
+   * Called before each tool accesses the session, so that every tool call
+   * becomes exactly one history entry.
+   */
+  commitHistory(): void {
+    if (!this.pendingChange || this.atomicDepth > 0) {
+      return;
+    }
+
+    this.undoStack.push({ ...this.pendingChange, snapshot: this.currentSnapshot });
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.pendingChange = null;
+    this.currentSnapshot = this.serializeToString();
+  }
+
+  /**
+   * Run a function as a single undo step. If it throws, the project is
+   * restored to its state before the call and the error is rethrown.
+   * @param label Name of the resulting history entry.
+   */
+  async runAtomically<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    this.commitHistory();
+    const wasDirty = this.dirty;
+
+    this.atomicDepth++;
+    try {
+      const result = await fn();
+      if (this.pendingChange) {
+        this.pendingChange.label = label;
+      }
+      return result;
+    } catch (error) {
+      this.restoreSnapshot(this.currentSnapshot);
+      this.pendingChange = null;
+      this.dirty = wasDirty;
+      logger.info({ sessionId: this.id, label }, 'Atomic change rolled back');
+      throw error;
+    } finally {
+      this.atomicDepth--;
+    }
+  }
+
+  /**
+   * Revert the most recent change.
+   * @returns The history entry that was undone.
+   */
+  undo(): HistoryEntry {
+    this.commitHistory();
+
+    const record = this.undoStack.pop();
+    if (!record) {
+      throw new Error('Nothing to undo');
+    }
+
+    const { snapshot, ...entry } = record;
+    this.redoStack.push({ ...entry, snapshot: this.currentSnapshot });
+    this.restoreSnapshot(snapshot);
+
+    logger.info({ sessionId: this.id, label: entry.label }, 'Change undone');
+    return entry;
+  }
+
+  /**
+   * Re-apply the most recently undone change.
+   * @returns The history entry that was redone.
+   */
+  redo(): HistoryEntry {
+    this.commitHistory();
+
+    const record = this.redoStack.pop();
+    if (!record) {
+      throw new Error('Nothing to redo');
+    }
+
+    const { snapshot, ...entry } = record;
+    this.undoStack.push({ ...entry, snapshot: this.currentSnapshot });
+    this.restoreSnapshot(snapshot);
+
+    logger.info({ sessionId: this.id, label: entry.label }, 'Change redone');
+    return entry;
+  }
+
+  /**
+   * List the undoable and redoable history entries, oldest first.
+   */
+  getHistory(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    this.commitHistory();
+
+    const toEntry = ({ id, label, timestamp }: HistoryRecord): HistoryEntry => ({
+      id,
+      label,
+      timestamp,
+    });
+
+    return {
+      undo: this.undoStack.map(toEntry),
+      redo: this.redoStack.map(toEntry).reverse(),
+    };
+  }
+
+  /**
+   * Replace the project with a previously serialized state.
+   */
+  private restoreSnapshot(snapshot: string): void {
+    const element = this.gd.Serializer.fromJSON(snapshot);
+    const project = new this.gd.Project();
+    project.unserializeFrom(element);
+    project.setProjectFile(this.projectPath);
+    element.delete();
+
+    // Extensions may have been added, removed or changed by the restored changes
+    const restoredNames = new Set(getEventsFunctionsExtensionNames(project));
+    this.unloadExtensionsMetadata(
+      getEventsFunctionsExtensionNames(this.project).filter((name) => !restoredNames.has(name))
+    );
+    reloadProjectExtensionsMetadata(this.gd, project, this.getBuiltinExtensionNames());
+
+    this.project.delete();
+    this.project = project;
+    this.currentSnapshot = snapshot;
+
+    this.dirty = true;
+    this.lastModifiedAt = new Date();
+  }
+
+  /**
+   * Reload the declarations of the events-based extensions of the project.
+   * @param extensionNames Only reload the extensions with these names.
+   */
+  reloadExtensionsMetadata(extensionNames?: ReadonlySet<string>): void {
+    reloadProjectExtensionsMetadata(
+      this.gd,
+      this.project,
+      this.getBuiltinExtensionNames(),
+      extensionNames
+    );
+  }
+
+  /**
+   * Remove the declarations of events-based extensions of the project. Other
+   * sessions then declare again their extensions having the same names.
+   */
+  unloadExtensionsMetadata(extensionNames: string[]): void {
+    if (extensionNames.length === 0) return;
+    unloadExtensionsMetadata(this.project, this.getBuiltinExtensionNames(), extensionNames);
+    this.onExtensionsUnloaded(new Set(extensionNames));
+  }
+
   // ========== Project Info ==========
 
   /**
@@ -215,12 +425,36 @@ export class ProjectSession {
 
     const pos = position ?? this.getLayoutCount();
     const layout = this.project.insertNewLayout(name, pos);
-    this.markDirty();
+    this.markDirty(`Create scene "${name}"`);
 
     logger.info({ name, position: pos }, 'Layout created');
     return layout;
   }
 
+  /**
+   * Create a deep copy of a layout, including its objects, groups, layers,
+   * instances, variables and events.
+   */
+  duplicateLayout(sourceName: string, newName: string): GDLayout {
+    const source = this.getLayout(sourceName);
+    if (this.hasLayout(newName)) {
+      throw new Error(`Layout "${newName}" already exists`);
+    }
+
+    const element = new this.gd.SerializerElement();
+    source.serializeTo(element);
+
+    const layout = this.project.insertNewLayout(newName, this.getLayoutCount());
+    layout.unserializeFrom(this.project, element);
+    layout.setName(newName);
+    element.delete();
+
+    this.markDirty(`Duplicate scene "${sourceName}" as "${newName}"`);
+
+    logger.info({ sourceName, newName }, 'Layout duplicated');
+    return layout;
+  }
+
   /**
    * Delete a layout.
    */
@@ -230,7 +464,7 @@ export class ProjectSession {
     }
 
     this.project.removeLayout(name);
-    this.markDirty();
+    this.markDirty(`Delete scene "${name}"`);
 
     logger.info({ name }, 'Layout deleted');
   }
@@ -254,7 +488,7 @@ export class ProjectSession {
       this.project.setFirstLayout(newName);
     }
 
-    this.markDirty();
+    this.markDirty(`Rename scene "${currentName}" to "${newName}"`);
     logger.info({ currentName, newName }, 'Layout renamed');
   }
 
@@ -275,11 +509,24 @@ export class ProjectSession {
     }
 
     this.project.moveLayout(oldPosition, newPosition);
-    this.markDirty();
+    this.markDirty(`Move scene "${name}"`);
 
     logger.info({ name, oldPosition, newPosition }, 'Layout moved');
   }
 
+  // ========== Instance Operations ==========
+
+  /**
+   * Get an initial instance of a layout by its persistent UUID.
+   */
+  getInstance(sceneName: string, id: string): GDInitialInstance {
+    const instance = findInstance(this.getLayout(sceneName).getInitialInstances(), id);
+    if (!instance) {
+      throw new Error(`Instance "${id}" not found in scene "${sceneName}"`);
+    }
+    return instance;
+  }
+
   // ========== Global Object Operations ==========
 
   /**
@@ -306,6 +553,21 @@ export class ProjectSession {
     return this.project.getObject(name);
   }
 
+  /**
+   * Get an object of a scene, or a global object if no scene is given.
+   */
+  getObject(name: string, sceneName?: string): GDObject {
+    if (!sceneName) {
+      return this.getGlobalObject(name);
+    }
+
+    const layout = this.getLayout(sceneName);
+    if (!layout.hasObjectNamed(name)) {
+      throw new Error(`Object "${name}" not found in scene "${sceneName}"`);
+    }
+    return layout.getObject(name);
+  }
+
   /**
    * Create a new global object.
    */
@@ -316,7 +578,7 @@ export class ProjectSession {
 
     const object = this.project.createObject(type, name);
     this.project.insertObject(object, this.project.getObjectsCount());
-    this.markDirty();
+    this.markDirty(`Create global object "${name}"`);
 
     logger.info({ name, type }, 'Global object created');
     return object;
@@ -331,7 +593,7 @@ export class ProjectSession {
     }
 
     this.project.removeObject(name);
-    this.markDirty();
+    this.markDirty(`Delete global object "${name}"`);
 
     logger.info({ name }, 'Global object deleted');
   }
@@ -384,7 +646,7 @@ export class ProjectSession {
       }
     }
 
-    this.markDirty();
+    this.markDirty(`Create global variable "${name}"`);
     logger.info({ name }, 'Global variable created');
 
     return variable;
@@ -400,7 +662,7 @@ export class ProjectSession {
     }
 
     vars.remove(name);
-    this.markDirty();
+    this.markDirty(`Delete global variable "${name}"`);
 
     logger.info({ name }, 'Global variable deleted');
   }
@@ -411,21 +673,32 @@ export class ProjectSession {
    * Serialize the project to JSON.
    */
   serialize(): object {
+    return JSON.parse(this.serializeToString());
+  }
+
+  /**
+   * Serialize the project to a JSON string.
+   */
+  private serializeToString(): string {
     const serializer = new this.gd.SerializerElement();
     this.project.serializeTo(serializer);
     const json = this.gd.Serializer.toJSON(serializer);
     serializer.delete();
-    return JSON.parse(json);
+    return json;
   }
 
   // ========== Cleanup ==========
 
   /**
-   * Dispose of the session and release resources.
+   * Dispose of the session and release resources, including the declarations
+   * of the events-based extensions of the project.
    */
   dispose(): void {
     logger.info({ sessionId: this.id }, 'Disposing session');
+    this.undoStack = [];
+    this.redoStack = [];
     if (this.project) {
+      this.unloadExtensionsMetadata(getEventsFunctionsExtensionNames(this.project));
       this.project.delete();
     }
   }
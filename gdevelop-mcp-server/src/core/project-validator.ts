@@ -0,0 +1,440 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type {
+  GD,
+  GDProject,
+  GDLayout,
+  GDObject,
+  GDBaseEvent,
+  GDEventsList,
+  GDInstruction,
+  GDInstructionsList,
+  GDInitialInstance,
+  GDInitialInstancesContainer,
+  GDObjectsContainer,
+} from '../types/gdcore.js';
+import {
+  EVENT_TYPES,
+  getInstructionLists,
+  getProjectEventsSheets,
+  type EventsSheet,
+} from './event-traversal.js';
+import {
+  getInstructionMetadata,
+  getInstructionProblems,
+  getParameterCountProblem,
+  type InstructionKind,
+  type InstructionScope,
+} from './instruction-validator.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a project, e.g. at `scene:Level1/event:0.2`.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  location: string;
+}
+
+/**
+ * Scan a project for problems: dangling instances, missing scenes and
+ * resource files, invalid instructions, behaviors of unused extensions,
+ * undeclared variables and empty event groups.
+ * @param projectDir Directory resource files are relative to.
+ */
+export async function validateProject(
+  gd: GD,
+  project: GDProject,
+  projectDir: string
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+
+  checkFirstScene(project, diagnostics);
+  checkInstances(project, diagnostics);
+  checkBehaviorExtensions(project, diagnostics);
+  for (const sheet of getProjectEventsSheets(project)) {
+    checkEvents(gd, project, sheet, sheet.events, [], new Set(), diagnostics);
+  }
+  await checkResourceFiles(project, projectDir, diagnostics);
+
+  return diagnostics;
+}
+
+function checkFirstScene(project: GDProject, diagnostics: Diagnostic[]): void {
+  const firstLayout = project.getFirstLayout();
+  if (firstLayout && !project.hasLayoutNamed(firstLayout)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'missing-first-scene',
+      message: `First scene "${firstLayout}" does not exist`,
+      location: 'project',
+    });
+  }
+}
+
+/**
+ * Check that initial instances of scenes and external layouts use existing
+ * objects and layers.
+ */
+function checkInstances(project: GDProject, diagnostics: Diagnostic[]): void {
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    const layout = project.getLayoutAt(i);
+    checkInstancesOf(
+      project,
+      layout,
+      layout.getInitialInstances(),
+      `scene:${layout.getName()}`,
+      diagnostics
+    );
+  }
+
+  for (let i = 0; i < project.getExternalLayoutsCount(); i++) {
+    const externalLayout = project.getExternalLayoutAt(i);
+    const location = `externalLayout:${externalLayout.getName()}`;
+    const associatedLayout = externalLayout.getAssociatedLayout();
+
+    if (!project.hasLayoutNamed(associatedLayout)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'missing-associated-scene',
+        message: associatedLayout
+          ? `Associated scene "${associatedLayout}" does not exist`
+          : 'External layout is not associated to a scene: its instances cannot be checked',
+        location,
+      });
+      continue;
+    }
+
+    checkInstancesOf(
+      project,
+      project.getLayout(associatedLayout),
+      externalLayout.getInitialInstances(),
+      location,
+      diagnostics
+    );
+  }
+}
+
+function checkInstancesOf(
+  project: GDProject,
+  layout: GDLayout,
+  instances: GDInitialInstancesContainer,
+  location: string,
+  diagnostics: Diagnostic[]
+): void {
+  let index = 0;
+  instances.iterateOverInstances((instance: GDInitialInstance) => {
+    const objectName = instance.getObjectName();
+    const layer = instance.getLayer();
+    const instanceLocation = `${location}/instance:${index++}`;
+
+    if (!layout.hasObjectNamed(objectName) && !project.hasObjectNamed(objectName)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-object',
+        message: `Instance at (${instance.getX()}, ${instance.getY()}) uses object ` +
+          `"${objectName}", which does not exist`,
+        location: instanceLocation,
+      });
+    }
+    if (layer && !layout.hasLayerNamed(layer)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-layer',
+        message: `Instance of "${objectName}" is on layer "${layer}", which does not exist ` +
+          `in scene "${layout.getName()}"`,
+        location: instanceLocation,
+      });
+    }
+  });
+}
+
+/**
+ * Check that behaviors come from extensions used by the project
+ * (or from its events-based extensions).
+ */
+function checkBehaviorExtensions(project: GDProject, diagnostics: Diagnostic[]): void {
+  const usedExtensions = new Set<string>();
+  const vector = project.getUsedExtensions();
+  for (let i = 0; i < vector.size(); i++) {
+    usedExtensions.add(vector.at(i));
+  }
+
+  const check = (objects: GDObjectsContainer, location: string) => {
+    for (let i = 0; i < objects.getObjectsCount(); i++) {
+      const object = objects.getObjectAt(i);
+      for (const behaviorName of object.getAllBehaviorNames()) {
+        const type = object.getBehavior(behaviorName).getTypeName();
+        const extension = type.split('::')[0];
+        if (
+          !type.includes('::') ||
+          usedExtensions.has(extension) ||
+          project.hasEventsFunctionsExtensionNamed(extension)
+        ) {
+          continue;
+        }
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unused-behavior-extension',
+          message: `Behavior "${behaviorName}" (${type}) of object "${object.getName()}" ` +
+            `comes from extension "${extension}", which is not used by the project`,
+          location: `${location}/object:${object.getName()}`,
+        });
+      }
+    }
+  };
+
+  check(project.getObjects(), 'project');
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    const layout = project.getLayoutAt(i);
+    check(layout.getObjects(), `scene:${layout.getName()}`);
+  }
+}
+
+/**
+ * Check the instructions of a list of events, the variables they use and
+ * empty groups. Local variables declared by parent events (including loop
+ * indices) are in scope of their sub-events.
+ */
+function checkEvents(
+  gd: GD,
+  project: GDProject,
+  sheet: EventsSheet,
+  list: GDEventsList,
+  parentPath: number[],
+  parentVariables: Set<string>,
+  diagnostics: Diagnostic[]
+): void {
+  for (let i = 0; i < list.getEventsCount(); i++) {
+    const event = list.getEventAt(i);
+    const path = [...parentPath, i];
+    const location = `${sheet.location}/event:${path.join('.')}`;
+    const localVariables = new Set([...parentVariables, ...getLocalVariableNames(gd, event)]);
+
+    const { conditions, actions, whileConditions } = getInstructionLists(gd, event);
+    const checkList = (instructions: GDInstructionsList, kind: InstructionKind) => {
+      for (let j = 0; j < instructions.size(); j++) {
+        const instruction = instructions.get(j);
+        checkInstruction(
+          gd,
+          project,
+          sheet,
+          instruction,
+          kind,
+          localVariables,
+          location,
+          diagnostics
+        );
+        checkList(instruction.getSubInstructions(), kind);
+      }
+    };
+    if (whileConditions) checkList(whileConditions, 'condition');
+    if (conditions) checkList(conditions, 'condition');
+    if (actions) checkList(actions, 'action');
+
+    if (event.getType() === EVENT_TYPES.group && !event.hasSubEvents()) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'empty-group',
+        message: 'Event group has no events',
+        location,
+      });
+    }
+
+    if (event.canHaveSubEvents() && event.hasSubEvents()) {
+      checkEvents(gd, project, sheet, event.getSubEvents(), path, localVariables, diagnostics);
+    }
+  }
+}
+
+function checkInstruction(
+  gd: GD,
+  project: GDProject,
+  sheet: EventsSheet,
+  instruction: GDInstruction,
+  kind: InstructionKind,
+  localVariables: Set<string>,
+  location: string,
+  diagnostics: Diagnostic[]
+): void {
+  const type = instruction.getType();
+  const parameters: string[] = [];
+  for (let i = 0; i < instruction.getParametersCount(); i++) {
+    parameters.push(instruction.getParameter(i).getPlainString());
+  }
+
+  if (!sheet.scope) {
+    const metadata = getInstructionMetadata(gd, project, kind, type);
+    const problem = metadata
+      ? getParameterCountProblem(metadata, parameters.length)
+      : `Unknown ${kind} type "${type}"`;
+    if (problem) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-instruction',
+        message: metadata ? `${kind} "${type}" ${problem}` : problem,
+        location,
+      });
+    }
+    return;
+  }
+
+  for (const problem of getInstructionProblems(gd, sheet.scope, kind, { type, parameters })) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'invalid-instruction',
+      message: problem,
+      location,
+    });
+  }
+
+  const undeclared = getUndeclaredVariables(
+    gd,
+    sheet.scope,
+    kind,
+    type,
+    parameters,
+    localVariables
+  );
+  for (const variable of undeclared) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'undeclared-variable',
+      message: `${kind} "${type}" uses variable "${variable}", which is not declared`,
+      location,
+    });
+  }
+}
+
+/**
+ * Get the variables used by the variable parameters of an instruction that
+ * are not declared in the scope. Object variables of groups are not checked.
+ */
+function getUndeclaredVariables(
+  gd: GD,
+  scope: InstructionScope,
+  kind: InstructionKind,
+  type: string,
+  parameters: string[],
+  localVariables: Set<string>
+): string[] {
+  const metadata = getInstructionMetadata(gd, scope.project, kind, type);
+  if (!metadata) return [];
+
+  const { project, layout } = scope;
+  const undeclared: string[] = [];
+  let lastObject: GDObject | null = null;
+
+  for (let i = 0; i < Math.min(parameters.length, metadata.getParametersCount()); i++) {
+    const parameterType = metadata.getParameter(i).getType();
+    const value = parameters[i];
+    const name = value.split(/[.[]/)[0].trim();
+
+    if (gd.ParameterMetadata.isObject(parameterType)) {
+      lastObject = findObject(project, layout, value);
+      continue;
+    }
+    if (!name || localVariables.has(name)) continue;
+
+    const isDeclared = (() => {
+      switch (parameterType) {
+        case 'globalvar':
+          return project.getVariables().has(name);
+        case 'scenevar':
+          return !layout || layout.getVariables().has(name);
+        case 'variable':
+          return (
+            !layout ||
+            layout.getVariables().has(name) ||
+            project.getVariables().has(name) ||
+            findObject(project, layout, name) !== null
+          );
+        case 'objectvar':
+          return !lastObject || lastObject.getVariables().has(name);
+        default:
+          return true;
+      }
+    })();
+
+    if (!isDeclared) undeclared.push(name);
+  }
+
+  return undeclared;
+}
+
+/**
+ * Get the names of the local variables and loop index variable of an event.
+ */
+function getLocalVariableNames(gd: GD, event: GDBaseEvent): string[] {
+  const names: string[] = [];
+  if (event.canHaveVariables() && event.hasVariables()) {
+    const variables = event.getVariables();
+    for (let i = 0; i < variables.count(); i++) {
+      names.push(variables.getNameAt(i));
+    }
+  }
+
+  switch (event.getType()) {
+    case EVENT_TYPES.repeat:
+      names.push(gd.asRepeatEvent(event).getLoopIndexVariableName());
+      break;
+    case EVENT_TYPES.while:
+      names.push(gd.asWhileEvent(event).getLoopIndexVariableName());
+      break;
+    case EVENT_TYPES.foreach:
+      names.push(gd.asForEachEvent(event).getLoopIndexVariableName());
+      break;
+    case EVENT_TYPES.foreachchildvariable: {
+      const forEachChild = gd.asForEachChildVariableEvent(event);
+      names.push(
+        forEachChild.getLoopIndexVariableName(),
+        forEachChild.getKeyIteratorVariableName(),
+        forEachChild.getValueIteratorVariableName()
+      );
+      break;
+    }
+  }
+
+  return names.filter((name) => name !== '');
+}
+
+function findObject(
+  project: GDProject,
+  layout: GDLayout | undefined,
+  name: string
+): GDObject | null {
+  if (layout && layout.hasObjectNamed(name)) return layout.getObject(name);
+  if (project.hasObjectNamed(name)) return project.getObject(name);
+  return null;
+}
+
+/**
+ * Check that resource files exist, relative to the project directory.
+ * URLs are not checked.
+ */
+async function checkResourceFiles(
+  project: GDProject,
+  projectDir: string,
+  diagnostics: Diagnostic[]
+): Promise<void> {
+  const resourcesManager = project.getResourcesManager();
+
+  for (const name of resourcesManager.getAllResourceNames()) {
+    const file = resourcesManager.getResource(name).getFile();
+    if (!file || /^(https?|data|blob):/.test(file)) continue;
+
+    try {
+      await fs.access(path.resolve(projectDir, file));
+    } catch {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-resource-file',
+        message: `File "${file}" of resource "${name}" does not exist`,
+        location: `resource:${name}`,
+      });
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GD, GDProject, GDLayout, GDObject, GDInitialInstance } from '../types/gdcore.js';
+import { getConfigurationProperties } from './object-configuration.js';
+import type { Point } from './instances.js';
+
+// Size used by the editor for objects it can't measure
+const UNKNOWN_OBJECT_SIZE = 32;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * The default size of an object, with the position of its origin in it.
+ * Instances are positioned by their origin: the top-left corner, except for
+ * sprites, which have an origin point.
+ */
+export interface ObjectSize extends Size {
+  origin: Point;
+}
+
+/**
+ * An axis-aligned box in scene coordinates.
+ */
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * An instance with its bounding box. The size is estimated when neither the
+ * instance nor its object gives one.
+ */
+export interface LocatedInstance {
+  instance: GDInitialInstance;
+  bounds: Bounds;
+  sizeEstimated: boolean;
+}
+
+export interface LayerStats {
+  layer: string;
+  instanceCount: number;
+  bounds: Bounds;
+  objects: Record<string, number>;
+}
+
+/**
+ * Compute the bounding boxes of instances of a layout, using their custom size
+ * or else the default size of their object: the first image of sprites,
+ * or the width and height properties of other objects. The origin of sprites
+ * is scaled with their custom size.
+ */
+export async function locateInstances(
+  gd: GD,
+  project: GDProject,
+  layout: GDLayout,
+  projectDir: string,
+  instances: GDInitialInstance[]
+): Promise<LocatedInstance[]> {
+  const defaultSizes = new Map<string, ObjectSize | undefined>();
+
+  const located: LocatedInstance[] = [];
+  for (const instance of instances) {
+    const objectName = instance.getObjectName();
+    if (!defaultSizes.has(objectName)) {
+      const object = layout.hasObjectNamed(objectName)
+        ? layout.getObject(objectName)
+        : project.hasObjectNamed(objectName)
+          ? project.getObject(objectName)
+          : undefined;
+      defaultSizes.set(
+        objectName,
+        object && (await getObjectDefaultSize(gd, project, object, projectDir))
+      );
+    }
+    const defaultSize = defaultSizes.get(objectName);
+
+    let size: Size | undefined = defaultSize;
+    let origin = defaultSize?.origin ?? { x: 0, y: 0 };
+    if (instance.hasCustomSize()) {
+      size = { width: instance.getCustomWidth(), height: instance.getCustomHeight() };
+      if (defaultSize) {
+        origin = {
+          x: (origin.x * size.width) / defaultSize.width,
+          y: (origin.y * size.height) / defaultSize.height,
+        };
+      }
+    }
+
+    located.push({
+      instance,
+      bounds: getBounds(
+        instance,
+        size ?? { width: UNKNOWN_OBJECT_SIZE, height: UNKNOWN_OBJECT_SIZE },
+        origin
+      ),
+      sizeEstimated: !size,
+    });
+  }
+  return located;
+}
+
+/**
+ * Get the default size of an object, if it can be known without rendering it.
+ * Sprites use the size and origin point of the first frame of their first animation.
+ */
+export async function getObjectDefaultSize(
+  gd: GD,
+  project: GDProject,
+  object: GDObject,
+  projectDir: string
+): Promise<ObjectSize | undefined> {
+  if (object.getType() === 'Sprite') {
+    const animations = gd.asSpriteConfiguration(object.getConfiguration()).getAnimations();
+    if (animations.getAnimationsCount() === 0) return undefined;
+    const direction = animations.getAnimation(0).getDirection(0);
+    if (direction.getSpritesCount() === 0) return undefined;
+
+    const sprite = direction.getSprite(0);
+    const imageName = sprite.getImageName();
+    const resources = project.getResourcesManager();
+    if (!resources.hasResource(imageName)) return undefined;
+    const size = await readImageSize(
+      path.resolve(projectDir, resources.getResource(imageName).getFile())
+    );
+    const origin = sprite.getOrigin();
+    return size && { ...size, origin: { x: origin.getX(), y: origin.getY() } };
+  }
+
+  const properties = getConfigurationProperties(gd, object);
+  const width = Number(properties.width?.value);
+  const height = Number(properties.height?.value);
+  return width > 0 && height > 0 ? { width, height, origin: { x: 0, y: 0 } } : undefined;
+}
+
+/**
+ * Read the size of a PNG, JPEG or GIF image.
+ */
+export async function readImageSize(filePath: string): Promise<Size | undefined> {
+  let data: Buffer;
+  try {
+    data = await fs.readFile(filePath);
+  } catch {
+    return undefined;
+  }
+
+  if (data.length >= 24 && data.toString('ascii', 1, 4) === 'PNG') {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // Look for the start of frame segment, after the other segments
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the bounding box of an instance of the given size, including its rotation
+ * around its center. The position of the instance is its origin, given relative
+ * to the top-left corner.
+ */
+export function getBounds(
+  instance: GDInitialInstance,
+  size: Size,
+  origin: Point = { x: 0, y: 0 }
+): Bounds {
+  const x = instance.getX() - origin.x;
+  const y = instance.getY() - origin.y;
+  const { width, height } = size;
+  const radians = (instance.getAngle() * Math.PI) / 180;
+  if (radians % (2 * Math.PI) === 0) {
+    return { minX: x, minY: y, maxX: x + width, maxY: y + height };
+  }
+
+  // The box of a rotated rectangle is centered on the rectangle center
+  const halfWidth =
+    (Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians))) / 2;
+  const halfHeight =
+    (Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians))) / 2;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  return {
+    minX: centerX - halfWidth,
+    minY: centerY - halfHeight,
+    maxX: centerX + halfWidth,
+    maxY: centerY + halfHeight,
+  };
+}
+
+/**
+ * Check if two boxes overlap. Boxes only touching each other don't overlap.
+ */
+export function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+}
+
+/**
+ * Check if a box is entirely inside another one.
+ */
+export function boundsContain(outer: Bounds, inner: Bounds): boolean {
+  return (
+    inner.minX >= outer.minX &&
+    inner.maxX <= outer.maxX &&
+    inner.minY >= outer.minY &&
+    inner.maxY <= outer.maxY
+  );
+}
+
+/**
+ * Get the distance from a point to a box, 0 if the point is inside.
+ */
+export function distanceToBounds(point: Point, bounds: Bounds): number {
+  const dx = Math.max(bounds.minX - point.x, 0, point.x - bounds.maxX);
+  const dy = Math.max(bounds.minY - point.y, 0, point.y - bounds.maxY);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Get the largest distance from a point to the corners of a box.
+ */
+export function farthestDistanceToBounds(point: Point, bounds: Bounds): number {
+  const dx = Math.max(point.x - bounds.minX, bounds.maxX - point.x);
+  const dy = Math.max(point.y - bounds.minY, bounds.maxY - point.y);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Get the number of instances, their bounding box and their count by object,
+ * for each layer.
+ */
+export function getLayerStats(located: LocatedInstance[]): LayerStats[] {
+  const stats = new Map<string, LayerStats>();
+
+  for (const { instance, bounds } of located) {
+    const layer = instance.getLayer();
+    const layerStats = stats.get(layer);
+    if (!layerStats) {
+      stats.set(layer, {
+        layer,
+        instanceCount: 1,
+        bounds: { ...bounds },
+        objects: { [instance.getObjectName()]: 1 },
+      });
+      continue;
+    }
+
+    layerStats.instanceCount++;
+    layerStats.bounds = {
+      minX: Math.min(layerStats.bounds.minX, bounds.minX),
+      minY: Math.min(layerStats.bounds.minY, bounds.minY),
+      maxX: Math.max(layerStats.bounds.maxX, bounds.maxX),
+      maxY: Math.max(layerStats.bounds.maxY, bounds.maxY),
+    };
+    const objectName = instance.getObjectName();
+    layerStats.objects[objectName] = (layerStats.objects[objectName] ?? 0) + 1;
+  }
+
+  return [...stats.values()];
+}
@@ -0,0 +1,1038 @@
+import type {
+  GD,
+  GDProject,
+  GDLayout,
+  GDInstruction,
+  GDInitialInstance,
+  GDInitialInstancesContainer,
+  GDObjectGroupsContainer,
+  GDObjectsContainer,
+  GDEventsFunctionsExtension,
+  GDEventsBasedObject,
+} from '../types/gdcore.js';
+import {
+  EVENT_TYPES,
+  forEachEvent,
+  forEachInstruction,
+  getEventsFunctionsSheets,
+  getProjectEventsSheets,
+  type EventsSheet,
+} from './event-traversal.js';
+import {
+  getInstructionMetadata,
+  parseStringLiteral,
+  type InstructionKind,
+} from './instruction-validator.js';
+import { findPlatformExtension, getExtensionContents } from './metadata-catalog.js';
+
+export type ReferenceKind =
+  | 'instruction'
+  | 'forEach'
+  | 'instance'
+  | 'group'
+  | 'object'
+  | 'behavior'
+  | 'firstScene'
+  | 'association'
+  | 'link';
+
+/**
+ * A place where an entity is used.
+ */
+export interface Reference {
+  kind: ReferenceKind;
+  /** Scene, external events/layout, extension function or `project` */
+  location: string;
+  eventPath?: string;
+  instructionType?: string;
+  instructionKind?: InstructionKind;
+  parameterIndex?: number;
+  groupName?: string;
+  objectName?: string;
+  behaviorName?: string;
+  x?: number;
+  y?: number;
+  layer?: string;
+}
+
+/**
+ * Where an object is declared: a scene, a custom (events-based) object,
+ * or the project for global objects.
+ */
+export interface ObjectScope {
+  layout?: GDLayout;
+  eventsBasedObject?: {
+    extension: GDEventsFunctionsExtension;
+    object: GDEventsBasedObject;
+  };
+}
+
+/**
+ * Where a variable is declared: the variables of an object (global if no
+ * layout is given), of a scene, or the global variables if both are omitted.
+ */
+export interface VariableScope {
+  layout?: GDLayout;
+  objectName?: string;
+}
+
+interface LocatedInstances {
+  location: string;
+  instances: GDInitialInstancesContainer;
+}
+
+interface LocatedGroups {
+  location: string;
+  groups: GDObjectGroupsContainer;
+}
+
+/**
+ * Events, initial instances and groups in which an entity can be used.
+ */
+interface UsageSites {
+  sheets: EventsSheet[];
+  instances: LocatedInstances[];
+  groups: LocatedGroups[];
+}
+
+/**
+ * Tell if a parameter of an instruction uses the searched entity.
+ * `objectName` is the value of the last object parameter before it, if any.
+ */
+type ParameterTest = (type: string, value: string, objectName: string | null) => boolean;
+
+// Parameter types naming a resource
+const RESOURCE_PARAMETER_TYPES = new Set([
+  'soundfile',
+  'musicfile',
+  'police',
+  'imageResource',
+  'audioResource',
+  'fontResource',
+  'bitmapFontResource',
+  'videoResource',
+  'jsonResource',
+  'tilemapResource',
+  'tilesetResource',
+  'model3DResource',
+  'atlasResource',
+  'spineResource',
+  'javaScriptResource',
+]);
+
+// ========== Objects ==========
+
+/**
+ * Find every reference to an object: instruction parameters and expressions,
+ * "For each object" events, initial instances and group memberships.
+ */
+export function findObjectReferences(
+  gd: GD,
+  project: GDProject,
+  objectName: string,
+  scope: ObjectScope
+): Reference[] {
+  const sites = getObjectUsageSites(project, objectName, scope);
+  const references = findInstructionReferences(gd, project, sites.sheets, (type, value) =>
+    isObjectParameterUsing(gd, type, value, objectName)
+  );
+
+  for (const sheet of sites.sheets) {
+    forEachEvent(sheet.events, (event, path) => {
+      if (
+        event.getType() === EVENT_TYPES.foreach &&
+        gd.asForEachEvent(event).getObjectToPick() === objectName
+      ) {
+        references.push({ kind: 'forEach', location: sheet.location, eventPath: path.join('.') });
+      }
+    });
+  }
+
+  for (const { location, instances } of sites.instances) {
+    instances.iterateOverInstances((instance: GDInitialInstance) => {
+      if (instance.getObjectName() !== objectName) return;
+      references.push({ kind: 'instance', location, ...getInstancePosition(instance) });
+    });
+  }
+
+  for (const { location, groups } of sites.groups) {
+    for (let i = 0; i < groups.count(); i++) {
+      const group = groups.getAt(i);
+      if (group.find(objectName)) {
+        references.push({ kind: 'group', location, groupName: group.getName() });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Remove the instructions, "For each object" events, instances and group
+ * memberships using a scene or global object, before the object itself is removed.
+ */
+export function removeObjectReferences(
+  gd: GD,
+  project: GDProject,
+  objectName: string,
+  layout?: GDLayout
+): void {
+  const { sheets } = getObjectUsageSites(project, objectName, { layout });
+  removeInstructions(gd, project, sheets, (type, value) =>
+    isObjectParameterUsing(gd, type, value, objectName)
+  );
+  for (const sheet of sheets) {
+    const remover = new gd.EventsRemover();
+    forEachEvent(sheet.events, (event) => {
+      if (
+        event.getType() === EVENT_TYPES.foreach &&
+        gd.asForEachEvent(event).getObjectToPick() === objectName
+      ) {
+        remover.addEventToRemove(event);
+      }
+    });
+    remover.launch(sheet.events);
+    remover.delete();
+  }
+
+  if (layout) {
+    gd.WholeProjectRefactorer.objectRemovedInScene(project, layout, objectName);
+  } else {
+    gd.WholeProjectRefactorer.globalObjectRemoved(project, objectName);
+  }
+}
+
+// ========== Scenes ==========
+
+/**
+ * Find every reference to a scene: scene change instructions, the first
+ * scene of the project, and external events or layouts associated to it.
+ * The events of the scene itself are not searched.
+ */
+export function findSceneReferences(
+  gd: GD,
+  project: GDProject,
+  sceneName: string
+): Reference[] {
+  const sheets = getSceneReferencingSheets(project, sceneName);
+  const references = findInstructionReferences(gd, project, sheets, (type, value) =>
+    isSceneParameterUsing(type, value, sceneName)
+  );
+
+  if (project.getFirstLayout() === sceneName) {
+    references.push({ kind: 'firstScene', location: 'project' });
+  }
+  for (let i = 0; i < project.getExternalEventsCount(); i++) {
+    const externalEvents = project.getExternalEventsAt(i);
+    if (externalEvents.getAssociatedLayout() === sceneName) {
+      references.push({
+        kind: 'association',
+        location: `externalEvents:${externalEvents.getName()}`,
+      });
+    }
+  }
+  for (let i = 0; i < project.getExternalLayoutsCount(); i++) {
+    const externalLayout = project.getExternalLayoutAt(i);
+    if (externalLayout.getAssociatedLayout() === sceneName) {
+      references.push({
+        kind: 'association',
+        location: `externalLayout:${externalLayout.getName()}`,
+      });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Remove the scene change instructions targeting a scene, and unset it as
+ * first scene and as associated scene of external events and layouts.
+ */
+export function removeSceneReferences(gd: GD, project: GDProject, sceneName: string): void {
+  removeInstructions(gd, project, getSceneReferencingSheets(project, sceneName), (type, value) =>
+    isSceneParameterUsing(type, value, sceneName)
+  );
+
+  if (project.getFirstLayout() === sceneName) {
+    project.setFirstLayout('');
+  }
+  for (let i = 0; i < project.getExternalEventsCount(); i++) {
+    const externalEvents = project.getExternalEventsAt(i);
+    if (externalEvents.getAssociatedLayout() === sceneName) {
+      externalEvents.setAssociatedLayout('');
+    }
+  }
+  for (let i = 0; i < project.getExternalLayoutsCount(); i++) {
+    const externalLayout = project.getExternalLayoutAt(i);
+    if (externalLayout.getAssociatedLayout() === sceneName) {
+      externalLayout.setAssociatedLayout('');
+    }
+  }
+}
+
+// ========== Variables ==========
+
+/**
+ * Find every reference to a variable: variable parameters and expressions,
+ * and, for object variables, values overridden by initial instances.
+ */
+export function findVariableReferences(
+  gd: GD,
+  project: GDProject,
+  variableName: string,
+  scope: VariableScope
+): Reference[] {
+  const sites = getVariableUsageSites(project, variableName, scope);
+  const references = findInstructionReferences(
+    gd,
+    project,
+    sites.sheets,
+    getVariableParameterTest(gd, variableName, scope)
+  );
+
+  for (const { location, instances } of sites.instances) {
+    instances.iterateOverInstances((instance: GDInitialInstance) => {
+      if (
+        instance.getObjectName() === scope.objectName &&
+        instance.getVariables().has(variableName)
+      ) {
+        references.push({ kind: 'instance', location, ...getInstancePosition(instance) });
+      }
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Remove the instructions using a variable and the values overridden by
+ * initial instances.
+ */
+export function removeVariableReferences(
+  gd: GD,
+  project: GDProject,
+  variableName: string,
+  scope: VariableScope
+): void {
+  const sites = getVariableUsageSites(project, variableName, scope);
+  removeInstructions(
+    gd,
+    project,
+    sites.sheets,
+    getVariableParameterTest(gd, variableName, scope)
+  );
+
+  for (const { instances } of sites.instances) {
+    instances.iterateOverInstances((instance: GDInitialInstance) => {
+      if (
+        instance.getObjectName() === scope.objectName &&
+        instance.getVariables().has(variableName)
+      ) {
+        instance.getVariables().remove(variableName);
+      }
+    });
+  }
+}
+
+// ========== Behaviors ==========
+
+/**
+ * Find every reference to a behavior name: objects having a behavior with
+ * this name, behavior parameters and expressions calling its functions.
+ * Pass an object name to only search the behavior of this object.
+ */
+export function findBehaviorReferences(
+  gd: GD,
+  project: GDProject,
+  behaviorName: string,
+  objectName?: string
+): Reference[] {
+  const references = findInstructionReferences(
+    gd,
+    project,
+    getProjectEventsSheets(project),
+    (type, value, parameterObject) => {
+      if (type === 'behavior') {
+        return value === behaviorName && (!objectName || parameterObject === objectName);
+      }
+      return (
+        isExpressionParameter(gd, type) &&
+        expressionUsesBehavior(value, behaviorName, objectName)
+      );
+    }
+  );
+
+  for (const { location, objects } of getObjectsContainers(project)) {
+    for (let i = 0; i < objects.getObjectsCount(); i++) {
+      const object = objects.getObjectAt(i);
+      if (objectName && object.getName() !== objectName) continue;
+      if (object.hasBehaviorNamed(behaviorName)) {
+        references.push({ kind: 'object', location, objectName: object.getName() });
+      }
+    }
+  }
+
+  return references;
+}
+
+// ========== Layers ==========
+
+/**
+ * Find every reference to a layer of a scene: layer parameters and initial
+ * instances placed on it.
+ */
+export function findLayerReferences(
+  gd: GD,
+  project: GDProject,
+  layerName: string,
+  layout: GDLayout
+): Reference[] {
+  const sites = getLayoutUsageSites(project, [layout.getName()], false);
+  const references = findInstructionReferences(
+    gd,
+    project,
+    sites.sheets,
+    (type, value) => type === 'layer' && parseStringLiteral(value) === layerName
+  );
+
+  for (const { location, instances } of sites.instances) {
+    instances.iterateOverInstances((instance: GDInitialInstance) => {
+      if (instance.getLayer() !== layerName) return;
+      references.push({
+        kind: 'instance',
+        location,
+        objectName: instance.getObjectName(),
+        ...getInstancePosition(instance),
+      });
+    });
+  }
+
+  return references;
+}
+
+// ========== External events ==========
+
+/**
+ * Find the link events including an external events sheet.
+ */
+export function findExternalEventsReferences(
+  gd: GD,
+  project: GDProject,
+  externalEventsName: string
+): Reference[] {
+  const references: Reference[] = [];
+
+  for (const sheet of getProjectEventsSheets(project)) {
+    forEachEvent(sheet.events, (event, path) => {
+      if (
+        event.getType() === EVENT_TYPES.link &&
+        gd.asLinkEvent(event).getTarget() === externalEventsName
+      ) {
+        references.push({ kind: 'link', location: sheet.location, eventPath: path.join('.') });
+      }
+    });
+  }
+
+  return references;
+}
+
+// ========== Resources ==========
+
+/**
+ * Find every reference to a resource: objects using it (sprites, textures,
+ * fonts...) and resource parameters of instructions.
+ */
+export function findResourceReferences(
+  gd: GD,
+  project: GDProject,
+  resourceName: string
+): Reference[] {
+  const references = findInstructionReferences(
+    gd,
+    project,
+    getProjectEventsSheets(project),
+    (type, value) => RESOURCE_PARAMETER_TYPES.has(type) && value === resourceName
+  );
+
+  for (const { location, objects } of getObjectsContainers(project)) {
+    const collector = new gd.ObjectsUsingResourceCollector(
+      project.getResourcesManager(),
+      resourceName
+    );
+    collector.launch(objects);
+    const objectNames = collector.getObjectNames();
+    for (let i = 0; i < objectNames.size(); i++) {
+      references.push({ kind: 'object', location, objectName: objectNames.at(i) });
+    }
+    collector.delete();
+  }
+
+  return references;
+}
+
+/**
+ * Make objects and instructions use another resource instead of one.
+ * With an empty replacement, objects stop using the resource and
+ * instructions using it are removed.
+ */
+export function replaceResourceReferences(
+  gd: GD,
+  project: GDProject,
+  resourceName: string,
+  replacement: string
+): void {
+  const sheets = getProjectEventsSheets(project);
+  const test: ParameterTest = (type, value) =>
+    RESOURCE_PARAMETER_TYPES.has(type) && value === resourceName;
+
+  if (replacement) {
+    for (const sheet of sheets) {
+      forEachInstruction(gd, sheet.events, (instruction, kind) => {
+        for (const index of getMatchingParameters(gd, project, instruction, kind, test)) {
+          instruction.setParameter(index, replacement);
+        }
+      });
+    }
+  } else {
+    removeInstructions(gd, project, sheets, test);
+  }
+
+  const oldToNewNames = new gd.MapStringString();
+  oldToNewNames.set(resourceName, replacement);
+  const renamer = new gd.ResourcesRenamer(project.getResourcesManager(), oldToNewNames);
+  gd.ResourceExposer.exposeWholeProjectResources(project, renamer);
+  renamer.delete();
+  oldToNewNames.delete();
+}
+
+// ========== Extensions ==========
+
+/**
+ * Find every use of an extension outside of its own functions: global and
+ * scene objects of a type it declares, behaviors of a type it declares, and
+ * its instructions in events (including the functions of other extensions).
+ */
+export function findExtensionReferences(
+  gd: GD,
+  project: GDProject,
+  extensionName: string
+): Reference[] {
+  const usage = getExtensionUsageTests(project, extensionName);
+  const references: Reference[] = [];
+
+  for (const sheet of getExtensionReferencingSheets(project, extensionName)) {
+    forEachInstruction(gd, sheet.events, (instruction, kind, path) => {
+      if (!usage.isInstruction(instruction.getType(), kind)) return;
+      references.push({
+        kind: 'instruction',
+        location: sheet.location,
+        eventPath: path.join('.'),
+        instructionType: instruction.getType(),
+        instructionKind: kind,
+      });
+    });
+  }
+
+  for (const { location, objects } of getObjectsContainers(project)) {
+    for (let i = 0; i < objects.getObjectsCount(); i++) {
+      const object = objects.getObjectAt(i);
+      if (usage.isObjectType(object.getType())) {
+        references.push({ kind: 'object', location, objectName: object.getName() });
+      }
+      for (const behaviorName of object.getAllBehaviorNames()) {
+        if (!usage.isBehaviorType(object.getBehavior(behaviorName).getTypeName())) continue;
+        references.push({
+          kind: 'behavior',
+          location,
+          objectName: object.getName(),
+          behaviorName,
+        });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Remove the uses of an extension found by findExtensionReferences: its
+ * instructions, the behaviors of a type it declares, and the objects of a type
+ * it declares with the instructions, "For each object" events, instances and
+ * group memberships using them (see removeObjectReferences).
+ */
+export function removeExtensionReferences(
+  gd: GD,
+  project: GDProject,
+  extensionName: string
+): void {
+  const usage = getExtensionUsageTests(project, extensionName);
+
+  for (const sheet of getExtensionReferencingSheets(project, extensionName)) {
+    const remover = new gd.EventsRemover();
+    forEachInstruction(gd, sheet.events, (instruction, kind) => {
+      if (usage.isInstruction(instruction.getType(), kind)) {
+        remover.addInstructionToRemove(instruction);
+      }
+    });
+    remover.launch(sheet.events);
+    remover.delete();
+  }
+
+  const layouts = [undefined, ...getLayoutNames(project).map((name) => project.getLayout(name))];
+  for (const layout of layouts) {
+    const objects = layout ? layout.getObjects() : project.getObjects();
+    const removedObjects: string[] = [];
+    for (let i = 0; i < objects.getObjectsCount(); i++) {
+      const object = objects.getObjectAt(i);
+      if (usage.isObjectType(object.getType())) {
+        removedObjects.push(object.getName());
+        continue;
+      }
+      for (const behaviorName of object.getAllBehaviorNames()) {
+        if (usage.isBehaviorType(object.getBehavior(behaviorName).getTypeName())) {
+          object.removeBehavior(behaviorName);
+        }
+      }
+    }
+
+    for (const objectName of removedObjects) {
+      removeObjectReferences(gd, project, objectName, layout);
+      objects.removeObject(objectName);
+    }
+  }
+}
+
+/**
+ * Count references by kind, with a total.
+ */
+export function countReferences(references: Reference[]): Record<ReferenceKind | 'total', number> {
+  const counts = {
+    instruction: 0,
+    forEach: 0,
+    instance: 0,
+    group: 0,
+    object: 0,
+    behavior: 0,
+    firstScene: 0,
+    association: 0,
+    link: 0,
+    total: references.length,
+  };
+  for (const reference of references) {
+    counts[reference.kind]++;
+  }
+  return counts;
+}
+
+/**
+ * Describe a reference in one line, e.g. `scene:Level1, event 0.2: action "Create"`.
+ */
+export function describeReference(reference: Reference): string {
+  const at = reference.eventPath
+    ? `${reference.location}, event ${reference.eventPath}`
+    : reference.location;
+
+  switch (reference.kind) {
+    case 'instruction':
+      return `${at}: ${reference.instructionKind} "${reference.instructionType}"`;
+    case 'forEach':
+      return `${at}: "For each object" event`;
+    case 'link':
+      return `${at}: link event`;
+    case 'instance':
+      return (
+        `${at}: instance${reference.objectName ? ` of "${reference.objectName}"` : ''} ` +
+        `at (${reference.x}, ${reference.y}) on layer "${reference.layer}"`
+      );
+    case 'group':
+      return `${at}: group "${reference.groupName}"`;
+    case 'object':
+      return `${at}: object "${reference.objectName}"`;
+    case 'behavior':
+      return `${at}: behavior "${reference.behaviorName}" of object "${reference.objectName}"`;
+    case 'firstScene':
+      return `${at}: first scene`;
+    case 'association':
+      return `${at}: associated scene`;
+  }
+}
+
+/**
+ * Describe references one per line, up to a maximum count.
+ */
+export function formatReferences(references: Reference[], maxCount = 20): string {
+  const lines = references
+    .slice(0, maxCount)
+    .map((reference) => `- ${describeReference(reference)}`);
+  if (references.length > maxCount) {
+    lines.push(`- ... and ${references.length - maxCount} more`);
+  }
+  return lines.join('\n');
+}
+
+// ========== Traversal ==========
+
+/**
+ * Find the instruction parameters using an entity in events sheets.
+ */
+function findInstructionReferences(
+  gd: GD,
+  project: GDProject,
+  sheets: EventsSheet[],
+  test: ParameterTest
+): Reference[] {
+  const references: Reference[] = [];
+
+  for (const sheet of sheets) {
+    forEachInstruction(gd, sheet.events, (instruction, kind, path) => {
+      for (const parameterIndex of getMatchingParameters(gd, project, instruction, kind, test)) {
+        references.push({
+          kind: 'instruction',
+          location: sheet.location,
+          eventPath: path.join('.'),
+          instructionType: instruction.getType(),
+          instructionKind: kind,
+          parameterIndex,
+        });
+      }
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Remove the instructions having a parameter using an entity.
+ */
+function removeInstructions(
+  gd: GD,
+  project: GDProject,
+  sheets: EventsSheet[],
+  test: ParameterTest
+): void {
+  for (const sheet of sheets) {
+    const remover = new gd.EventsRemover();
+    forEachInstruction(gd, sheet.events, (instruction, kind) => {
+      if (getMatchingParameters(gd, project, instruction, kind, test).length > 0) {
+        remover.addInstructionToRemove(instruction);
+      }
+    });
+    remover.launch(sheet.events);
+    remover.delete();
+  }
+}
+
+/**
+ * Get the indices of the parameters of an instruction passing a test.
+ * Instructions unknown to the platform are skipped.
+ */
+function getMatchingParameters(
+  gd: GD,
+  project: GDProject,
+  instruction: GDInstruction,
+  kind: InstructionKind,
+  test: ParameterTest
+): number[] {
+  const metadata = getInstructionMetadata(gd, project, kind, instruction.getType());
+  if (!metadata) return [];
+
+  const indices: number[] = [];
+  let objectName: string | null = null;
+  const count = Math.min(instruction.getParametersCount(), metadata.getParametersCount());
+  for (let i = 0; i < count; i++) {
+    const type = metadata.getParameter(i).getType();
+    const value = instruction.getParameter(i).getPlainString();
+
+    if (test(type, value, objectName)) indices.push(i);
+    if (gd.ParameterMetadata.isObject(type)) objectName = value;
+  }
+  return indices;
+}
+
+/**
+ * Get where objects of a scope can be referenced. Global objects can be used
+ * in every scene, except those declaring an object with the same name.
+ */
+function getObjectUsageSites(
+  project: GDProject,
+  objectName: string,
+  scope: ObjectScope
+): UsageSites {
+  if (scope.eventsBasedObject) {
+    const { extension, object } = scope.eventsBasedObject;
+    const location = `extension:${extension.getName()}/object:${object.getName()}`;
+    return {
+      sheets: getEventsFunctionsSheets(object.getEventsFunctions(), location),
+      instances: [{ location, instances: object.getInitialInstances() }],
+      groups: [{ location, groups: object.getObjects().getObjectGroups() }],
+    };
+  }
+
+  if (scope.layout) {
+    return getLayoutUsageSites(project, [scope.layout.getName()], false);
+  }
+
+  const sites = getLayoutUsageSites(
+    project,
+    getLayoutNames(project).filter((name) => !project.getLayout(name).hasObjectNamed(objectName)),
+    true
+  );
+  sites.groups.unshift({ location: 'project', groups: project.getObjectGroups() });
+  return sites;
+}
+
+/**
+ * Get where variables of a scope can be referenced. Global variables can be
+ * used in every scene, except those declaring a variable with the same name.
+ */
+function getVariableUsageSites(
+  project: GDProject,
+  variableName: string,
+  scope: VariableScope
+): UsageSites {
+  if (scope.objectName) {
+    return getObjectUsageSites(project, scope.objectName, { layout: scope.layout });
+  }
+  if (scope.layout) {
+    return getLayoutUsageSites(project, [scope.layout.getName()], false);
+  }
+
+  return getLayoutUsageSites(
+    project,
+    getLayoutNames(project).filter(
+      (name) => !project.getLayout(name).getVariables().has(variableName)
+    ),
+    true
+  );
+}
+
+/**
+ * Get the events, instances and groups of scenes, with the external events
+ * and layouts associated to them (and those associated to no scene, if asked).
+ */
+function getLayoutUsageSites(
+  project: GDProject,
+  layoutNames: string[],
+  includeUnassociated: boolean
+): UsageSites {
+  const sites: UsageSites = { sheets: [], instances: [], groups: [] };
+  const isInScope = (associatedLayout: string) =>
+    layoutNames.includes(associatedLayout) || (includeUnassociated && associatedLayout === '');
+
+  for (const name of layoutNames) {
+    const layout = project.getLayout(name);
+    const location = `scene:${name}`;
+    sites.sheets.push({ location, events: layout.getEvents() });
+    sites.instances.push({ location, instances: layout.getInitialInstances() });
+    sites.groups.push({ location, groups: layout.getObjectGroups() });
+  }
+
+  for (let i = 0; i < project.getExternalEventsCount(); i++) {
+    const externalEvents = project.getExternalEventsAt(i);
+    if (isInScope(externalEvents.getAssociatedLayout())) {
+      sites.sheets.push({
+        location: `externalEvents:${externalEvents.getName()}`,
+        events: externalEvents.getEvents(),
+      });
+    }
+  }
+
+  for (let i = 0; i < project.getExternalLayoutsCount(); i++) {
+    const externalLayout = project.getExternalLayoutAt(i);
+    if (isInScope(externalLayout.getAssociatedLayout())) {
+      sites.instances.push({
+        location: `externalLayout:${externalLayout.getName()}`,
+        instances: externalLayout.getInitialInstances(),
+      });
+    }
+  }
+
+  return sites;
+}
+
+/**
+ * Events sheets that can change to a scene: every sheet but the scene's own events.
+ */
+function getSceneReferencingSheets(project: GDProject, sceneName: string): EventsSheet[] {
+  return getProjectEventsSheets(project).filter(
+    (sheet) => sheet.location !== `scene:${sceneName}`
+  );
+}
+
+/**
+ * Get the events sheets that can use an extension: all of them, except the
+ * functions of the extension itself.
+ */
+function getExtensionReferencingSheets(project: GDProject, extensionName: string): EventsSheet[] {
+  return getProjectEventsSheets(project).filter(
+    (sheet) => !sheet.location.startsWith(`extension:${extensionName}/`)
+  );
+}
+
+/**
+ * Tell if object types, behavior types and instructions are declared by an
+ * extension. Types prefixed by the extension name are considered declared by
+ * it, even if the extension is not loaded.
+ */
+function getExtensionUsageTests(project: GDProject, extensionName: string) {
+  const extension = findPlatformExtension(project.getCurrentPlatform(), extensionName);
+  const contents = extension ? getExtensionContents(extension) : undefined;
+  const objectTypes = new Set(contents?.objectTypes);
+  const behaviorTypes = new Set(contents?.behaviorTypes);
+  const conditions = new Set(contents?.conditions);
+  const actions = new Set(contents?.actions);
+  const isPrefixed = (type: string) => type.startsWith(`${extensionName}::`);
+
+  return {
+    isObjectType: (type: string) => objectTypes.has(type) || isPrefixed(type),
+    isBehaviorType: (type: string) => behaviorTypes.has(type) || isPrefixed(type),
+    isInstruction: (type: string, kind: InstructionKind) =>
+      (kind === 'condition' ? conditions : actions).has(type) || isPrefixed(type),
+  };
+}
+
+/**
+ * Get the global objects and the objects of each scene.
+ */
+function getObjectsContainers(
+  project: GDProject
+): { location: string; objects: GDObjectsContainer }[] {
+  const containers = [{ location: 'project', objects: project.getObjects() }];
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    const layout = project.getLayoutAt(i);
+    containers.push({ location: `scene:${layout.getName()}`, objects: layout.getObjects() });
+  }
+  return containers;
+}
+
+function getLayoutNames(project: GDProject): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < project.getLayoutsCount(); i++) {
+    names.push(project.getLayoutAt(i).getName());
+  }
+  return names;
+}
+
+function getInstancePosition(instance: GDInitialInstance) {
+  return { x: instance.getX(), y: instance.getY(), layer: instance.getLayer() };
+}
+
+// ========== Parameter tests ==========
+
+/**
+ * Check if a parameter uses an object: an object parameter naming it, or an
+ * expression using it.
+ */
+function isObjectParameterUsing(gd: GD, type: string, value: string, objectName: string) {
+  if (gd.ParameterMetadata.isObject(type)) return value === objectName;
+  return isExpressionParameter(gd, type) && expressionUsesObject(value, objectName);
+}
+
+function isSceneParameterUsing(type: string, value: string, sceneName: string) {
+  return type === 'sceneName' && parseStringLiteral(value) === sceneName;
+}
+
+/**
+ * Get the test for parameters using a variable of a scope: variable
+ * parameters naming it (or one of its children) and expressions using it.
+ */
+function getVariableParameterTest(
+  gd: GD,
+  variableName: string,
+  scope: VariableScope
+): ParameterTest {
+  const { objectName } = scope;
+  if (objectName) {
+    return (type, value, parameterObject) => {
+      if (type === 'objectvar') {
+        return parameterObject === objectName && getRootVariableName(value) === variableName;
+      }
+      return (
+        isExpressionParameter(gd, type) &&
+        expressionUsesObjectVariable(value, objectName, variableName)
+      );
+    };
+  }
+
+  const variableType = scope.layout ? 'scenevar' : 'globalvar';
+  return (type, value) => {
+    if (type === variableType || type === 'variable') {
+      return getRootVariableName(value) === variableName;
+    }
+    return isExpressionParameter(gd, type) && expressionUsesVariable(value, variableName);
+  };
+}
+
+function isExpressionParameter(gd: GD, type: string): boolean {
+  return (
+    gd.ParameterMetadata.isExpression('number', type) ||
+    gd.ParameterMetadata.isExpression('string', type)
+  );
+}
+
+/**
+ * Get the name of the variable accessed by a variable parameter,
+ * e.g. `Inventory` for `Inventory.items[2]`.
+ */
+function getRootVariableName(value: string): string {
+  return value.split(/[.[]/)[0].trim();
+}
+
+/**
+ * Check if an expression uses an object, either as `Object.Function()`,
+ * `Object.Variable[...]`, or as a bare argument like `DistanceTo(Object)`.
+ * String literals are ignored.
+ */
+function expressionUsesObject(expression: string, objectName: string): boolean {
+  const name = escapeRegExp(objectName);
+  return new RegExp(
+    `(?<![\\w.])${name}(?=\\s*[.[])|(?<=[(,]\\s*)${name}(?=\\s*[,)])`
+  ).test(withoutStrings(expression));
+}
+
+/**
+ * Check if an expression uses a scene or global variable, either directly
+ * (`Score + 1`) or as an argument (`Variable(Score)`).
+ */
+function expressionUsesVariable(expression: string, variableName: string): boolean {
+  const name = escapeRegExp(variableName);
+  return new RegExp(`(?<![\\w.])${name}(?![\\w(])(?!\\s*\\()`).test(withoutStrings(expression));
+}
+
+/**
+ * Check if an expression uses an object variable, either directly
+ * (`Player.Health`) or as an argument (`Player.Variable(Health)`).
+ */
+function expressionUsesObjectVariable(
+  expression: string,
+  objectName: string,
+  variableName: string
+): boolean {
+  const object = escapeRegExp(objectName);
+  const name = escapeRegExp(variableName);
+  return new RegExp(
+    `(?<![\\w.])${object}\\s*\\.\\s*(?:${name}(?![\\w(])(?!\\s*\\()|` +
+      `\\w*Variable\\w*\\(\\s*${name}(?!\\w))`
+  ).test(withoutStrings(expression));
+}
+
+/**
+ * Check if an expression calls a function of a behavior (`Player.Platformer::Speed()`).
+ */
+function expressionUsesBehavior(
+  expression: string,
+  behaviorName: string,
+  objectName?: string
+): boolean {
+  const object = objectName ? `(?<![\\w.])${escapeRegExp(objectName)}` : '\\w+';
+  const name = escapeRegExp(behaviorName);
+  return new RegExp(`${object}\\s*\\.\\s*${name}\\s*::`).test(withoutStrings(expression));
+}
+
+function withoutStrings(expression: string): string {
+  return expression.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
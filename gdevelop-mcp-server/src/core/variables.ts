@@ -0,0 +1,415 @@
+import { z } from 'zod';
+import type { GD, GDProject, GDVariable, GDVariablesContainer } from '../types/gdcore.js';
+import type { VariableScope } from './usage-analysis.js';
+
+/**
+ * JSON representation of a variable value. Structures are objects and
+ * arrays are arrays, nested to any depth.
+ */
+export type VariableValue =
+  | number
+  | string
+  | boolean
+  | VariableValue[]
+  | { [name: string]: VariableValue };
+
+/**
+ * Schema of a variable value given as JSON by a tool.
+ */
+export const variableValueSchema: z.ZodType<VariableValue> = z.lazy(() =>
+  z.union([
+    z.number(),
+    z.string(),
+    z.boolean(),
+    z.array(variableValueSchema),
+    z.record(variableValueSchema),
+  ])
+);
+
+export const VARIABLE_TYPES = ['number', 'string', 'boolean', 'structure', 'array'] as const;
+
+export type VariableTypeName = (typeof VARIABLE_TYPES)[number];
+
+/**
+ * A segment of a variable path: a child name or an array index.
+ */
+export type VariablePathSegment = string | number;
+
+/**
+ * Get the type of a variable, as used by GDevelop ("number", "structure"...).
+ */
+export function getVariableType(gd: GD, variable: GDVariable): string {
+  return gd.Variable.typeAsString(variable.getType());
+}
+
+/**
+ * Read the value of a variable, including all children of structures and arrays.
+ */
+export function readVariable(gd: GD, variable: GDVariable): VariableValue {
+  switch (getVariableType(gd, variable)) {
+    case 'string':
+      return variable.getString();
+    case 'boolean':
+      return variable.getBool();
+    case 'structure': {
+      const value: { [name: string]: VariableValue } = {};
+      const names = variable.getAllChildrenNames();
+      for (let i = 0; i < names.size(); i++) {
+        const name = names.at(i);
+        value[name] = readVariable(gd, variable.getChild(name));
+      }
+      return value;
+    }
+    case 'array': {
+      const value: VariableValue[] = [];
+      for (let i = 0; i < variable.getChildrenCount(); i++) {
+        value.push(readVariable(gd, variable.getAtIndex(i)));
+      }
+      return value;
+    }
+    default:
+      return variable.getValue();
+  }
+}
+
+/**
+ * Read the values of all the variables of a container, by name.
+ */
+export function readVariables(
+  gd: GD,
+  container: GDVariablesContainer
+): Record<string, VariableValue> {
+  const values: Record<string, VariableValue> = {};
+  for (let i = 0; i < container.count(); i++) {
+    values[container.getNameAt(i)] = readVariable(gd, container.getAt(i));
+  }
+  return values;
+}
+
+/**
+ * Set the value of a variable from JSON, replacing its type and children.
+ * @param type Type to use instead of the one of the value: primitive values
+ *   are converted, and structures and arrays without a value start empty.
+ */
+export function writeVariable(
+  variable: GDVariable,
+  value: VariableValue | undefined,
+  type?: VariableTypeName
+): void {
+  const valueType = value === undefined ? undefined : getValueType(value);
+  const targetType = type ?? valueType ?? 'number';
+
+  // Primitive values can be converted, structures and arrays cannot
+  if (
+    valueType &&
+    valueType !== targetType &&
+    (isCollection(valueType) || isCollection(targetType))
+  ) {
+    throw new Error(`Cannot use a ${valueType} value for a ${targetType} variable`);
+  }
+
+  // Converted before the variable is changed, as the conversion can fail
+  const primitiveValue =
+    value === undefined || isCollection(targetType)
+      ? undefined
+      : convertPrimitiveValue(value, targetType);
+
+  variable.castTo(targetType);
+
+  if (typeof primitiveValue === 'number') {
+    variable.setValue(primitiveValue);
+  } else if (typeof primitiveValue === 'string') {
+    variable.setString(primitiveValue);
+  } else if (typeof primitiveValue === 'boolean') {
+    variable.setBool(primitiveValue);
+  }
+
+  switch (targetType) {
+    case 'structure':
+      variable.clearChildren();
+      for (const [name, child] of Object.entries(value ?? {})) {
+        writeVariable(variable.getChild(name), child);
+      }
+      break;
+    case 'array':
+      variable.clearChildren();
+      for (const child of (value ?? []) as VariableValue[]) {
+        writeVariable(variable.pushNew(), child);
+      }
+      break;
+  }
+}
+
+/**
+ * Convert a primitive value to another primitive type.
+ * @throws Error if the value has no meaning in this type, like "abc" for a number.
+ */
+export function convertPrimitiveValue(
+  value: VariableValue,
+  type: VariableTypeName
+): number | string | boolean {
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`Cannot convert ${JSON.stringify(value)} to a number`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'number') return value !== 0;
+      if (value === 'true' || value === 'false') return value === 'true';
+      throw new Error(`Cannot convert ${JSON.stringify(value)} to a boolean`);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Parse a variable path like `Inventory.items[2].name` or `Stats["max hp"]`.
+ * The first segment is the name of the variable in its container.
+ */
+export function parseVariablePath(path: string): VariablePathSegment[] {
+  const segments: VariablePathSegment[] = [];
+  const pattern = /\.?([^.[\]"]+)|\[(\d+)\]|\["([^"]*)"\]/y;
+  const trimmed = path.trim();
+
+  while (pattern.lastIndex < trimmed.length) {
+    const isRoot = segments.length === 0;
+    const match = pattern.exec(trimmed);
+
+    // The root is a plain name, children names are preceded by a dot
+    if (!match || (match[1] === undefined ? isRoot : isRoot === match[0].startsWith('.'))) {
+      throw new Error(`Invalid variable path "${path}"`);
+    }
+
+    if (match[1] !== undefined) {
+      segments.push(match[1].trim());
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[3]);
+    }
+  }
+
+  if (segments.length === 0) {
+    throw new Error('Variable path is empty');
+  }
+  return segments;
+}
+
+/**
+ * Get the variable at a path.
+ * @throws Error if the variable or one of its parents does not exist.
+ */
+export function getVariableAtPath(
+  gd: GD,
+  container: GDVariablesContainer,
+  path: string
+): GDVariable {
+  const [name, ...children] = parseVariablePath(path);
+  if (!container.has(String(name))) {
+    throw new Error(`Variable "${name}" not found`);
+  }
+
+  let variable = container.get(String(name));
+  for (const segment of children) {
+    variable = getChild(gd, variable, segment, false, path);
+  }
+  return variable;
+}
+
+/**
+ * Set the value of the variable at a path. Missing variables are created,
+ * as structures or arrays for the parents of the path. If the value can't be
+ * set, the variables created are removed.
+ * @returns True if the variable at the path was created.
+ */
+export function setVariableAtPath(
+  gd: GD,
+  container: GDVariablesContainer,
+  path: string,
+  value: VariableValue,
+  type?: VariableTypeName
+): boolean {
+  const segments = parseVariablePath(path);
+  const name = String(segments[0]);
+  let created = !container.has(name);
+  let variable = created ? container.insertNew(name, container.count()) : container.get(name);
+  // Removes the first variable created by this call, with the ones created in it
+  let removeCreated = created ? () => container.remove(name) : undefined;
+
+  try {
+    for (let i = 1; i < segments.length; i++) {
+      const segment = segments[i];
+      const collectionType = collectionTypeOf(segment);
+      const parentType = getVariableType(gd, variable);
+      if (parentType !== collectionType) {
+        if (!created) {
+          throw new Error(
+            `Variable "${formatPath(segments.slice(0, i))}" is a ${parentType}, ` +
+              `not a ${collectionType}`
+          );
+        }
+        variable.castTo(collectionType);
+      }
+
+      const parent = variable;
+      created = !hasChild(parent, segment);
+      variable = getChild(gd, parent, segment, true, path);
+      if (created && !removeCreated) {
+        removeCreated = () =>
+          typeof segment === 'number' ? parent.removeAtIndex(segment) : parent.removeChild(segment);
+      }
+    }
+
+    writeVariable(variable, value, type);
+  } catch (error) {
+    removeCreated?.();
+    throw error;
+  }
+  return created;
+}
+
+/**
+ * Remove the variable at a path: a variable of the container, a child of a
+ * structure or an element of an array.
+ */
+export function removeVariableAtPath(
+  gd: GD,
+  container: GDVariablesContainer,
+  path: string
+): void {
+  const segments = parseVariablePath(path);
+  if (segments.length === 1) {
+    if (!container.has(String(segments[0]))) {
+      throw new Error(`Variable "${segments[0]}" not found`);
+    }
+    container.remove(String(segments[0]));
+    return;
+  }
+
+  const parent = getVariableAtPath(gd, container, formatPath(segments.slice(0, -1)));
+  const last = segments[segments.length - 1];
+  if (!hasChild(parent, last) || getVariableType(gd, parent) !== collectionTypeOf(last)) {
+    throw new Error(`Variable "${path}" not found`);
+  }
+
+  if (typeof last === 'number') {
+    parent.removeAtIndex(last);
+  } else {
+    parent.removeChild(last);
+  }
+}
+
+/**
+ * Rename a variable and rewrite the expressions and variable parameters using it
+ * in the whole project, as well as the instance values of an object variable.
+ * @param scope Scope of the container: a layout for scene variables, a layout and
+ *   an object name for object variables, or nothing for global variables.
+ */
+export function renameVariable(
+  gd: GD,
+  project: GDProject,
+  container: GDVariablesContainer,
+  oldName: string,
+  newName: string,
+  scope: VariableScope
+): void {
+  // The changeset matches variables before and after the rename by their UUID
+  container.resetPersistentUuid();
+  const originalSerializedVariables = new gd.SerializerElement();
+  container.serializeTo(originalSerializedVariables);
+
+  container.rename(oldName, newName);
+  const changeset = gd.WholeProjectRefactorer.computeChangesetForVariablesContainer(
+    originalSerializedVariables,
+    container
+  );
+
+  if (scope.layout && scope.objectName) {
+    gd.WholeProjectRefactorer.applyRefactoringForObjectVariablesContainer(
+      project,
+      container,
+      scope.layout.getInitialInstances(),
+      scope.objectName,
+      changeset,
+      originalSerializedVariables
+    );
+  } else {
+    gd.WholeProjectRefactorer.applyRefactoringForVariablesContainer(
+      project,
+      container,
+      changeset,
+      originalSerializedVariables
+    );
+  }
+
+  container.clearPersistentUuid();
+  changeset.delete();
+  originalSerializedVariables.delete();
+}
+
+/**
+ * Format path segments back to a path like `Inventory.items[2]`.
+ */
+export function formatPath(segments: VariablePathSegment[]): string {
+  return segments
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      if (/[.[\]"]/.test(segment)) return `["${segment}"]`;
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+}
+
+function getChild(
+  gd: GD,
+  variable: GDVariable,
+  segment: VariablePathSegment,
+  create: boolean,
+  path: string
+): GDVariable {
+  const type = getVariableType(gd, variable);
+  if (type !== collectionTypeOf(segment)) {
+    throw new Error(`Variable path "${path}": cannot access ${formatSegment(segment)} of a ${type}`);
+  }
+
+  if (typeof segment === 'number') {
+    const count = variable.getChildrenCount();
+    if (segment < count) return variable.getAtIndex(segment);
+    if (create && segment === count) return variable.pushNew();
+    throw new Error(`Variable path "${path}": index ${segment} out of bounds (${count} elements)`);
+  }
+
+  if (!create && !variable.hasChild(segment)) {
+    throw new Error(`Variable path "${path}": no child named "${segment}"`);
+  }
+  // Children of structures are created when accessed
+  return variable.getChild(segment);
+}
+
+function hasChild(variable: GDVariable, segment: VariablePathSegment): boolean {
+  return typeof segment === 'number'
+    ? segment < variable.getChildrenCount()
+    : variable.hasChild(segment);
+}
+
+function collectionTypeOf(segment: VariablePathSegment): 'array' | 'structure' {
+  return typeof segment === 'number' ? 'array' : 'structure';
+}
+
+function formatSegment(segment: VariablePathSegment): string {
+  return typeof segment === 'number' ? `index ${segment}` : `child "${segment}"`;
+}
+
+function getValueType(value: VariableValue): VariableTypeName {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object' && value !== null) return 'structure';
+  return typeof value as 'number' | 'string' | 'boolean';
+}
+
+function isCollection(type: VariableTypeName): boolean {
+  return type === 'structure' || type === 'array';
+}
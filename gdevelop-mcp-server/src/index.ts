@@ -5,17 +5,74 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 import { GDCoreManager, getGDCoreManager } from './core/gdcore-manager.js';
 import { ProjectManager } from './core/project-manager.js';
+import type { ProjectSession } from './core/project-session.js';
+import { findObjectTypeMetadata } from './core/metadata-catalog.js';
+import {
+  findObjectReferences,
+  findSceneReferences,
+  findVariableReferences,
+  removeObjectReferences,
+  removeSceneReferences,
+  removeVariableReferences,
+  countReferences,
+  formatReferences,
+  type ObjectScope,
+  type Reference,
+  type VariableScope,
+} from './core/usage-analysis.js';
+import {
+  getVariableType,
+  readVariable,
+  writeVariable,
+  parseVariablePath,
+  formatPath,
+  getVariableAtPath,
+  setVariableAtPath,
+  removeVariableAtPath,
+  renameVariable,
+  variableValueSchema,
+  VARIABLE_TYPES,
+} from './core/variables.js';
 import { createLogger } from './logger.js';
-import { registerAllAdditionalTools } from './tools/index.js';
+import { registerAllAdditionalTools, recordToolRegistrations } from './tools/index.js';
 import { registerAllResources } from './resources/index.js';
 import { registerAllPrompts } from './prompts/index.js';
+import type { GDEventsList, GDObjectsContainer, GDVariablesContainer } from './types/gdcore.js';
 
 const serverLogger = createLogger('server');
 
+const VARIABLE_SCOPES = ['global', 'scene', 'object', 'instance'] as const;
+type VariableScopeName = (typeof VARIABLE_SCOPES)[number];
+
 // Global instances
 let gdcoreManager: GDCoreManager;
 let projectManager: ProjectManager;
 
+/**
+ * Count events in a list, including all nested sub-events.
+ */
+function countEvents(list: GDEventsList): number {
+  let count = 0;
+  for (let i = 0; i < list.getEventsCount(); i++) {
+    const event = list.getEventAt(i);
+    count++;
+    if (event.canHaveSubEvents()) {
+      count += countEvents(event.getSubEvents());
+    }
+  }
+  return count;
+}
+
+/**
+ * Refuse to delete a used entity, listing where it is used.
+ */
+function refuseDeletion(entity: string, references: Reference[]): never {
+  throw new Error(
+    `${entity} is used in ${references.length} place(s):\n${formatReferences(references)}\n` +
+      'Pass force: true to delete it and remove these references.'
+  );
+}
+
 /**
  * Register all project management tools.
  */
@@ -252,7 +309,7 @@ function registerProjectTools(server: McpServer) {
       }
 
       if (updated.length > 0) {
-        session.markDirty();
+        session.markDirty('Update project settings');
       }
 
       return {
@@ -377,13 +434,29 @@ function registerSceneTools(server: McpServer) {
   // gdevelop_scene_delete
   server.tool(
     'gdevelop_scene_delete',
-    'Delete a scene from the project',
+    'Delete a scene from the project. Refuses if the scene is used, unless force is set',
     {
       sessionId: z.string(),
       sceneName: z.string().describe('Name of the scene to delete'),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Delete even if used, also removing the scene change actions targeting ' +
+          'the scene and unsetting it as first scene or associated scene'),
     },
-    async ({ sessionId, sceneName }) => {
+    async ({ sessionId, sceneName, force }) => {
       const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      if (!session.hasLayout(sceneName)) {
+        throw new Error(`Layout "${sceneName}" not found`);
+      }
+
+      const references = findSceneReferences(session.gd, project, sceneName);
+      if (references.length > 0 && !force) {
+        refuseDeletion(`Scene "${sceneName}"`, references);
+      }
+
+      removeSceneReferences(session.gd, project, sceneName);
       session.deleteLayout(sceneName);
 
       return {
@@ -393,6 +466,7 @@ function registerSceneTools(server: McpServer) {
             text: JSON.stringify({
               success: true,
               deletedScene: sceneName,
+              referencesRemoved: references.length,
             }),
           },
         ],
@@ -431,7 +505,7 @@ function registerSceneTools(server: McpServer) {
   // gdevelop_scene_duplicate
   server.tool(
     'gdevelop_scene_duplicate',
-    'Create a copy of an existing scene',
+    'Create a full copy of an existing scene, including its objects, layers, instances, variables and events',
     {
       sessionId: z.string(),
       sourceName: z.string(),
@@ -447,20 +521,7 @@ function registerSceneTools(server: McpServer) {
         throw new Error(`Scene "${newName}" already exists`);
       }
 
-      // Get source layout data by serializing
-      const sourceLayout = session.getLayout(sourceName);
-
-      // Create new layout
-      const newLayout = session.createLayout(newName);
-
-      // Copy properties
-      const r = sourceLayout.getBackgroundColorRed();
-      const g = sourceLayout.getBackgroundColorGreen();
-      const b = sourceLayout.getBackgroundColorBlue();
-      newLayout.setBackgroundColor(r, g, b);
-
-      // Note: Full duplication would require deep copying objects, instances, events, etc.
-      // This is a simplified version
+      const newLayout = session.duplicateLayout(sourceName, newName);
 
       return {
         content: [
@@ -469,8 +530,12 @@ function registerSceneTools(server: McpServer) {
             text: JSON.stringify({
               success: true,
               newSceneName: newName,
-              objectsCopied: 0, // Would need full implementation
-              instancesCopied: 0,
+              objectsCopied: newLayout.getObjects().getObjectsCount(),
+              objectGroupsCopied: newLayout.getObjectGroups().count(),
+              layersCopied: newLayout.getLayersCount(),
+              instancesCopied: newLayout.getInitialInstances().getInstancesCount(),
+              variablesCopied: newLayout.getVariables().count(),
+              eventsCopied: countEvents(newLayout.getEvents()),
             }),
           },
         ],
@@ -577,6 +642,13 @@ function registerObjectTools(server: McpServer) {
     },
     async ({ sessionId, name, type, sceneName }) => {
       const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+
+      if (!findObjectTypeMetadata(session.gd, project.getCurrentPlatform(), type)) {
+        throw new Error(
+          `Unknown object type "${type}". See the gdevelop://catalog/objects resource for available types`
+        );
+      }
 
       let object;
       if (sceneName) {
@@ -590,7 +662,7 @@ function registerObjectTools(server: McpServer) {
         object = session.createGlobalObject(name, type);
       }
 
-      session.markDirty();
+      session.markDirty(`Create object "${name}"`);
 
       return {
         content: [
@@ -611,45 +683,45 @@ function registerObjectTools(server: McpServer) {
   // gdevelop_object_delete
   server.tool(
     'gdevelop_object_delete',
-    'Delete an object from a scene or globally',
+    'Delete an object from a scene or globally. Refuses if the object is used, ' +
+      'unless force is set',
     {
       sessionId: z.string(),
       objectName: z.string(),
       sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
-      removeInstances: z.boolean().default(true).describe('Also remove all instances of this object'),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Delete even if used, also removing the instructions, "For each object" ' +
+          'events, instances and group memberships using the object'),
     },
-    async ({ sessionId, objectName, sceneName, removeInstances }) => {
+    async ({ sessionId, objectName, sceneName, force }) => {
       const session = projectManager.getSession(sessionId);
-      let instancesRemoved = 0;
+      const project = session.getProject();
+      const layout = sceneName ? session.getLayout(sceneName) : undefined;
 
-      if (sceneName) {
-        const layout = session.getLayout(sceneName);
-        if (!layout.hasObjectNamed(objectName)) {
-          throw new Error(`Object "${objectName}" not found in scene "${sceneName}"`);
-        }
+      if (layout && !layout.hasObjectNamed(objectName)) {
+        throw new Error(`Object "${objectName}" not found in scene "${sceneName}"`);
+      }
+      if (!layout && !session.hasGlobalObject(objectName)) {
+        throw new Error(`Global object "${objectName}" not found`);
+      }
 
-        if (removeInstances) {
-          const instances = layout.getInitialInstances();
-          instances.removeInitialInstancesOfObject(objectName);
-          // Note: Would need to count instances before removal
-        }
+      const references = findObjectReferences(session.gd, project, objectName, { layout });
+      if (references.length > 0 && !force) {
+        refuseDeletion(`Object "${objectName}"`, references);
+      }
 
+      removeObjectReferences(session.gd, project, objectName, layout);
+      if (layout) {
         layout.removeObject(objectName);
       } else {
         session.deleteGlobalObject(objectName);
-
-        // Remove instances from all scenes
-        if (removeInstances) {
-          const project = session.getProject();
-          for (let i = 0; i < project.getLayoutsCount(); i++) {
-            const layout = project.getLayoutAt(i);
-            layout.getInitialInstances().removeInitialInstancesOfObject(objectName);
-          }
-        }
       }
 
-      session.markDirty();
+      session.markDirty(`Delete object "${objectName}"`);
 
+      const counts = countReferences(references);
       return {
         content: [
           {
@@ -657,7 +729,8 @@ function registerObjectTools(server: McpServer) {
             text: JSON.stringify({
               success: true,
               deletedObject: objectName,
-              instancesRemoved,
+              instancesRemoved: counts.instance,
+              referencesRemoved: counts.total,
             }),
           },
         ],
@@ -668,21 +741,44 @@ function registerObjectTools(server: McpServer) {
   // gdevelop_object_rename
   server.tool(
     'gdevelop_object_rename',
-    'Rename an object (updates all references)',
+    'Rename an object and rewrite its references in events, external events, groups, ' +
+      'instances and external layouts (all scenes for a global object)',
     {
       sessionId: z.string(),
       currentName: z.string(),
       newName: z.string(),
       sceneName: z.string().optional(),
+      customObject: z
+        .object({ extensionName: z.string(), objectName: z.string() })
+        .optional()
+        .describe('Rename a child object of a custom object, in its extension functions'),
     },
-    async ({ sessionId, currentName, newName, sceneName }) => {
+    async ({ sessionId, currentName, newName, sceneName, customObject }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
-
-      // Get the object
-      const container = sceneName
-        ? session.getLayout(sceneName).getObjects()
-        : session.getGlobalObjects();
+      const gd = session.gd;
+
+      let scope: ObjectScope = {};
+      let container: GDObjectsContainer;
+      if (customObject) {
+        const { extensionName, objectName } = customObject;
+        if (!project.hasEventsFunctionsExtensionNamed(extensionName)) {
+          throw new Error(`Extension "${extensionName}" not found`);
+        }
+        const extension = project.getEventsFunctionsExtension(extensionName);
+        if (!extension.getEventsBasedObjects().has(objectName)) {
+          throw new Error(`Custom object "${objectName}" not found in "${extensionName}"`);
+        }
+        const object = extension.getEventsBasedObjects().get(objectName);
+        scope = { eventsBasedObject: { extension, object } };
+        container = object.getObjects();
+      } else if (sceneName) {
+        const layout = session.getLayout(sceneName);
+        scope = { layout };
+        container = layout.getObjects();
+      } else {
+        container = session.getGlobalObjects();
+      }
 
       if (!container.hasObjectNamed(currentName)) {
         throw new Error(`Object "${currentName}" not found`);
@@ -691,18 +787,46 @@ function registerObjectTools(server: McpServer) {
         throw new Error(`Object "${newName}" already exists`);
       }
 
-      const obj = container.getObject(currentName);
-      obj.setName(newName);
-
-      // Update instance references in all layouts
-      let referencesUpdated = 0;
-      for (let i = 0; i < project.getLayoutsCount(); i++) {
-        const layout = project.getLayoutAt(i);
-        layout.getInitialInstances().renameInstancesOfObject(currentName, newName);
-        referencesUpdated++;
+      // References to the new name that already exist are not counted as rewritten
+      const before = countReferences(findObjectReferences(gd, project, newName, scope));
+
+      if (scope.eventsBasedObject) {
+        const { extension, object } = scope.eventsBasedObject;
+        const outputObjects = new gd.ObjectsContainer(gd.ObjectsContainer.Function);
+        const projectScopedContainers =
+          gd.ProjectScopedContainers.makeNewProjectScopedContainersForEventsBasedObject(
+            project,
+            extension,
+            object,
+            outputObjects
+          );
+        gd.WholeProjectRefactorer.objectOrGroupRenamedInEventsBasedObject(
+          project,
+          projectScopedContainers,
+          object,
+          currentName,
+          newName,
+          false
+        );
+        projectScopedContainers.delete();
+        outputObjects.delete();
+      } else if (scope.layout) {
+        gd.WholeProjectRefactorer.objectOrGroupRenamedInScene(
+          project,
+          scope.layout,
+          currentName,
+          newName,
+          false
+        );
+      } else {
+        gd.WholeProjectRefactorer.globalObjectOrGroupRenamed(project, currentName, newName, false);
       }
+      container.getObject(currentName).setName(newName);
+
+      const after = countReferences(findObjectReferences(gd, project, newName, scope));
+      const remaining = findObjectReferences(gd, project, currentName, scope);
 
-      session.markDirty();
+      session.markDirty(`Rename object "${currentName}" to "${newName}"`);
 
       return {
         content: [
@@ -712,7 +836,14 @@ function registerObjectTools(server: McpServer) {
               success: true,
               oldName: currentName,
               newName,
-              referencesUpdated,
+              referencesUpdated: after.total - before.total,
+              rewritten: {
+                instructions: after.instruction - before.instruction,
+                forEachEvents: after.forEach - before.forEach,
+                instances: after.instance - before.instance,
+                groups: after.group - before.group,
+              },
+              ...(remaining.length > 0 ? { remainingReferences: remaining } : {}),
             }),
           },
         ],
@@ -721,58 +852,124 @@ function registerObjectTools(server: McpServer) {
   );
 }
 
+/**
+ * Get the variables container of a scope, with the scope to search for references
+ * to its variables. Instances have no such scope: their variables only override
+ * the values of the variables of their object, which are also returned.
+ */
+function getVariablesContainer(
+  session: ProjectSession,
+  scope: VariableScopeName,
+  sceneName?: string,
+  objectName?: string,
+  instanceId?: string
+): {
+  container: GDVariablesContainer;
+  variableScope?: VariableScope;
+  objectVariables?: GDVariablesContainer;
+  instanceObjectName?: string;
+} {
+  if (scope === 'global') {
+    return { container: session.getGlobalVariables(), variableScope: {} };
+  }
+  if (!sceneName) throw new Error(`sceneName required for ${scope} scope`);
+  const layout = session.getLayout(sceneName);
+
+  if (scope === 'scene') {
+    return { container: layout.getVariables(), variableScope: { layout } };
+  }
+  if (scope === 'object') {
+    if (!objectName) throw new Error('objectName required for object scope');
+    const obj = layout.getObject(objectName);
+    return { container: obj.getVariables(), variableScope: { layout, objectName } };
+  }
+
+  if (!instanceId) throw new Error('instanceId required for instance scope');
+  const instance = session.getInstance(sceneName, instanceId);
+  const instanceObjectName = instance.getObjectName();
+  const obj = layout.hasObjectNamed(instanceObjectName)
+    ? layout.getObject(instanceObjectName)
+    : session.getGlobalObject(instanceObjectName);
+  return {
+    container: instance.getVariables(),
+    objectVariables: obj.getVariables(),
+    instanceObjectName,
+  };
+}
+
+/**
+ * Check that an instance variable is declared by the object of the instance:
+ * instances can only override the variables of their object.
+ * Does nothing for other scopes.
+ */
+function checkObjectVariable(
+  objectVariables: GDVariablesContainer | undefined,
+  objectName: string | undefined,
+  name: string
+): void {
+  if (objectVariables && !objectVariables.has(name)) {
+    throw new Error(`Object "${objectName}" has no variable "${name}"`);
+  }
+}
+
+/**
+ * Start overriding an object variable for an instance, from the value of the
+ * object variable. Does nothing if it's already overridden or for other scopes.
+ * @returns True if the override was created, to be removed if the change fails.
+ */
+function overrideObjectVariable(
+  container: GDVariablesContainer,
+  objectVariables: GDVariablesContainer | undefined,
+  objectName: string | undefined,
+  name: string
+): boolean {
+  if (!objectVariables || container.has(name)) return false;
+
+  checkObjectVariable(objectVariables, objectName, name);
+  container.insert(name, objectVariables.get(name), container.count());
+  return true;
+}
+
 /**
  * Register variable management tools.
  */
 function registerVariableTools(server: McpServer) {
+  const scopeParams = {
+    sessionId: z.string(),
+    scope: z.enum(VARIABLE_SCOPES),
+    sceneName: z.string().optional().describe('Required for scene, object and instance scopes'),
+    objectName: z.string().optional().describe('Required for object scope'),
+    instanceId: z
+      .string()
+      .optional()
+      .describe('Required for instance scope, as returned by gdevelop_instance_list'),
+  };
+
   // gdevelop_variable_list
   server.tool(
     'gdevelop_variable_list',
-    'List variables (global, scene, or object)',
-    {
-      sessionId: z.string(),
-      scope: z.enum(['global', 'scene', 'object']),
-      sceneName: z.string().optional().describe('Required for scene/object scope'),
-      objectName: z.string().optional().describe('Required for object scope'),
-    },
-    async ({ sessionId, scope, sceneName, objectName }) => {
+    'List variables (global, scene, object or instance overrides) with the values of ' +
+      'their children for structures and arrays',
+    scopeParams,
+    async ({ sessionId, scope, sceneName, objectName, instanceId }) => {
       const session = projectManager.getSession(sessionId);
-      let container;
-
-      if (scope === 'global') {
-        container = session.getGlobalVariables();
-      } else if (scope === 'scene') {
-        if (!sceneName) throw new Error('sceneName required for scene scope');
-        container = session.getLayout(sceneName).getVariables();
-      } else {
-        if (!sceneName || !objectName) {
-          throw new Error('sceneName and objectName required for object scope');
-        }
-        const layout = session.getLayout(sceneName);
-        const obj = layout.getObject(objectName);
-        container = obj.getVariables();
-      }
+      const { container } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
 
       const variables: object[] = [];
       const count = container.count();
 
       for (let i = 0; i < count; i++) {
-        const name = container.getNameAt(i);
-        const variable = container.get(name);
-        const type = variable.getType();
-
-        let value: unknown;
-        switch (type) {
-          case 0: value = variable.getValue(); break; // number
-          case 1: value = variable.getString(); break; // string
-          case 4: value = variable.getBool(); break; // boolean
-          default: value = null; // structure/array
-        }
-
+        const variable = container.getAt(i);
         variables.push({
-          name,
-          type: ['number', 'string', 'structure', 'array', 'boolean'][type] || 'unknown',
-          value,
+          name: container.getNameAt(i),
+          type: getVariableType(session.gd, variable),
+          value: readVariable(session.gd, variable),
         });
       }
 
@@ -785,105 +982,338 @@ function registerVariableTools(server: McpServer) {
   // gdevelop_variable_create
   server.tool(
     'gdevelop_variable_create',
-    'Create a new variable',
+    'Create a new variable. Structures and arrays can be created with all their ' +
+      'children from a JSON value',
     {
-      sessionId: z.string(),
-      scope: z.enum(['global', 'scene', 'object']),
-      sceneName: z.string().optional(),
-      objectName: z.string().optional(),
+      ...scopeParams,
       name: z.string(),
-      type: z.enum(['number', 'string', 'boolean']).default('number'),
-      value: z.union([z.number(), z.string(), z.boolean()]).optional(),
+      type: z
+        .enum(VARIABLE_TYPES)
+        .optional()
+        .describe('Defaults to the type of the value, or number without value'),
+      value: variableValueSchema.optional(),
     },
-    async ({ sessionId, scope, sceneName, objectName, name, type, value }) => {
+    async ({ sessionId, scope, sceneName, objectName, instanceId, name, type, value }) => {
       const session = projectManager.getSession(sessionId);
-      let container;
-
-      if (scope === 'global') {
-        container = session.getGlobalVariables();
-      } else if (scope === 'scene') {
-        if (!sceneName) throw new Error('sceneName required for scene scope');
-        container = session.getLayout(sceneName).getVariables();
-      } else {
-        if (!sceneName || !objectName) {
-          throw new Error('sceneName and objectName required for object scope');
-        }
-        const layout = session.getLayout(sceneName);
-        const obj = layout.getObject(objectName);
-        container = obj.getVariables();
-      }
+      const { container, objectVariables, instanceObjectName } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
 
       if (container.has(name)) {
         throw new Error(`Variable "${name}" already exists`);
       }
+      checkObjectVariable(objectVariables, instanceObjectName, name);
 
       const variable = container.insertNew(name, container.count());
+      try {
+        writeVariable(variable, value, type);
+      } catch (error) {
+        container.remove(name);
+        throw error;
+      }
+
+      session.markDirty(`Create variable "${name}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              variableName: name,
+              type: getVariableType(session.gd, variable),
+            }),
+          },
+        ],
+      };
+    }
+  );
 
-      if (value !== undefined) {
-        switch (type) {
-          case 'number':
-            variable.setValue(value as number);
-            break;
-          case 'string':
-            variable.setString(value as string);
-            break;
-          case 'boolean':
-            variable.setBool(value as boolean);
-            break;
+  // gdevelop_variable_update
+  server.tool(
+    'gdevelop_variable_update',
+    'Change the value and/or type of an existing variable in place. Changing only the ' +
+      'type converts the current value. For instances, overrides the object variable',
+    {
+      ...scopeParams,
+      name: z.string(),
+      type: z.enum(VARIABLE_TYPES).optional(),
+      value: variableValueSchema
+        .optional()
+        .describe('New value, replacing all children of structures and arrays'),
+    },
+    async ({ sessionId, scope, sceneName, objectName, instanceId, name, type, value }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const { container, objectVariables, instanceObjectName } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
+
+      if (type === undefined && value === undefined) {
+        throw new Error('Must specify a type or a value');
+      }
+      const overridden = overrideObjectVariable(
+        container,
+        objectVariables,
+        instanceObjectName,
+        name
+      );
+      if (!container.has(name)) {
+        throw new Error(`Variable "${name}" not found`);
+      }
+
+      const variable = container.get(name);
+      const previousType = getVariableType(gd, variable);
+      try {
+        if (value === undefined) {
+          variable.castTo(type!);
+        } else {
+          writeVariable(variable, value, type);
         }
+      } catch (error) {
+        if (overridden) container.remove(name);
+        throw error;
       }
 
-      session.markDirty();
+      session.markDirty(`Update variable "${name}"`);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ success: true, variableName: name }),
+            text: JSON.stringify({
+              success: true,
+              variableName: name,
+              previousType,
+              type: getVariableType(gd, variable),
+              value: readVariable(gd, variable),
+            }),
           },
         ],
       };
     }
   );
 
-  // gdevelop_variable_delete
+  // gdevelop_variable_rename
   server.tool(
-    'gdevelop_variable_delete',
-    'Delete a variable',
+    'gdevelop_variable_rename',
+    'Rename a global, scene or object variable and rewrite the expressions and variable ' +
+      'parameters using it in events, and the values set by instances of the object',
     {
       sessionId: z.string(),
       scope: z.enum(['global', 'scene', 'object']),
-      sceneName: z.string().optional(),
-      objectName: z.string().optional(),
-      name: z.string(),
+      sceneName: z.string().optional().describe('Required for scene and object scopes'),
+      objectName: z.string().optional().describe('Required for object scope'),
+      currentName: z.string(),
+      newName: z.string(),
     },
-    async ({ sessionId, scope, sceneName, objectName, name }) => {
+    async ({ sessionId, scope, sceneName, objectName, currentName, newName }) => {
       const session = projectManager.getSession(sessionId);
-      let container;
+      const project = session.getProject();
+      const gd = session.gd;
+      const { container, variableScope = {} } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName
+      );
+
+      if (!container.has(currentName)) {
+        throw new Error(`Variable "${currentName}" not found`);
+      }
+      if (container.has(newName)) {
+        throw new Error(`Variable "${newName}" already exists`);
+      }
 
-      if (scope === 'global') {
-        container = session.getGlobalVariables();
-      } else if (scope === 'scene') {
-        if (!sceneName) throw new Error('sceneName required for scene scope');
-        container = session.getLayout(sceneName).getVariables();
-      } else {
-        if (!sceneName || !objectName) {
-          throw new Error('sceneName and objectName required for object scope');
-        }
-        const layout = session.getLayout(sceneName);
-        const obj = layout.getObject(objectName);
-        container = obj.getVariables();
+      // References to the new name that already exist are not counted as rewritten
+      const before = countReferences(findVariableReferences(gd, project, newName, variableScope));
+      renameVariable(gd, project, container, currentName, newName, variableScope);
+      const after = countReferences(findVariableReferences(gd, project, newName, variableScope));
+      const remaining = findVariableReferences(gd, project, currentName, variableScope);
+
+      session.markDirty(`Rename variable "${currentName}" to "${newName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              oldName: currentName,
+              newName,
+              referencesUpdated: after.total - before.total,
+              rewritten: {
+                instructions: after.instruction - before.instruction,
+                instances: after.instance - before.instance,
+              },
+              ...(remaining.length > 0 ? { remainingReferences: remaining } : {}),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_variable_child_set
+  server.tool(
+    'gdevelop_variable_child_set',
+    'Set a variable or a child of a structure or array, at a path like ' +
+      '"Inventory.items[2].name". Missing children and parents are created, and an index ' +
+      'equal to the array length appends an element',
+    {
+      ...scopeParams,
+      path: z.string().describe('Variable path, like "Stats.hp", "Items[0]" or \'Stats["max hp"]\''),
+      value: variableValueSchema,
+      type: z
+        .enum(VARIABLE_TYPES)
+        .optional()
+        .describe('Convert the value to this type (defaults to the type of the value)'),
+    },
+    async ({ sessionId, scope, sceneName, objectName, instanceId, path, value, type }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const { container, objectVariables, instanceObjectName } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
+
+      const [name, ...children] = parseVariablePath(path);
+      checkObjectVariable(objectVariables, instanceObjectName, String(name));
+      const overridden =
+        children.length > 0 &&
+        overrideObjectVariable(container, objectVariables, instanceObjectName, String(name));
+
+      let created: boolean;
+      try {
+        created = setVariableAtPath(gd, container, path, value, type);
+      } catch (error) {
+        if (overridden) container.remove(String(name));
+        throw error;
       }
+      session.markDirty(`Set variable "${path}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              path,
+              created,
+              value: readVariable(gd, getVariableAtPath(gd, container, path)),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_variable_child_remove
+  server.tool(
+    'gdevelop_variable_child_remove',
+    'Remove a child of a structure or an element of an array, at a path like ' +
+      '"Inventory.items[2]". Following array elements are shifted',
+    {
+      ...scopeParams,
+      path: z.string(),
+    },
+    async ({ sessionId, scope, sceneName, objectName, instanceId, path }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const { container } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
+
+      const segments = parseVariablePath(path);
+      if (segments.length === 1) {
+        throw new Error(
+          `"${path}" is not a child variable, use gdevelop_variable_delete to delete it`
+        );
+      }
+
+      removeVariableAtPath(gd, container, path);
+      session.markDirty(`Remove variable "${path}"`);
+
+      const parentPath = formatPath(segments.slice(0, -1));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              path,
+              parent: readVariable(gd, getVariableAtPath(gd, container, parentPath)),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_variable_delete
+  server.tool(
+    'gdevelop_variable_delete',
+    'Delete a variable. Refuses if the variable is used, unless force is set. ' +
+      'For instances, removes the override of the object variable',
+    {
+      ...scopeParams,
+      name: z.string(),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Delete even if used, also removing the instructions using the variable ' +
+          'and the values set by instances'),
+    },
+    async ({ sessionId, scope, sceneName, objectName, instanceId, name, force }) => {
+      const session = projectManager.getSession(sessionId);
+      const { container, variableScope } = getVariablesContainer(
+        session,
+        scope,
+        sceneName,
+        objectName,
+        instanceId
+      );
 
       if (!container.has(name)) {
         throw new Error(`Variable "${name}" not found`);
       }
 
+      const project = session.getProject();
+      const references = variableScope
+        ? findVariableReferences(session.gd, project, name, variableScope)
+        : [];
+      if (references.length > 0 && !force) {
+        refuseDeletion(`Variable "${name}"`, references);
+      }
+
+      if (variableScope) {
+        removeVariableReferences(session.gd, project, name, variableScope);
+      }
       container.remove(name);
-      session.markDirty();
+      session.markDirty(`Delete variable "${name}"`);
 
       return {
-        content: [{ type: 'text', text: JSON.stringify({ success: true }) }],
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, referencesRemoved: references.length }),
+          },
+        ],
       };
     }
   );
@@ -915,7 +1345,8 @@ async function main() {
     version: '1.0.0',
   });
 
-  // Register all tools
+  // Register all tools (recorded so gdevelop_transaction can replay them)
+  recordToolRegistrations(server);
   registerProjectTools(server);
   registerSceneTools(server);
   registerObjectTools(server);
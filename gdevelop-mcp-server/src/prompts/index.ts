@@ -41,6 +41,7 @@ export function registerAllPrompts(server: McpServer) {
    - ${playerName} at (200, 300)
    - Platform instances to form a basic level floor at y=500
 
+Run steps 2 to 7 as a single gdevelop_transaction so that a failing step leaves the project unchanged.
 Please execute these steps using the available tools and report the results.`,
           },
         },
@@ -1,50 +1,7 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ProjectManager } from '../core/project-manager.js';
-
-// Common behavior types catalog
-const BEHAVIOR_CATALOG = [
-  {
-    type: 'PlatformBehavior::PlatformerObjectBehavior',
-    name: 'Platformer Character',
-    description: 'Makes an object move like a platformer character',
-  },
-  {
-    type: 'PlatformBehavior::PlatformBehavior',
-    name: 'Platform',
-    description: 'Makes an object act as a platform',
-  },
-  {
-    type: 'TopDownMovementBehavior::TopDownMovementBehavior',
-    name: 'Top-Down Movement',
-    description: '4 or 8 direction movement',
-  },
-  {
-    type: 'DraggableBehavior::Draggable',
-    name: 'Draggable',
-    description: 'Makes an object draggable with mouse/touch',
-  },
-  {
-    type: 'DestroyOutsideBehavior::DestroyOutside',
-    name: 'Destroy when outside screen',
-    description: 'Destroys object when it leaves the screen',
-  },
-  {
-    type: 'Physics2::Physics2Behavior',
-    name: 'Physics 2.0',
-    description: 'Realistic physics simulation',
-  },
-  {
-    type: 'PathfindingBehavior::PathfindingBehavior',
-    name: 'Pathfinding',
-    description: 'Find paths around obstacles',
-  },
-  {
-    type: 'TweenBehavior::TweenBehavior',
-    name: 'Tween',
-    description: 'Smoothly animate properties',
-  },
-];
+import { getBehaviorCatalog, findBehaviorTypeMetadata } from '../core/metadata-catalog.js';
 
 /**
  * Register behavior management tools.
@@ -56,7 +13,7 @@ export function registerBehaviorTools(
   // gdevelop_behavior_list
   server.tool(
     'gdevelop_behavior_list',
-    'List behaviors attached to an object or available behavior types',
+    'List behaviors attached to an object or available behavior types (including custom behaviors of the project extensions)',
     {
       sessionId: z.string(),
       objectName: z.string().optional().describe('Get behaviors for specific object'),
@@ -64,13 +21,19 @@ export function registerBehaviorTools(
       listAvailable: z.boolean().default(false).describe('List all available behavior types'),
     },
     async ({ sessionId, objectName, sceneName, listAvailable }) => {
+      const session = projectManager.getSession(sessionId);
+
       if (listAvailable) {
+        const project = session.getProject();
+        const behaviors = getBehaviorCatalog(project.getCurrentPlatform(), project);
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                behaviors: BEHAVIOR_CATALOG,
+                behaviors,
+                count: behaviors.length,
               }),
             },
           ],
@@ -81,7 +44,6 @@ export function registerBehaviorTools(
         throw new Error('objectName is required when not listing available behaviors');
       }
 
-      const session = projectManager.getSession(sessionId);
       let obj;
 
       if (sceneName) {
@@ -146,8 +108,25 @@ export function registerBehaviorTools(
         throw new Error(`Behavior "${behaviorName}" already exists on object`);
       }
 
+      const metadata = findBehaviorTypeMetadata(
+        session.gd,
+        project.getCurrentPlatform(),
+        behaviorType
+      );
+      if (!metadata) {
+        throw new Error(
+          `Unknown behavior type "${behaviorType}". Use gdevelop_behavior_list with listAvailable to see available types`
+        );
+      }
+      const objectType = metadata.getObjectType();
+      if (objectType && objectType !== obj.getType()) {
+        throw new Error(
+          `Behavior "${behaviorType}" can only be added to objects of type "${objectType}" (object "${objectName}" is "${obj.getType()}")`
+        );
+      }
+
       obj.addNewBehavior(project, behaviorType, behaviorName);
-      session.markDirty();
+      session.markDirty(`Add behavior "${behaviorName}" to "${objectName}"`);
 
       return {
         content: [
@@ -190,7 +169,7 @@ export function registerBehaviorTools(
       }
 
       obj.removeBehavior(behaviorName);
-      session.markDirty();
+      session.markDirty(`Remove behavior "${behaviorName}" from "${objectName}"`);
 
       return {
         content: [
@@ -238,7 +217,7 @@ export function registerBehaviorTools(
         }
       }
 
-      session.markDirty();
+      session.markDirty(`Configure behavior "${behaviorName}" of "${objectName}"`);
 
       return {
         content: [
@@ -0,0 +1,301 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import type { ProjectSession } from '../core/project-session.js';
+import { getEffectCatalog } from '../core/metadata-catalog.js';
+import {
+  describeEffect,
+  getEffectMetadata,
+  resetEffectParameters,
+  updateEffectParameters,
+} from '../core/effects.js';
+import type { GDEffectsContainer } from '../types/gdcore.js';
+
+const targetParams = {
+  sessionId: z.string(),
+  sceneName: z
+    .string()
+    .optional()
+    .describe('Scene of the layer or object (omit for global objects)'),
+  layerName: z
+    .string()
+    .optional()
+    .describe('Layer owning the effects ("" for the base layer)'),
+  objectName: z.string().optional().describe('Object owning the effects'),
+};
+
+const parameterValuesSchema = z
+  .record(z.union([z.number(), z.string(), z.boolean()]))
+  .describe('Parameter values by name, as listed by gdevelop_effect_types');
+
+/**
+ * Get the effects of a layer or of an object.
+ */
+function getEffectsTarget(
+  session: ProjectSession,
+  sceneName: string | undefined,
+  layerName: string | undefined,
+  objectName: string | undefined
+): { effects: GDEffectsContainer; isObject: boolean; label: string } {
+  if ((layerName === undefined) === (objectName === undefined)) {
+    throw new Error('Must specify either layerName or objectName');
+  }
+
+  if (objectName !== undefined) {
+    return {
+      effects: session.getObject(objectName, sceneName).getEffects(),
+      isObject: true,
+      label: `object "${objectName}"`,
+    };
+  }
+
+  if (!sceneName) throw new Error('sceneName required for layer effects');
+  const layout = session.getLayout(sceneName);
+  if (!layout.hasLayerNamed(layerName!)) {
+    throw new Error(`Layer "${layerName}" not found in scene "${sceneName}"`);
+  }
+  return {
+    effects: layout.getLayer(layerName!).getEffects(),
+    isObject: false,
+    label: `layer "${layerName || '(Base layer)'}"`,
+  };
+}
+
+function listEffects(effects: GDEffectsContainer) {
+  const list = [];
+  for (let i = 0; i < effects.getEffectsCount(); i++) {
+    list.push(describeEffect(effects.getEffectAt(i)));
+  }
+  return list;
+}
+
+/**
+ * Register layer and object effect tools.
+ */
+export function registerEffectTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_effect_types
+  server.tool(
+    'gdevelop_effect_types',
+    'List the effect types (blur, glow, color map, lights, outline...) with their parameters',
+    {
+      sessionId: z.string(),
+      target: z
+        .enum(['layer', 'object'])
+        .optional()
+        .describe('Only list effects working for layers or for objects'),
+      renderer: z
+        .enum(['2d', '3d'])
+        .optional()
+        .describe('Only list effects working with this renderer'),
+    },
+    async ({ sessionId, target, renderer }) => {
+      const session = projectManager.getSession(sessionId);
+      const effectTypes = getEffectCatalog(session.getProject().getCurrentPlatform()).filter(
+        (entry) =>
+          (target !== 'object' || entry.worksForObjects) &&
+          (!renderer || entry.renderer === 'any' || entry.renderer === renderer)
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ effectTypes, count: effectTypes.length }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_effect_list
+  server.tool(
+    'gdevelop_effect_list',
+    'List the effects of a layer or an object, in rendering order, with their parameters',
+    targetParams,
+    async ({ sessionId, sceneName, layerName, objectName }) => {
+      const session = projectManager.getSession(sessionId);
+      const { effects } = getEffectsTarget(session, sceneName, layerName, objectName);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ effects: listEffects(effects) }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_effect_add
+  server.tool(
+    'gdevelop_effect_add',
+    'Add an effect to a layer or an object. Parameters not given keep the default values of the effect type',
+    {
+      ...targetParams,
+      name: z.string(),
+      effectType: z.string().describe('Effect type, as listed by gdevelop_effect_types'),
+      parameters: parameterValuesSchema.optional(),
+      enabled: z.boolean().default(true),
+      position: z.number().int().optional().describe('Position in the effects (default: last)'),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      layerName,
+      objectName,
+      name,
+      effectType,
+      parameters,
+      enabled,
+      position,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const { effects, isObject, label } = getEffectsTarget(
+        session,
+        sceneName,
+        layerName,
+        objectName
+      );
+      const metadata = getEffectMetadata(
+        session.gd,
+        session.getProject().getCurrentPlatform(),
+        effectType
+      );
+
+      if (effects.hasEffectNamed(name)) {
+        throw new Error(`Effect "${name}" already exists on ${label}`);
+      }
+      if (isObject && metadata.isMarkedAsNotWorkingForObjects()) {
+        throw new Error(`Effect type "${effectType}" can't be used on objects`);
+      }
+      if (metadata.isMarkedAsUnique()) {
+        const existing = listEffects(effects).find((effect) => effect.type === effectType);
+        if (existing) {
+          throw new Error(
+            `Effect type "${effectType}" can only be used once, and ${label} already has "${existing.name}"`
+          );
+        }
+      }
+
+      const effect = effects.insertNewEffect(name, position ?? effects.getEffectsCount());
+      effect.setEffectType(effectType);
+      effect.setEnabled(enabled);
+      resetEffectParameters(effect, metadata);
+      try {
+        updateEffectParameters(effect, metadata, parameters ?? {});
+      } catch (error) {
+        effects.removeEffect(name);
+        throw error;
+      }
+
+      session.markDirty(`Add effect "${name}" to ${label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, effect: describeEffect(effect) }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_effect_update
+  server.tool(
+    'gdevelop_effect_update',
+    'Update an effect of a layer or an object: parameters, enabled state, name or position',
+    {
+      ...targetParams,
+      name: z.string(),
+      parameters: parameterValuesSchema.optional(),
+      enabled: z.boolean().optional(),
+      newName: z.string().optional(),
+      position: z.number().int().optional().describe('New position in the effects'),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      layerName,
+      objectName,
+      name,
+      parameters,
+      enabled,
+      newName,
+      position,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const { effects, label } = getEffectsTarget(session, sceneName, layerName, objectName);
+
+      if (!effects.hasEffectNamed(name)) {
+        throw new Error(`Effect "${name}" not found on ${label}`);
+      }
+      if (newName !== undefined && newName !== name && effects.hasEffectNamed(newName)) {
+        throw new Error(`Effect "${newName}" already exists on ${label}`);
+      }
+      if (position !== undefined && (position < 0 || position >= effects.getEffectsCount())) {
+        throw new Error(`Position ${position} is out of range`);
+      }
+
+      const effect = effects.getEffect(name);
+      if (parameters) {
+        const metadata = getEffectMetadata(
+          session.gd,
+          session.getProject().getCurrentPlatform(),
+          effect.getEffectType()
+        );
+        updateEffectParameters(effect, metadata, parameters);
+      }
+      if (enabled !== undefined) effect.setEnabled(enabled);
+      if (newName !== undefined) effect.setName(newName);
+      if (position !== undefined) {
+        effects.moveEffect(effects.getEffectPosition(effect.getName()), position);
+      }
+
+      session.markDirty(`Update effect "${name}" of ${label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, effects: listEffects(effects) }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_effect_remove
+  server.tool(
+    'gdevelop_effect_remove',
+    'Remove an effect from a layer or an object',
+    {
+      ...targetParams,
+      name: z.string(),
+    },
+    async ({ sessionId, sceneName, layerName, objectName, name }) => {
+      const session = projectManager.getSession(sessionId);
+      const { effects, label } = getEffectsTarget(session, sceneName, layerName, objectName);
+
+      if (!effects.hasEffectNamed(name)) {
+        throw new Error(`Effect "${name}" not found on ${label}`);
+      }
+
+      effects.removeEffect(name);
+      session.markDirty(`Remove effect "${name}" from ${label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, effects: listEffects(effects) }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,764 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import { getObjectCatalog } from '../core/metadata-catalog.js';
+import {
+  FUNCTION_TYPES,
+  PROPERTY_TYPES,
+  checkEventsExtensionName,
+  getEventsFunctionsExtension,
+  getEventsFunctionOwner,
+  getEventsFunction,
+  isLifecycleFunction,
+  setFunctionType,
+  setFunctionParameters,
+  setEventsFromJSON,
+  getEventsAsJSON,
+  setProperty,
+  describeProperty,
+  describeEventsFunction,
+  describeEventsFunctionsExtension,
+  reloadExtensionMetadata,
+} from '../core/events-extensions.js';
+import type { GDEventsFunctionsExtension, GDPropertiesContainer } from '../types/gdcore.js';
+
+const extensionMetadataShape = {
+  fullName: z.string().optional(),
+  shortDescription: z.string().optional(),
+  description: z.string().optional(),
+  version: z.string().optional(),
+  author: z.string().optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+};
+
+const parameterSchema = z.object({
+  name: z.string(),
+  type: z
+    .string()
+    .describe(
+      'Parameter type: number, string, boolean, object, behavior, or any GDevelop type ' +
+        '(color, layer, sceneName, stringWithSelector, objectAnimationName...)'
+    ),
+  description: z.string().optional(),
+  longDescription: z.string().optional(),
+  extraInfo: z
+    .string()
+    .optional()
+    .describe('Object or behavior type, or JSON array of choices for stringWithSelector'),
+  optional: z.boolean().optional(),
+  defaultValue: z.string().optional(),
+});
+
+const propertySchema = z.object({
+  name: z.string(),
+  type: z.enum(PROPERTY_TYPES).optional().describe('Property type (default: Number)'),
+  value: z.string().optional().describe('Default value, e.g. "0", "true", "255;0;0"'),
+  label: z.string().optional(),
+  description: z.string().optional(),
+  group: z.string().optional(),
+  choices: z.array(z.string()).optional().describe('Values of a Choice property'),
+  behaviorType: z.string().optional().describe('Required behavior type of a Behavior property'),
+  hidden: z.boolean().optional(),
+});
+
+const eventsSchema = z
+  .array(z.record(z.unknown()))
+  .describe(
+    'Events in the GDevelop JSON format of project files ' +
+      '(e.g. [{"type": "BuiltinCommonInstructions::Standard", "conditions": [], "actions": []}])'
+  );
+
+const functionShape = {
+  fullName: z.string().optional().describe('Name displayed in the editor'),
+  description: z.string().optional(),
+  sentence: z
+    .string()
+    .optional()
+    .describe('Sentence of the instruction, with parameters as _PARAM1_, _PARAM2_...'),
+  group: z.string().optional(),
+  private: z.boolean().optional(),
+  async: z.boolean().optional().describe('The function can wait (e.g. for a tween to end)'),
+  functionType: z.enum(FUNCTION_TYPES).optional(),
+  expressionType: z
+    .enum(['number', 'string', 'boolean'])
+    .optional()
+    .describe('Type of the value returned by an expression'),
+  parameters: z.array(parameterSchema).optional(),
+  events: eventsSchema.optional(),
+};
+
+const ownerShape = {
+  sessionId: z.string(),
+  extensionName: z.string(),
+  behaviorName: z.string().optional().describe('Behavior owning the function'),
+  objectName: z.string().optional().describe('Custom object owning the function'),
+};
+
+function setExtensionMetadata(
+  extension: GDEventsFunctionsExtension,
+  metadata: {
+    fullName?: string;
+    shortDescription?: string;
+    description?: string;
+    version?: string;
+    author?: string;
+    category?: string;
+    tags?: string[];
+  }
+): void {
+  if (metadata.fullName !== undefined) extension.setFullName(metadata.fullName);
+  if (metadata.shortDescription !== undefined) {
+    extension.setShortDescription(metadata.shortDescription);
+  }
+  if (metadata.description !== undefined) extension.setDescription(metadata.description);
+  if (metadata.version !== undefined) extension.setVersion(metadata.version);
+  if (metadata.author !== undefined) extension.setAuthor(metadata.author);
+  if (metadata.category !== undefined) extension.setCategory(metadata.category);
+  if (metadata.tags) {
+    const tags = extension.getTags();
+    tags.clear();
+    for (const tag of metadata.tags) tags.push_back(tag);
+  }
+}
+
+function getPropertiesOwner(
+  extension: GDEventsFunctionsExtension,
+  behaviorName: string | undefined,
+  objectName: string | undefined
+): { properties: GDPropertiesContainer; label: string } {
+  if ((behaviorName === undefined) === (objectName === undefined)) {
+    throw new Error('Must specify either behaviorName or objectName');
+  }
+  if (behaviorName !== undefined) {
+    const behaviors = extension.getEventsBasedBehaviors();
+    if (!behaviors.has(behaviorName)) {
+      throw new Error(`Behavior "${behaviorName}" not found in "${extension.getName()}"`);
+    }
+    return {
+      properties: behaviors.get(behaviorName).getPropertyDescriptors(),
+      label: `behavior "${behaviorName}"`,
+    };
+  }
+
+  const objects = extension.getEventsBasedObjects();
+  if (!objects.has(objectName!)) {
+    throw new Error(`Custom object "${objectName}" not found in "${extension.getName()}"`);
+  }
+  return {
+    properties: objects.get(objectName!).getPropertyDescriptors(),
+    label: `object "${objectName}"`,
+  };
+}
+
+/**
+ * Check that the names of the properties to create are not used twice.
+ */
+function checkPropertyNames(properties: { name: string }[]): void {
+  const names = new Set<string>();
+  for (const { name } of properties) {
+    if (names.has(name)) throw new Error(`Property "${name}" is declared twice`);
+    names.add(name);
+  }
+}
+
+/**
+ * Register tools to author events-based extensions of a project: functions,
+ * custom behaviors and custom objects.
+ */
+export function registerEventsExtensionTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_events_extension_create
+  server.tool(
+    'gdevelop_events_extension_create',
+    'Create an events-based extension in the project, to hold functions, custom behaviors and custom objects',
+    {
+      sessionId: z.string(),
+      name: z.string().describe('Extension name, used as prefix of its types (e.g. "Health")'),
+      ...extensionMetadataShape,
+    },
+    async ({ sessionId, name, ...metadata }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+
+      checkEventsExtensionName(name, 'extension');
+      if (project.hasEventsFunctionsExtensionNamed(name)) {
+        throw new Error(`Extension "${name}" already exists`);
+      }
+      if (session.getBuiltinExtensionNames().has(name)) {
+        throw new Error(`Extension "${name}" conflicts with a built-in extension`);
+      }
+
+      const extension = project.insertNewEventsFunctionsExtension(
+        name,
+        project.getEventsFunctionsExtensionsCount()
+      );
+      extension.setFullName(name);
+      extension.setVersion('1.0.0');
+      setExtensionMetadata(extension, metadata);
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Create extension "${name}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              extension: describeEventsFunctionsExtension(extension),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_extension_update
+  server.tool(
+    'gdevelop_events_extension_update',
+    'Update the metadata of an events-based extension of the project',
+    {
+      sessionId: z.string(),
+      name: z.string(),
+      ...extensionMetadataShape,
+    },
+    async ({ sessionId, name, ...metadata }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, name);
+
+      setExtensionMetadata(extension, metadata);
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Update extension "${name}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              extension: describeEventsFunctionsExtension(extension),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_extension_get
+  server.tool(
+    'gdevelop_events_extension_get',
+    'Get an events-based extension of the project: metadata, functions, behaviors and custom objects. ' +
+      'Give a function to also get its events',
+    {
+      sessionId: z.string(),
+      name: z.string(),
+      functionName: z.string().optional().describe('Function to get the events of'),
+      behaviorName: z.string().optional().describe('Behavior owning the function'),
+      objectName: z.string().optional().describe('Custom object owning the function'),
+    },
+    async ({ sessionId, name, functionName, behaviorName, objectName }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, name);
+
+      let eventsFunction;
+      if (functionName) {
+        const owner = getEventsFunctionOwner(project, name, behaviorName, objectName);
+        const events = getEventsFunction(owner, functionName).getEvents();
+        eventsFunction = { name: functionName, events: getEventsAsJSON(session.gd, events) };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              extension: describeEventsFunctionsExtension(extension),
+              ...(eventsFunction ? { eventsFunction } : {}),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_function_create
+  server.tool(
+    'gdevelop_events_function_create',
+    'Create a function (action, condition or expression) in an extension, a custom behavior or a custom object. ' +
+      'Lifecycle functions (onCreated, doStepPreEvents, onDestroy, onFirstSceneLoaded...) are run by the engine',
+    {
+      ...ownerShape,
+      name: z.string(),
+      ...functionShape,
+    },
+    async ({
+      sessionId,
+      extensionName,
+      behaviorName,
+      objectName,
+      name,
+      functionType,
+      expressionType,
+      parameters,
+      events,
+      ...metadata
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const gd = session.gd;
+      const owner = getEventsFunctionOwner(project, extensionName, behaviorName, objectName);
+
+      checkEventsExtensionName(name, 'function');
+      if (owner.functions.hasEventsFunctionNamed(name)) {
+        throw new Error(`Function "${name}" already exists in ${owner.label}`);
+      }
+      const isLifecycle = isLifecycleFunction(gd, owner, name);
+      if (isLifecycle && (parameters?.length || (functionType && functionType !== 'action'))) {
+        throw new Error(`Lifecycle function "${name}" is an action without parameters`);
+      }
+
+      const eventsFunction = owner.functions.insertNewEventsFunction(
+        name,
+        owner.functions.getEventsFunctionsCount()
+      );
+      try {
+        setFunctionType(eventsFunction, functionType ?? 'action', expressionType);
+        eventsFunction.setFullName(metadata.fullName ?? name);
+        eventsFunction.setDescription(metadata.description ?? '');
+        eventsFunction.setSentence(metadata.sentence ?? metadata.fullName ?? name);
+        eventsFunction.setGroup(metadata.group ?? '');
+        eventsFunction.setPrivate(metadata.private ?? false);
+        eventsFunction.setAsync(metadata.async ?? false);
+        setFunctionParameters(gd, owner, eventsFunction, parameters ?? []);
+        if (events) setEventsFromJSON(gd, project, eventsFunction.getEvents(), events);
+      } catch (error) {
+        owner.functions.removeEventsFunction(name);
+        throw error;
+      }
+      reloadExtensionMetadata(
+        gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        owner.extension
+      );
+
+      session.markDirty(`Create function "${name}" in ${owner.label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              lifecycle: isLifecycle,
+              function: describeEventsFunction(eventsFunction),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_function_update
+  server.tool(
+    'gdevelop_events_function_update',
+    'Update a function of an extension, a custom behavior or a custom object. ' +
+      'Parameters and events, when given, replace the existing ones',
+    {
+      ...ownerShape,
+      name: z.string(),
+      ...functionShape,
+    },
+    async ({
+      sessionId,
+      extensionName,
+      behaviorName,
+      objectName,
+      name,
+      functionType,
+      expressionType,
+      parameters,
+      events,
+      ...metadata
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const gd = session.gd;
+      const owner = getEventsFunctionOwner(project, extensionName, behaviorName, objectName);
+      const eventsFunction = getEventsFunction(owner, name);
+
+      if (isLifecycleFunction(gd, owner, name) && (parameters?.length || functionType)) {
+        throw new Error(`Lifecycle function "${name}" is an action without parameters`);
+      }
+
+      // Fields are changed one after the other: restore them all if one fails
+      const original = new gd.SerializerElement();
+      eventsFunction.serializeTo(original);
+      try {
+        if (functionType || expressionType) {
+          const currentType = FUNCTION_TYPES[eventsFunction.getFunctionType()];
+          setFunctionType(eventsFunction, functionType ?? currentType, expressionType);
+        }
+        if (parameters) setFunctionParameters(gd, owner, eventsFunction, parameters);
+        if (metadata.fullName !== undefined) eventsFunction.setFullName(metadata.fullName);
+        if (metadata.description !== undefined) eventsFunction.setDescription(metadata.description);
+        if (metadata.sentence !== undefined) eventsFunction.setSentence(metadata.sentence);
+        if (metadata.group !== undefined) eventsFunction.setGroup(metadata.group);
+        if (metadata.private !== undefined) eventsFunction.setPrivate(metadata.private);
+        if (metadata.async !== undefined) eventsFunction.setAsync(metadata.async);
+        if (events) setEventsFromJSON(gd, project, eventsFunction.getEvents(), events);
+      } catch (error) {
+        eventsFunction.unserializeFrom(project, original);
+        throw error;
+      } finally {
+        original.delete();
+      }
+      reloadExtensionMetadata(
+        gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        owner.extension
+      );
+
+      session.markDirty(`Update function "${name}" in ${owner.label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              function: describeEventsFunction(eventsFunction),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_function_delete
+  server.tool(
+    'gdevelop_events_function_delete',
+    'Delete a function of an extension, a custom behavior or a custom object',
+    {
+      ...ownerShape,
+      name: z.string(),
+    },
+    async ({ sessionId, extensionName, behaviorName, objectName, name }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const owner = getEventsFunctionOwner(project, extensionName, behaviorName, objectName);
+      getEventsFunction(owner, name);
+
+      owner.functions.removeEventsFunction(name);
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        owner.extension
+      );
+
+      session.markDirty(`Delete function "${name}" from ${owner.label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, deletedFunction: name }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_behavior_create
+  server.tool(
+    'gdevelop_events_behavior_create',
+    'Create a custom behavior in an extension. Add its lifecycle functions (onCreated, ' +
+      'doStepPreEvents...) and methods with gdevelop_events_function_create',
+    {
+      sessionId: z.string(),
+      extensionName: z.string(),
+      name: z.string(),
+      fullName: z.string().optional(),
+      description: z.string().optional(),
+      objectType: z
+        .string()
+        .optional()
+        .describe('Type of the objects the behavior can be used on (default: any object)'),
+      private: z.boolean().optional(),
+      properties: z.array(propertySchema).optional(),
+    },
+    async ({
+      sessionId,
+      extensionName,
+      name,
+      fullName,
+      description,
+      objectType,
+      private: isPrivate,
+      properties,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, extensionName);
+      const behaviors = extension.getEventsBasedBehaviors();
+
+      checkEventsExtensionName(name, 'behavior');
+      if (behaviors.has(name)) {
+        throw new Error(`Behavior "${name}" already exists in "${extensionName}"`);
+      }
+      checkPropertyNames(properties ?? []);
+
+      const behavior = behaviors.insertNew(name, behaviors.size());
+      try {
+        behavior.setFullName(fullName ?? name);
+        behavior.setDescription(description ?? '');
+        behavior.setObjectType(objectType ?? '');
+        behavior.setPrivate(isPrivate ?? false);
+        for (const property of properties ?? []) {
+          setProperty(session.gd, behavior.getPropertyDescriptors(), property);
+        }
+      } catch (error) {
+        behaviors.remove(name);
+        throw error;
+      }
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Create behavior "${extensionName}::${name}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              behaviorType: `${extensionName}::${name}`,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_object_create
+  server.tool(
+    'gdevelop_events_object_create',
+    'Create a custom object in an extension, made of child objects. ' +
+      'It can then be created in scenes with gdevelop_object_create',
+    {
+      sessionId: z.string(),
+      extensionName: z.string(),
+      name: z.string(),
+      fullName: z.string().optional(),
+      description: z.string().optional(),
+      defaultName: z.string().optional().describe('Default name of objects of this type'),
+      renderedIn3D: z.boolean().optional(),
+      private: z.boolean().optional(),
+      properties: z.array(propertySchema).optional(),
+      children: z
+        .array(
+          z.object({
+            name: z.string(),
+            type: z.string().describe('Object type (e.g., "Sprite", "TextObject::Text")'),
+            x: z.number().default(0),
+            y: z.number().default(0),
+          })
+        )
+        .optional()
+        .describe('Child objects, each placed once at the given position in the custom object'),
+    },
+    async ({
+      sessionId,
+      extensionName,
+      name,
+      fullName,
+      description,
+      defaultName,
+      renderedIn3D,
+      private: isPrivate,
+      properties,
+      children,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, extensionName);
+      const objects = extension.getEventsBasedObjects();
+
+      checkEventsExtensionName(name, 'object');
+      if (objects.has(name)) {
+        throw new Error(`Custom object "${name}" already exists in "${extensionName}"`);
+      }
+      checkPropertyNames(properties ?? []);
+
+      const objectTypes = getObjectCatalog(project.getCurrentPlatform(), project);
+      const childNames = new Set<string>();
+      for (const child of children ?? []) {
+        if (childNames.has(child.name)) {
+          throw new Error(`Child object "${child.name}" is declared twice`);
+        }
+        childNames.add(child.name);
+        if (!objectTypes.some((entry) => entry.type === child.type)) {
+          throw new Error(`Unknown object type "${child.type}" for child "${child.name}"`);
+        }
+      }
+
+      const object = objects.insertNew(name, objects.size());
+      try {
+        object.setFullName(fullName ?? name);
+        object.setDescription(description ?? '');
+        object.setDefaultName(defaultName ?? name);
+        object.markAsRenderedIn3D(renderedIn3D ?? false);
+        object.setPrivate(isPrivate ?? false);
+        for (const property of properties ?? []) {
+          setProperty(session.gd, object.getPropertyDescriptors(), property);
+        }
+
+        const childObjects = object.getObjects();
+        for (const child of children ?? []) {
+          childObjects.insertNewObject(
+            project,
+            child.type,
+            child.name,
+            childObjects.getObjectsCount()
+          );
+          const instance = object.getInitialInstances().insertNewInitialInstance();
+          instance.setObjectName(child.name);
+          instance.setX(child.x);
+          instance.setY(child.y);
+        }
+      } catch (error) {
+        objects.remove(name);
+        throw error;
+      }
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Create custom object "${extensionName}::${name}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              objectType: `${extensionName}::${name}`,
+              children: [...childNames],
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_property_set
+  server.tool(
+    'gdevelop_events_property_set',
+    'Create or update a property of a custom behavior or a custom object. ' +
+      'Only the given fields of an existing property are changed',
+    {
+      sessionId: z.string(),
+      extensionName: z.string(),
+      behaviorName: z.string().optional(),
+      objectName: z.string().optional(),
+      property: propertySchema,
+    },
+    async ({ sessionId, extensionName, behaviorName, objectName, property }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, extensionName);
+      const { properties, label } = getPropertiesOwner(extension, behaviorName, objectName);
+
+      const created = !properties.has(property.name);
+      const descriptor = setProperty(session.gd, properties, property);
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Set property "${property.name}" of ${label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              created,
+              property: describeProperty(descriptor),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_events_property_remove
+  server.tool(
+    'gdevelop_events_property_remove',
+    'Remove a property of a custom behavior or a custom object',
+    {
+      sessionId: z.string(),
+      extensionName: z.string(),
+      behaviorName: z.string().optional(),
+      objectName: z.string().optional(),
+      propertyName: z.string(),
+    },
+    async ({ sessionId, extensionName, behaviorName, objectName, propertyName }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const extension = getEventsFunctionsExtension(project, extensionName);
+      const { properties, label } = getPropertiesOwner(extension, behaviorName, objectName);
+
+      if (!properties.has(propertyName)) {
+        throw new Error(`Property "${propertyName}" not found in ${label}`);
+      }
+
+      properties.remove(propertyName);
+      reloadExtensionMetadata(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        extension
+      );
+
+      session.markDirty(`Remove property "${propertyName}" of ${label}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, removedProperty: propertyName }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,23 +1,29 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ProjectManager } from '../core/project-manager.js';
-import type { GDEventsList, GDBaseEvent, GDStandardEvent } from '../types/gdcore.js';
-
-// Event type mappings
-const EVENT_TYPES: Record<string, string> = {
-  standard: 'BuiltinCommonInstructions::Standard',
-  comment: 'BuiltinCommonInstructions::Comment',
-  group: 'BuiltinCommonInstructions::Group',
-  foreach: 'BuiltinCommonInstructions::ForEach',
-  repeat: 'BuiltinCommonInstructions::Repeat',
-  while: 'BuiltinCommonInstructions::While',
-  link: 'BuiltinCommonInstructions::Link',
-};
+import { ProjectSession } from '../core/project-session.js';
+import {
+  validateInstruction,
+  type InstructionScope,
+} from '../core/instruction-validator.js';
+import { EVENT_TYPES, getInstructionLists } from '../core/event-traversal.js';
+import {
+  getEventsFunctionOwner,
+  getEventsFunction,
+  getEventsFunctionScope,
+} from '../core/events-extensions.js';
+import type {
+  GD,
+  GDEventsList,
+  GDBaseEvent,
+  GDInstruction,
+  GDInstructionsList,
+} from '../types/gdcore.js';
 
 /**
  * Get event summary for display.
  */
-function getEventSummary(event: GDBaseEvent): string {
+function getEventSummary(gd: GD, event: GDBaseEvent): string {
   const type = event.getType();
 
   if (type === EVENT_TYPES.comment) {
@@ -27,17 +33,261 @@ function getEventSummary(event: GDBaseEvent): string {
     return '[Group]';
   }
 
-  // For standard events, try to describe conditions/actions
-  const std = event as GDStandardEvent;
-  if (std.getConditions && std.getActions) {
-    const condCount = std.getConditions().size();
-    const actCount = std.getActions().size();
-    return `${condCount} condition(s), ${actCount} action(s)`;
+  // For events with instructions, describe conditions/actions
+  const { conditions, actions } = getInstructionLists(gd, event);
+  if (conditions && actions) {
+    return `${conditions.size()} condition(s), ${actions.size()} action(s)`;
   }
 
   return type;
 }
 
+/**
+ * Serialize an instruction, including its sub-instructions (e.g. for "Or" conditions).
+ */
+function serializeInstruction(instruction: GDInstruction): Record<string, unknown> {
+  const parameters: string[] = [];
+  for (let i = 0; i < instruction.getParametersCount(); i++) {
+    parameters.push(instruction.getParameter(i).getPlainString());
+  }
+
+  const info: Record<string, unknown> = {
+    type: instruction.getType(),
+    parameters,
+    inverted: instruction.isInverted(),
+  };
+
+  const subInstructions = instruction.getSubInstructions();
+  if (subInstructions.size() > 0) {
+    info.subInstructions = serializeInstructions(subInstructions);
+  }
+
+  return info;
+}
+
+/**
+ * Serialize all instructions of a list.
+ */
+function serializeInstructions(list: GDInstructionsList): Record<string, unknown>[] {
+  const instructions: Record<string, unknown>[] = [];
+  for (let i = 0; i < list.size(); i++) {
+    instructions.push(serializeInstruction(list.get(i)));
+  }
+  return instructions;
+}
+
+/**
+ * Get the full content of an event (not including its sub-events):
+ * instructions, comment text, group settings and loop parameters.
+ */
+function serializeEventDetails(gd: GD, event: GDBaseEvent): Record<string, unknown> {
+  const details: Record<string, unknown> = {};
+  const type = event.getType();
+
+  if (type === EVENT_TYPES.comment) {
+    const comment = gd.asCommentEvent(event);
+    details.comment = comment.getComment();
+    details.backgroundColor = {
+      r: comment.getBackgroundColorRed(),
+      g: comment.getBackgroundColorGreen(),
+      b: comment.getBackgroundColorBlue(),
+    };
+    details.textColor = {
+      r: comment.getTextColorRed(),
+      g: comment.getTextColorGreen(),
+      b: comment.getTextColorBlue(),
+    };
+  } else if (type === EVENT_TYPES.group) {
+    const group = gd.asGroupEvent(event);
+    details.name = group.getName();
+    details.backgroundColor = {
+      r: group.getBackgroundColorR(),
+      g: group.getBackgroundColorG(),
+      b: group.getBackgroundColorB(),
+    };
+  } else if (type === EVENT_TYPES.link) {
+    details.target = gd.asLinkEvent(event).getTarget();
+  } else if (type === EVENT_TYPES.foreach) {
+    const forEach = gd.asForEachEvent(event);
+    details.objectToPick = forEach.getObjectToPick();
+    details.orderBy = forEach.getOrderBy();
+    details.order = forEach.getOrder();
+    details.limit = forEach.getLimit();
+    details.loopIndexVariable = forEach.getLoopIndexVariableName();
+  } else if (type === EVENT_TYPES.foreachchildvariable) {
+    const forEachChild = gd.asForEachChildVariableEvent(event);
+    details.iterableVariable = forEachChild.getIterableVariableName();
+    details.keyIteratorVariable = forEachChild.getKeyIteratorVariableName();
+    details.valueIteratorVariable = forEachChild.getValueIteratorVariableName();
+    details.loopIndexVariable = forEachChild.getLoopIndexVariableName();
+  } else if (type === EVENT_TYPES.repeat) {
+    const repeat = gd.asRepeatEvent(event);
+    details.repeatExpression = repeat.getRepeatExpression().getPlainString();
+    details.loopIndexVariable = repeat.getLoopIndexVariableName();
+  } else if (type === EVENT_TYPES.while) {
+    details.loopIndexVariable = gd.asWhileEvent(event).getLoopIndexVariableName();
+  }
+
+  const { conditions, actions, whileConditions } = getInstructionLists(gd, event);
+  if (whileConditions) {
+    details.whileConditions = serializeInstructions(whileConditions);
+  }
+  if (conditions) {
+    details.conditions = serializeInstructions(conditions);
+  }
+  if (actions) {
+    details.actions = serializeInstructions(actions);
+  }
+
+  return details;
+}
+
+// Event address: a top-level index, a dotted path ("2.0.1") or an array of indices
+const eventPathSchema = z
+  .union([z.number().int(), z.string(), z.array(z.number().int()).min(1)])
+  .describe('Event index or path to a sub-event, e.g. 2, "2.0.1" or [2, 0, 1]');
+
+type EventPath = z.infer<typeof eventPathSchema>;
+
+const eventsFunctionSchema = z
+  .object({
+    extensionName: z.string(),
+    functionName: z.string(),
+    behaviorName: z.string().optional(),
+    objectName: z.string().optional(),
+  })
+  .optional()
+  .describe('Function of a project extension (or of one of its behaviors or custom objects)');
+
+type EventsFunctionTarget = z.infer<typeof eventsFunctionSchema>;
+
+/**
+ * Normalize an event address to an array of indices.
+ */
+function parseEventPath(eventPath: EventPath): number[] {
+  if (typeof eventPath === 'number') {
+    return [eventPath];
+  }
+  if (Array.isArray(eventPath)) {
+    return eventPath;
+  }
+
+  if (!/^\d+(\.\d+)*$/.test(eventPath)) {
+    throw new Error(`Invalid event path "${eventPath}"`);
+  }
+  return eventPath.split('.').map(Number);
+}
+
+/**
+ * Format an array of indices as a dotted event path.
+ */
+function formatEventPath(indices: number[]): string {
+  return indices.join('.');
+}
+
+/**
+ * Get the events list of a scene, an external events sheet or an extension function.
+ */
+function getEventsList(
+  session: ProjectSession,
+  sceneName: string | undefined,
+  externalEventsName: string | undefined,
+  eventsFunction: EventsFunctionTarget
+): GDEventsList {
+  const project = session.getProject();
+
+  if (eventsFunction) {
+    const { extensionName, functionName, behaviorName, objectName } = eventsFunction;
+    const owner = getEventsFunctionOwner(project, extensionName, behaviorName, objectName);
+    return getEventsFunction(owner, functionName).getEvents();
+  }
+  if (sceneName) {
+    return session.getLayout(sceneName).getEvents();
+  }
+  if (externalEventsName) {
+    if (!project.hasExternalEventsNamed(externalEventsName)) {
+      throw new Error(`External events "${externalEventsName}" not found`);
+    }
+    return project.getExternalEvents(externalEventsName).getEvents();
+  }
+  throw new Error('Must specify either sceneName, externalEventsName or eventsFunction');
+}
+
+/**
+ * Get the scope in which instructions of an events sheet are validated:
+ * the scene, the scene associated to external events if any, or the
+ * parameters and child objects of an extension function.
+ */
+function getInstructionScope(
+  session: ProjectSession,
+  sceneName: string | undefined,
+  externalEventsName: string | undefined,
+  eventsFunction: EventsFunctionTarget
+): InstructionScope {
+  const project = session.getProject();
+
+  if (eventsFunction) {
+    const { extensionName, functionName, behaviorName, objectName } = eventsFunction;
+    const owner = getEventsFunctionOwner(project, extensionName, behaviorName, objectName);
+    return getEventsFunctionScope(
+      session.gd,
+      project,
+      owner,
+      getEventsFunction(owner, functionName)
+    );
+  }
+
+  if (sceneName) {
+    return { project, layout: session.getLayout(sceneName) };
+  }
+  if (externalEventsName && project.hasExternalEventsNamed(externalEventsName)) {
+    const associatedLayout = project
+      .getExternalEvents(externalEventsName)
+      .getAssociatedLayout();
+    if (associatedLayout && project.hasLayoutNamed(associatedLayout)) {
+      return { project, layout: project.getLayout(associatedLayout) };
+    }
+  }
+  return { project };
+}
+
+/**
+ * Find an event by its path.
+ * @returns The event, the list containing it and its index in that list.
+ */
+function findEvent(
+  rootList: GDEventsList,
+  eventPath: EventPath
+): { event: GDBaseEvent; parentList: GDEventsList; index: number; path: number[] } {
+  const indices = parseEventPath(eventPath);
+  let list = rootList;
+  let event: GDBaseEvent | undefined;
+
+  for (let depth = 0; depth < indices.length; depth++) {
+    if (depth > 0) {
+      if (!event!.canHaveSubEvents()) {
+        throw new Error(
+          `Event ${formatEventPath(indices.slice(0, depth))} cannot have sub-events`
+        );
+      }
+      list = event!.getSubEvents();
+    }
+
+    const index = indices[depth];
+    if (index < 0 || index >= list.getEventsCount()) {
+      throw new Error(`Event index ${formatEventPath(indices.slice(0, depth + 1))} out of bounds`);
+    }
+    event = list.getEventAt(index);
+  }
+
+  return {
+    event: event!,
+    parentList: list,
+    index: indices[indices.length - 1],
+    path: indices,
+  };
+}
+
 /**
  * Register events management tools.
  */
@@ -48,30 +298,31 @@ export function registerEventTools(
   // gdevelop_event_list
   server.tool(
     'gdevelop_event_list',
-    'List events in a scene or external events sheet',
+    'List events in a scene, external events sheet or extension function',
     {
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
+      eventsFunction: eventsFunctionSchema,
       depth: z.number().default(1).describe('How deep to traverse sub-events'),
       includeDisabled: z.boolean().default(true),
+      detailed: z
+        .boolean()
+        .default(false)
+        .describe('Include the full content of each event: instructions, comments, groups and loop settings'),
     },
-    async ({ sessionId, sceneName, externalEventsName, depth, includeDisabled }) => {
+    async ({
+      sessionId,
+      sceneName,
+      externalEventsName,
+      eventsFunction,
+      depth,
+      includeDisabled,
+      detailed,
+    }) => {
       const session = projectManager.getSession(sessionId);
-      const project = session.getProject();
-
-      let eventsList: GDEventsList;
-
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        if (!project.hasExternalEventsNamed(externalEventsName)) {
-          throw new Error(`External events "${externalEventsName}" not found`);
-        }
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
-      }
+      const gd = session.gd;
+      const eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
 
       const events: object[] = [];
 
@@ -83,20 +334,23 @@ export function registerEventTools(
 
           if (!includeDisabled && event.isDisabled()) continue;
 
-          const std = event as GDStandardEvent;
+          const { conditions, actions } = getInstructionLists(gd, event);
           const eventInfo: Record<string, unknown> = {
             index: `${prefix}${i}`,
             type: event.getType(),
             disabled: event.isDisabled(),
             folded: event.isFolded(),
-            summary: getEventSummary(event),
+            summary: getEventSummary(gd, event),
           };
 
-          if (std.getConditions) {
-            eventInfo.conditionCount = std.getConditions().size();
+          if (conditions) {
+            eventInfo.conditionCount = conditions.size();
+          }
+          if (actions) {
+            eventInfo.actionCount = actions.size();
           }
-          if (std.getActions) {
-            eventInfo.actionCount = std.getActions().size();
+          if (detailed) {
+            Object.assign(eventInfo, serializeEventDetails(gd, event));
           }
 
           if (event.canHaveSubEvents() && event.hasSubEvents()) {
@@ -133,11 +387,15 @@ export function registerEventTools(
   // gdevelop_event_create
   server.tool(
     'gdevelop_event_create',
-    'Create a new event in a scene or external events',
+    'Create a new event in a scene, external events or extension function, at the top level or as a sub-event',
     {
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
+      eventsFunction: eventsFunctionSchema,
+      parentEventIndex: eventPathSchema
+        .optional()
+        .describe('Path of the event to add a sub-event to (omit for a top-level event)'),
       eventType: z
         .enum(['standard', 'comment', 'group', 'foreach', 'repeat', 'while', 'link'])
         .default('standard'),
@@ -164,6 +422,8 @@ export function registerEventTools(
       sessionId,
       sceneName,
       externalEventsName,
+      eventsFunction,
+      parentEventIndex,
       eventType,
       position,
       conditions,
@@ -173,17 +433,16 @@ export function registerEventTools(
       const project = session.getProject();
       const gd = session.gd;
 
-      let eventsList: GDEventsList;
+      let eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
+      let parentPath: number[] = [];
 
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        if (!project.hasExternalEventsNamed(externalEventsName)) {
-          throw new Error(`External events "${externalEventsName}" not found`);
+      if (parentEventIndex !== undefined) {
+        const parent = findEvent(eventsList, parentEventIndex);
+        if (!parent.event.canHaveSubEvents()) {
+          throw new Error(`Event ${formatEventPath(parent.path)} cannot have sub-events`);
         }
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
+        eventsList = parent.event.getSubEvents();
+        parentPath = parent.path;
       }
 
       const gdEventType = EVENT_TYPES[eventType];
@@ -191,13 +450,21 @@ export function registerEventTools(
         throw new Error(`Unknown event type: ${eventType}`);
       }
 
+      // Validate instructions before creating anything
+      const scope = getInstructionScope(session, sceneName, externalEventsName, eventsFunction);
+      for (const cond of conditions ?? []) {
+        validateInstruction(gd, scope, 'condition', cond);
+      }
+      for (const act of actions ?? []) {
+        validateInstruction(gd, scope, 'action', act);
+      }
+
       const pos = position ?? eventsList.getEventsCount();
       const event = eventsList.insertNewEvent(project, gdEventType, pos);
 
       // Add conditions if this is a standard event
       if (conditions && eventType === 'standard') {
-        const std = event as GDStandardEvent;
-        const conditionsList = std.getConditions();
+        const conditionsList = gd.asStandardEvent(event).getConditions();
 
         for (const cond of conditions) {
           const instruction = new gd.Instruction();
@@ -215,8 +482,7 @@ export function registerEventTools(
 
       // Add actions if this is a standard event
       if (actions && eventType === 'standard') {
-        const std = event as GDStandardEvent;
-        const actionsList = std.getActions();
+        const actionsList = gd.asStandardEvent(event).getActions();
 
         for (const act of actions) {
           const instruction = new gd.Instruction();
@@ -231,7 +497,7 @@ export function registerEventTools(
         }
       }
 
-      session.markDirty();
+      session.markDirty(`Create ${eventType} event`);
 
       return {
         content: [
@@ -239,7 +505,7 @@ export function registerEventTools(
             type: 'text',
             text: JSON.stringify({
               success: true,
-              eventIndex: pos,
+              eventIndex: formatEventPath([...parentPath, pos]),
               eventType,
             }),
           },
@@ -251,33 +517,21 @@ export function registerEventTools(
   // gdevelop_event_delete
   server.tool(
     'gdevelop_event_delete',
-    'Delete events from a scene',
+    'Delete an event (and its sub-events) from a scene, external events or extension function',
     {
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
-      eventIndex: z.number(),
+      eventsFunction: eventsFunctionSchema,
+      eventIndex: eventPathSchema,
     },
-    async ({ sessionId, sceneName, externalEventsName, eventIndex }) => {
+    async ({ sessionId, sceneName, externalEventsName, eventsFunction, eventIndex }) => {
       const session = projectManager.getSession(sessionId);
-      const project = session.getProject();
-
-      let eventsList: GDEventsList;
+      const eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
 
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
-      }
-
-      if (eventIndex < 0 || eventIndex >= eventsList.getEventsCount()) {
-        throw new Error(`Event index ${eventIndex} out of bounds`);
-      }
-
-      eventsList.removeEventAt(eventIndex);
-      session.markDirty();
+      const { parentList, index, path } = findEvent(eventsList, eventIndex);
+      parentList.removeEventAt(index);
+      session.markDirty('Delete event');
 
       return {
         content: [
@@ -285,7 +539,7 @@ export function registerEventTools(
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedIndex: eventIndex,
+              deletedIndex: formatEventPath(path),
             }),
           },
         ],
@@ -301,29 +555,24 @@ export function registerEventTools(
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
-      eventIndex: z.number(),
+      eventsFunction: eventsFunctionSchema,
+      eventIndex: eventPathSchema,
       disabled: z.boolean().optional(),
       folded: z.boolean().optional(),
     },
-    async ({ sessionId, sceneName, externalEventsName, eventIndex, disabled, folded }) => {
+    async ({
+      sessionId,
+      sceneName,
+      externalEventsName,
+      eventsFunction,
+      eventIndex,
+      disabled,
+      folded,
+    }) => {
       const session = projectManager.getSession(sessionId);
-      const project = session.getProject();
-
-      let eventsList: GDEventsList;
+      const eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
 
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
-      }
-
-      if (eventIndex < 0 || eventIndex >= eventsList.getEventsCount()) {
-        throw new Error(`Event index ${eventIndex} out of bounds`);
-      }
-
-      const event = eventsList.getEventAt(eventIndex);
+      const { event } = findEvent(eventsList, eventIndex);
 
       if (disabled !== undefined) {
         event.setDisabled(disabled);
@@ -332,7 +581,7 @@ export function registerEventTools(
         event.setFolded(folded);
       }
 
-      session.markDirty();
+      session.markDirty('Update event');
 
       return {
         content: [
@@ -348,12 +597,13 @@ export function registerEventTools(
   // gdevelop_condition_add
   server.tool(
     'gdevelop_condition_add',
-    'Add a condition to an existing event',
+    'Add a condition to an existing event. The condition type and parameters are checked against the platform metadata',
     {
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
-      eventIndex: z.number(),
+      eventsFunction: eventsFunctionSchema,
+      eventIndex: eventPathSchema,
       condition: z.object({
         type: z.string().describe('Condition type identifier'),
         parameters: z.array(z.string()).describe('Condition parameters'),
@@ -365,31 +615,29 @@ export function registerEventTools(
       sessionId,
       sceneName,
       externalEventsName,
+      eventsFunction,
       eventIndex,
       condition,
       position,
     }) => {
       const session = projectManager.getSession(sessionId);
-      const project = session.getProject();
       const gd = session.gd;
+      const eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
 
-      let eventsList: GDEventsList;
-
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
-      }
-
-      const event = eventsList.getEventAt(eventIndex) as GDStandardEvent;
+      const { event } = findEvent(eventsList, eventIndex);
+      const conditionsList = getInstructionLists(gd, event).conditions;
 
-      if (!event.getConditions) {
+      if (!conditionsList) {
         throw new Error('Event does not support conditions');
       }
 
-      const conditionsList = event.getConditions();
+      validateInstruction(
+        gd,
+        getInstructionScope(session, sceneName, externalEventsName, eventsFunction),
+        'condition',
+        condition
+      );
+
       const instruction = new gd.Instruction();
 
       instruction.setType(condition.type);
@@ -403,7 +651,7 @@ export function registerEventTools(
       conditionsList.insert(instruction, pos);
       instruction.delete();
 
-      session.markDirty();
+      session.markDirty(`Add condition "${condition.type}"`);
 
       return {
         content: [
@@ -422,12 +670,13 @@ export function registerEventTools(
   // gdevelop_action_add
   server.tool(
     'gdevelop_action_add',
-    'Add an action to an existing event',
+    'Add an action to an existing event. The action type and parameters are checked against the platform metadata',
     {
       sessionId: z.string(),
       sceneName: z.string().optional(),
       externalEventsName: z.string().optional(),
-      eventIndex: z.number(),
+      eventsFunction: eventsFunctionSchema,
+      eventIndex: eventPathSchema,
       action: z.object({
         type: z.string().describe('Action type identifier'),
         parameters: z.array(z.string()).describe('Action parameters'),
@@ -438,31 +687,29 @@ export function registerEventTools(
       sessionId,
       sceneName,
       externalEventsName,
+      eventsFunction,
       eventIndex,
       action,
       position,
     }) => {
       const session = projectManager.getSession(sessionId);
-      const project = session.getProject();
       const gd = session.gd;
+      const eventsList = getEventsList(session, sceneName, externalEventsName, eventsFunction);
 
-      let eventsList: GDEventsList;
+      const { event } = findEvent(eventsList, eventIndex);
+      const actionsList = getInstructionLists(gd, event).actions;
 
-      if (sceneName) {
-        eventsList = session.getLayout(sceneName).getEvents();
-      } else if (externalEventsName) {
-        eventsList = project.getExternalEvents(externalEventsName).getEvents();
-      } else {
-        throw new Error('Must specify either sceneName or externalEventsName');
-      }
-
-      const event = eventsList.getEventAt(eventIndex) as GDStandardEvent;
-
-      if (!event.getActions) {
+      if (!actionsList) {
         throw new Error('Event does not support actions');
       }
 
-      const actionsList = event.getActions();
+      validateInstruction(
+        gd,
+        getInstructionScope(session, sceneName, externalEventsName, eventsFunction),
+        'action',
+        action
+      );
+
       const instruction = new gd.Instruction();
 
       instruction.setType(action.type);
@@ -475,7 +722,7 @@ export function registerEventTools(
       actionsList.insert(instruction, pos);
       instruction.delete();
 
-      session.markDirty();
+      session.markDirty(`Add action "${action.type}"`);
 
       return {
         content: [
@@ -537,7 +784,7 @@ export function registerEventTools(
             extEvents.setAssociatedLayout(associatedLayout);
           }
 
-          session.markDirty();
+          session.markDirty(`Create external events "${name}"`);
 
           return {
             content: [
@@ -559,7 +806,7 @@ export function registerEventTools(
           }
 
           project.removeExternalEvents(name);
-          session.markDirty();
+          session.markDirty(`Delete external events "${name}"`);
 
           return {
             content: [
@@ -584,7 +831,7 @@ export function registerEventTools(
 
           const extEvents = project.getExternalEvents(name);
           extEvents.setName(newName);
-          session.markDirty();
+          session.markDirty(`Rename external events "${name}" to "${newName}"`);
 
           return {
             content: [
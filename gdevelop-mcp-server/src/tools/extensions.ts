@@ -1,6 +1,60 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ProjectManager } from '../core/project-manager.js';
+import {
+  EXTENSION_STORE_ORIGIN,
+  getRegistryPath,
+  loadExtensionRegistry,
+  describeRegistryExtension,
+  planExtensionInstall,
+  installRegistryExtension,
+  compareVersions,
+  getGDevelopVersion,
+  type RegistryExtension,
+} from '../core/extension-registry.js';
+import { findPlatformExtension, getExtensionContents } from '../core/metadata-catalog.js';
+import {
+  findExtensionReferences,
+  removeExtensionReferences,
+  formatReferences,
+} from '../core/usage-analysis.js';
+import type { GDProject } from '../types/gdcore.js';
+
+const registryParams = {
+  registryPath: z
+    .string()
+    .optional()
+    .describe(
+      'Extension registry: directory of extension .json files or a single file ' +
+        '(default: GDEVELOP_EXTENSION_REGISTRY)'
+    ),
+};
+
+function isInUsedExtensions(project: GDProject, extensionName: string): boolean {
+  const usedExtensions = project.getUsedExtensions();
+  for (let i = 0; i < usedExtensions.size(); i++) {
+    if (usedExtensions.at(i) === extensionName) return true;
+  }
+  return false;
+}
+
+/**
+ * Score how well an extension of the registry matches search words: 0 if a
+ * word is found nowhere, higher when words are found in the name.
+ */
+function getSearchScore(extension: RegistryExtension, words: string[]): number {
+  let score = 0;
+  for (const word of words) {
+    if (extension.name.toLowerCase() === word) score += 10;
+    else if (extension.name.toLowerCase().includes(word)) score += 5;
+    else if (extension.fullName.toLowerCase().includes(word)) score += 4;
+    else if (extension.tags.some((tag) => tag.toLowerCase().includes(word))) score += 3;
+    else if (extension.shortDescription.toLowerCase().includes(word)) score += 2;
+    else if (extension.category.toLowerCase().includes(word)) score += 1;
+    else return 0;
+  }
+  return score;
+}
 
 /**
  * Register extension management tools.
@@ -12,7 +66,8 @@ export function registerExtensionTools(
   // gdevelop_extension_list
   server.tool(
     'gdevelop_extension_list',
-    'List all extensions used in the project',
+    'List the extensions of the project: the extensions it uses and the events-based ' +
+      'extensions it contains, such as those installed from the registry, with their version',
     {
       sessionId: z.string(),
       includeBuiltin: z.boolean().default(false).describe('Include built-in extensions'),
@@ -20,32 +75,40 @@ export function registerExtensionTools(
     async ({ sessionId, includeBuiltin }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
+      const builtinExtensionNames = session.getBuiltinExtensionNames();
 
       const extensions: object[] = [];
 
-      // Get used extension names from the project
-      const usedExtensions = project.getUsedExtensions();
-      for (let i = 0; i < usedExtensions.size(); i++) {
-        const extName = usedExtensions.at(i);
+      // Events-based extensions are part of the project
+      for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+        const extension = project.getEventsFunctionsExtensionAt(i);
         extensions.push({
-          name: extName,
-          isBuiltin: extName.startsWith('Builtin'),
-          inUse: true,
+          name: extension.getName(),
+          fullName: extension.getFullName(),
+          version: extension.getVersion(),
+          isBuiltin: false,
+          fromRegistry: extension.getOriginName() === EXTENSION_STORE_ORIGIN,
         });
       }
 
-      // Filter out builtins if not requested
-      const filteredExtensions = includeBuiltin
-        ? extensions
-        : extensions.filter((ext: any) => !ext.isBuiltin);
+      // Other extensions are recorded as used by the project
+      const usedExtensions = project.getUsedExtensions();
+      for (let i = 0; i < usedExtensions.size(); i++) {
+        const name = usedExtensions.at(i);
+        const isBuiltin = builtinExtensionNames.has(name);
+        if (project.hasEventsFunctionsExtensionNamed(name) || (isBuiltin && !includeBuiltin)) {
+          continue;
+        }
+        extensions.push({ name, isBuiltin, inUse: true });
+      }
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              extensions: filteredExtensions,
-              totalCount: filteredExtensions.length,
+              extensions,
+              totalCount: extensions.length,
             }),
           },
         ],
@@ -56,39 +119,76 @@ export function registerExtensionTools(
   // gdevelop_extension_add
   server.tool(
     'gdevelop_extension_add',
-    'Add an extension to the project',
+    'Add an extension to the project. Extensions that are not built-in are installed from the local extension registry, with the extensions they require',
     {
       sessionId: z.string(),
       extensionName: z.string().describe('Name of the extension to add'),
+      ...registryParams,
+      ignoreCompatibility: z
+        .boolean()
+        .default(false)
+        .describe('Install even if the extension requires another GDevelop version'),
     },
-    async ({ sessionId, extensionName }) => {
+    async ({ sessionId, extensionName, registryPath, ignoreCompatibility }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
 
       // Check if extension is already added
-      const usedExtensions = project.getUsedExtensions();
-      for (let i = 0; i < usedExtensions.size(); i++) {
-        if (usedExtensions.at(i) === extensionName) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: true,
-                  alreadyExists: true,
-                  extensionName,
-                }),
-              },
-            ],
-          };
-        }
+      if (
+        isInUsedExtensions(project, extensionName) ||
+        project.hasEventsFunctionsExtensionNamed(extensionName)
+      ) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                alreadyExists: true,
+                extensionName,
+              }),
+            },
+          ],
+        };
+      }
+
+      // Built-in extensions are only recorded as used
+      if (session.getBuiltinExtensionNames().has(extensionName)) {
+        project.addUsedExtension(extensionName);
+        session.markDirty(`Add extension "${extensionName}"`);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                alreadyExists: false,
+                extensionName,
+              }),
+            },
+          ],
+        };
       }
 
-      // Add the extension
-      // Note: In a full implementation, would load extension from registry
-      // and validate it exists before adding
-      project.addUsedExtension(extensionName);
-      session.markDirty();
+      const registry = await loadExtensionRegistry(getRegistryPath(registryPath));
+      const plan = planExtensionInstall(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        registry,
+        [extensionName],
+        ignoreCompatibility
+      );
+      for (const extension of plan) {
+        installRegistryExtension(
+          session.gd,
+          project,
+          session.getBuiltinExtensionNames(),
+          extension
+        );
+      }
+      session.markDirty(`Install extension "${extensionName}"`);
 
       return {
         content: [
@@ -98,6 +198,163 @@ export function registerExtensionTools(
               success: true,
               alreadyExists: false,
               extensionName,
+              installed: plan.map(({ name, version }) => ({ name, version })),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_extension_update
+  server.tool(
+    'gdevelop_extension_update',
+    'Update extensions installed from the registry to their latest version in the local extension registry, with the extensions they require',
+    {
+      sessionId: z.string(),
+      extensionName: z
+        .string()
+        .optional()
+        .describe('Extension to update (default: all extensions installed from the registry)'),
+      ...registryParams,
+      ignoreCompatibility: z
+        .boolean()
+        .default(false)
+        .describe('Update even if the new version requires another GDevelop version'),
+    },
+    async ({ sessionId, extensionName, registryPath, ignoreCompatibility }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+
+      if (extensionName !== undefined && !project.hasEventsFunctionsExtensionNamed(extensionName)) {
+        throw new Error(`Extension "${extensionName}" is not installed in the project`);
+      }
+
+      const registry = await loadExtensionRegistry(getRegistryPath(registryPath));
+      const installedVersions = new Map<string, string>();
+      for (let i = 0; i < project.getEventsFunctionsExtensionsCount(); i++) {
+        const extension = project.getEventsFunctionsExtensionAt(i);
+        const fromRegistry =
+          extension.getName() === extensionName ||
+          (extensionName === undefined && extension.getOriginName() === EXTENSION_STORE_ORIGIN);
+        if (fromRegistry) installedVersions.set(extension.getName(), extension.getVersion());
+      }
+
+      const outdated = registry
+        .filter((entry) => installedVersions.has(entry.name))
+        .filter((entry) => compareVersions(entry.version, installedVersions.get(entry.name)!) > 0)
+        .map((entry) => entry.name);
+      const plan = planExtensionInstall(
+        session.gd,
+        project,
+        session.getBuiltinExtensionNames(),
+        registry,
+        outdated,
+        ignoreCompatibility
+      );
+
+      const updated = plan.map((extension) => {
+        const previousVersion = project.hasEventsFunctionsExtensionNamed(extension.name)
+          ? project.getEventsFunctionsExtension(extension.name).getVersion()
+          : undefined;
+        installRegistryExtension(
+          session.gd,
+          project,
+          session.getBuiltinExtensionNames(),
+          extension
+        );
+        return { name: extension.name, previousVersion, version: extension.version };
+      });
+      if (updated.length > 0) {
+        session.markDirty(
+          extensionName ? `Update extension "${extensionName}"` : 'Update extensions'
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              updated,
+              upToDate: [...installedVersions.keys()].filter((name) => !outdated.includes(name)),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_extension_store_list
+  server.tool(
+    'gdevelop_extension_store_list',
+    'List the extensions available in the local extension registry, with their installed version',
+    {
+      sessionId: z.string(),
+      ...registryParams,
+      category: z.string().optional().describe('Only list extensions of this category'),
+      onlyCompatible: z
+        .boolean()
+        .default(false)
+        .describe('Only list extensions working with this GDevelop version'),
+    },
+    async ({ sessionId, registryPath, category, onlyCompatible }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+
+      const registry = await loadExtensionRegistry(getRegistryPath(registryPath));
+      const extensions = registry
+        .filter((entry) => !category || entry.category.toLowerCase() === category.toLowerCase())
+        .map((entry) => describeRegistryExtension(session.gd, project, entry))
+        .filter((extension) => !onlyCompatible || extension.compatible);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ extensions, count: extensions.length }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_extension_store_search
+  server.tool(
+    'gdevelop_extension_store_search',
+    'Search the local extension registry by name, description, tags and category',
+    {
+      sessionId: z.string(),
+      query: z.string().describe('Words to search, all of them must match (e.g. "health bar")'),
+      ...registryParams,
+      tag: z.string().optional().describe('Only return extensions with this tag'),
+      limit: z.number().int().positive().default(20),
+    },
+    async ({ sessionId, query, registryPath, tag, limit }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const registry = await loadExtensionRegistry(getRegistryPath(registryPath));
+      const matches = registry
+        .filter(
+          (entry) =>
+            !tag || entry.tags.some((entryTag) => entryTag.toLowerCase() === tag.toLowerCase())
+        )
+        .map((entry) => ({ entry, score: getSearchScore(entry, words) }))
+        .filter(({ score }) => score > 0 || words.length === 0)
+        .sort((a, b) => b.score - a.score);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              extensions: matches
+                .slice(0, limit)
+                .map(({ entry }) => describeRegistryExtension(session.gd, project, entry)),
+              totalMatches: matches.length,
             }),
           },
         ],
@@ -108,38 +365,50 @@ export function registerExtensionTools(
   // gdevelop_extension_remove
   server.tool(
     'gdevelop_extension_remove',
-    'Remove an extension from the project',
+    'Remove an extension from the project. Refuses if objects, behaviors or instructions from the extension are used, unless force is set',
     {
       sessionId: z.string(),
       extensionName: z.string().describe('Name of the extension to remove'),
-      force: z.boolean().default(false).describe('Remove even if behaviors/objects from this extension are in use'),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Remove even if behaviors/objects from this extension are in use'),
+      cascade: z
+        .boolean()
+        .default(false)
+        .describe('With force, also remove the instructions of the extension, the behaviors ' +
+          'of its types, and the objects of its types with the instructions, events, ' +
+          'instances and group memberships using them'),
     },
-    async ({ sessionId, extensionName, force }) => {
+    async ({ sessionId, extensionName, force, cascade }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
 
-      // Check if extension exists in project
-      const usedExtensions = project.getUsedExtensions();
-      let found = false;
-      for (let i = 0; i < usedExtensions.size(); i++) {
-        if (usedExtensions.at(i) === extensionName) {
-          found = true;
-          break;
-        }
-      }
-
-      if (!found) {
+      const isUsedExtension = isInUsedExtensions(project, extensionName);
+      const isEventsExtension = project.hasEventsFunctionsExtensionNamed(extensionName);
+      if (!isUsedExtension && !isEventsExtension) {
         throw new Error(`Extension "${extensionName}" is not in the project`);
       }
 
-      // Check if extension is in use (behaviors or objects)
-      if (!force) {
-        // Would need to scan all objects for behaviors from this extension
-        // For now, provide warning in response
+      const references = findExtensionReferences(session.gd, project, extensionName);
+      if (references.length > 0 && !force) {
+        throw new Error(
+          `Extension "${extensionName}" is used in ${references.length} place(s):\n` +
+            `${formatReferences(references)}\n` +
+            'Pass force: true to remove it anyway, and cascade: true to also remove ' +
+            'these references.'
+        );
       }
 
-      project.removeUsedExtension(extensionName);
-      session.markDirty();
+      if (cascade && references.length > 0) {
+        removeExtensionReferences(session.gd, project, extensionName);
+      }
+      if (isUsedExtension) project.removeUsedExtension(extensionName);
+      if (isEventsExtension) {
+        project.removeEventsFunctionsExtension(extensionName);
+        session.unloadExtensionsMetadata([extensionName]);
+      }
+      session.markDirty(`Remove extension "${extensionName}"`);
 
       return {
         content: [
@@ -148,7 +417,8 @@ export function registerExtensionTools(
             text: JSON.stringify({
               success: true,
               extensionName,
-              warning: !force ? 'Ensure no behaviors or objects from this extension are still in use' : undefined,
+              referencesRemoved: cascade ? references.length : 0,
+              ...(!cascade && references.length > 0 ? { brokenReferences: references } : {}),
             }),
           },
         ],
@@ -159,7 +429,7 @@ export function registerExtensionTools(
   // gdevelop_extension_info
   server.tool(
     'gdevelop_extension_info',
-    'Get detailed information about an extension',
+    'Get detailed information about an extension: metadata and the objects, behaviors, instructions and expressions it provides',
     {
       sessionId: z.string(),
       extensionName: z.string(),
@@ -168,25 +438,45 @@ export function registerExtensionTools(
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
 
-      // Check if extension is used
-      const usedExtensions = project.getUsedExtensions();
-      let isUsed = false;
-      for (let i = 0; i < usedExtensions.size(); i++) {
-        if (usedExtensions.at(i) === extensionName) {
-          isUsed = true;
-          break;
-        }
+      const platformExtension = findPlatformExtension(
+        project.getCurrentPlatform(),
+        extensionName
+      );
+      const eventsExtension = project.hasEventsFunctionsExtensionNamed(extensionName)
+        ? project.getEventsFunctionsExtension(extensionName)
+        : undefined;
+      if (!platformExtension && !eventsExtension) {
+        throw new Error(`Extension "${extensionName}" not found`);
       }
 
+      const contents = platformExtension
+        ? getExtensionContents(platformExtension)
+        : { objectTypes: [], behaviorTypes: [], conditions: [], actions: [], expressions: [] };
+      const references = findExtensionReferences(session.gd, project, extensionName);
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               name: extensionName,
-              isUsed,
-              isBuiltin: extensionName.startsWith('Builtin'),
-              // Additional info would come from extension metadata/registry
+              fullName: eventsExtension?.getFullName() ?? platformExtension!.getFullName(),
+              description:
+                eventsExtension?.getDescription() ?? platformExtension!.getDescription(),
+              author: eventsExtension?.getAuthor() ?? platformExtension!.getAuthor(),
+              version: eventsExtension?.getVersion() ?? getGDevelopVersion(session.gd),
+              category: eventsExtension?.getCategory() ?? platformExtension!.getCategory(),
+              isBuiltin: !eventsExtension,
+              ...(eventsExtension?.getOriginName()
+                ? { origin: eventsExtension.getOriginName() }
+                : {}),
+              isUsed: isInUsedExtensions(project, extensionName) || references.length > 0,
+              referenceCount: references.length,
+              objects: contents.objectTypes,
+              behaviors: contents.behaviorTypes,
+              conditions: contents.conditions,
+              actions: contents.actions,
+              expressions: contents.expressions,
             }),
           },
         ],
@@ -0,0 +1,109 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import type { HistoryEntry } from '../core/project-session.js';
+
+/**
+ * Register undo/redo history tools.
+ */
+export function registerHistoryTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_undo
+  server.tool(
+    'gdevelop_undo',
+    'Undo the most recent changes made to a project',
+    {
+      sessionId: z.string(),
+      steps: z.number().int().min(1).default(1).describe('Number of changes to undo'),
+    },
+    async ({ sessionId, steps }) => {
+      const session = projectManager.getSession(sessionId);
+      const undone: HistoryEntry[] = [];
+
+      for (let i = 0; i < steps; i++) {
+        if (session.getHistory().undo.length === 0) break;
+        undone.push(session.undo());
+      }
+
+      if (undone.length === 0) {
+        throw new Error('Nothing to undo');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              undone,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_redo
+  server.tool(
+    'gdevelop_redo',
+    'Redo changes that were previously undone',
+    {
+      sessionId: z.string(),
+      steps: z.number().int().min(1).default(1).describe('Number of changes to redo'),
+    },
+    async ({ sessionId, steps }) => {
+      const session = projectManager.getSession(sessionId);
+      const redone: HistoryEntry[] = [];
+
+      for (let i = 0; i < steps; i++) {
+        if (session.getHistory().redo.length === 0) break;
+        redone.push(session.redo());
+      }
+
+      if (redone.length === 0) {
+        throw new Error('Nothing to redo');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              redone,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_history_list
+  server.tool(
+    'gdevelop_history_list',
+    'List the changes that can be undone or redone',
+    {
+      sessionId: z.string(),
+    },
+    async ({ sessionId }) => {
+      const session = projectManager.getSession(sessionId);
+      const history = session.getHistory();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              undo: history.undo,
+              redo: history.redo,
+              canUndo: history.undo.length > 0,
+              canRedo: history.redo.length > 0,
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -3,18 +3,34 @@ import { ProjectManager } from '../core/project-manager.js';
 import { registerInstanceTools } from './instances.js';
 import { registerEventTools } from './events.js';
 import { registerBehaviorTools } from './behaviors.js';
+import { registerObjectTools } from './objects.js';
+import { registerSpriteTools } from './sprites.js';
 import { registerLayerTools } from './layers.js';
+import { registerEffectTools } from './effects.js';
 import { registerResourceTools } from './resources.js';
 import { registerExportTools } from './export.js';
 import { registerExtensionTools } from './extensions.js';
+import { registerEventsExtensionTools } from './events-extensions.js';
+import { registerHistoryTools } from './history.js';
+import { registerReferenceTools } from './references.js';
+import { registerValidationTools } from './validation.js';
+import { registerTransactionTools } from './transaction.js';
 
 export { registerInstanceTools } from './instances.js';
 export { registerEventTools } from './events.js';
 export { registerBehaviorTools } from './behaviors.js';
+export { registerObjectTools } from './objects.js';
+export { registerSpriteTools } from './sprites.js';
 export { registerLayerTools } from './layers.js';
+export { registerEffectTools } from './effects.js';
 export { registerResourceTools } from './resources.js';
 export { registerExportTools } from './export.js';
 export { registerExtensionTools } from './extensions.js';
+export { registerEventsExtensionTools } from './events-extensions.js';
+export { registerHistoryTools } from './history.js';
+export { registerReferenceTools } from './references.js';
+export { registerValidationTools } from './validation.js';
+export { registerTransactionTools, recordToolRegistrations } from './transaction.js';
 
 /**
  * Register all additional tools with the MCP server.
@@ -27,8 +43,16 @@ export function registerAllAdditionalTools(
   registerInstanceTools(server, projectManager);
   registerEventTools(server, projectManager);
   registerBehaviorTools(server, projectManager);
+  registerObjectTools(server, projectManager);
+  registerSpriteTools(server, projectManager);
   registerLayerTools(server, projectManager);
+  registerEffectTools(server, projectManager);
   registerResourceTools(server, projectManager);
   registerExportTools(server, projectManager);
   registerExtensionTools(server, projectManager);
+  registerEventsExtensionTools(server, projectManager);
+  registerHistoryTools(server, projectManager);
+  registerReferenceTools(server, projectManager);
+  registerValidationTools(server, projectManager);
+  registerTransactionTools(server, projectManager);
 }
@@ -1,7 +1,139 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import * as path from 'path';
 import { ProjectManager } from '../core/project-manager.js';
-import type { GDInitialInstance } from '../types/gdcore.js';
+import {
+  getInstanceProperties,
+  updateInstanceProperties,
+  type ConfigurationValue,
+} from '../core/object-configuration.js';
+import {
+  readVariables,
+  writeVariable,
+  variableValueSchema,
+  type VariableValue,
+} from '../core/variables.js';
+import {
+  selectInstances,
+  getSelectionCenter,
+  moveInstances,
+  rotateInstances,
+  scaleInstances,
+} from '../core/instances.js';
+import {
+  locateInstances,
+  boundsOverlap,
+  boundsContain,
+  distanceToBounds,
+  farthestDistanceToBounds,
+  getLayerStats,
+  type Bounds,
+  type LocatedInstance,
+} from '../core/spatial.js';
+import { computePlacements } from '../core/placement.js';
+import type {
+  GD,
+  GDProject,
+  GDLayout,
+  GDInitialInstance,
+  GDVariablesContainer,
+} from '../types/gdcore.js';
+
+const propertyValuesSchema = z
+  .record(z.union([z.string(), z.number(), z.boolean()]))
+  .describe('Instance property values by name, as returned by gdevelop_instance_list');
+
+const variableValuesSchema = z
+  .record(variableValueSchema)
+  .describe('Values overriding the object variables, by name (structures and arrays as JSON)');
+
+/**
+ * Get the values of the properties of an instance, by name.
+ */
+function getInstancePropertyValues(
+  project: GDProject,
+  layout: GDLayout,
+  instance: GDInitialInstance
+): Record<string, ConfigurationValue> {
+  return Object.fromEntries(
+    Object.entries(getInstanceProperties(project, layout, instance)).map(([name, property]) => [
+      name,
+      property.value,
+    ])
+  );
+}
+
+/**
+ * Override variables of the object of an instance with new values.
+ * @throws Error if the object doesn't declare one of the variables.
+ */
+function setInstanceVariables(
+  container: GDVariablesContainer,
+  objectVariables: GDVariablesContainer,
+  objectName: string,
+  values: Record<string, VariableValue>
+): void {
+  // Instances can only override variables declared by their object
+  for (const name of Object.keys(values)) {
+    if (!objectVariables.has(name)) {
+      throw new Error(`Object "${objectName}" has no variable "${name}"`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    if (!container.has(name)) {
+      container.insert(name, objectVariables.get(name), container.count());
+    }
+    writeVariable(container.get(name), value);
+  }
+}
+
+/**
+ * Convert a box to a rectangle, as used by tools.
+ */
+function toRectangle(bounds: Bounds) {
+  return {
+    x: bounds.minX,
+    y: bounds.minY,
+    width: bounds.maxX - bounds.minX,
+    height: bounds.maxY - bounds.minY,
+  };
+}
+
+/**
+ * Describe an instance, with its variables and properties.
+ */
+function describeInstance(
+  gd: GD,
+  project: GDProject,
+  layout: GDLayout,
+  instance: GDInitialInstance
+): object {
+  const layer = instance.getLayer();
+  return {
+    id: instance.getPersistentUuid(),
+    objectName: instance.getObjectName(),
+    layer: layer || '(Base layer)',
+    x: instance.getX(),
+    y: instance.getY(),
+    z: instance.getZ(),
+    angle: instance.getAngle(),
+    zOrder: instance.getZOrder(),
+    customSize: instance.hasCustomSize()
+      ? {
+          width: instance.getCustomWidth(),
+          height: instance.getCustomHeight(),
+        }
+      : null,
+    locked: instance.isLocked(),
+    flipped: {
+      x: instance.isFlippedX(),
+      y: instance.isFlippedY(),
+    },
+    variables: readVariables(gd, instance.getVariables()),
+    properties: getInstancePropertyValues(project, layout, instance),
+  };
+}
 
 /**
  * Register instance management tools.
@@ -13,7 +145,8 @@ export function registerInstanceTools(
   // gdevelop_instance_list
   server.tool(
     'gdevelop_instance_list',
-    'List all object instances placed in a scene',
+    'List all object instances placed in a scene, with their variables (overriding those ' +
+      'of their object) and properties',
     {
       sessionId: z.string(),
       sceneName: z.string(),
@@ -22,6 +155,7 @@ export function registerInstanceTools(
     },
     async ({ sessionId, sceneName, filterByObject, filterByLayer }) => {
       const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
       const layout = session.getLayout(sceneName);
       const instancesContainer = layout.getInitialInstances();
 
@@ -34,26 +168,7 @@ export function registerInstanceTools(
         if (filterByObject && objectName !== filterByObject) return;
         if (filterByLayer && layer !== filterByLayer) return;
 
-        instances.push({
-          objectName,
-          layer: layer || '(Base layer)',
-          x: instance.getX(),
-          y: instance.getY(),
-          z: instance.getZ(),
-          angle: instance.getAngle(),
-          zOrder: instance.getZOrder(),
-          customSize: instance.hasCustomSize()
-            ? {
-                width: instance.getCustomWidth(),
-                height: instance.getCustomHeight(),
-              }
-            : null,
-          locked: instance.isLocked(),
-          flipped: {
-            x: instance.isFlippedX(),
-            y: instance.isFlippedY(),
-          },
-        });
+        instances.push(describeInstance(session.gd, project, layout, instance));
       });
 
       return {
@@ -88,6 +203,8 @@ export function registerInstanceTools(
       customHeight: z.number().optional(),
       flippedX: z.boolean().default(false),
       flippedY: z.boolean().default(false),
+      variables: variableValuesSchema.optional(),
+      properties: propertyValuesSchema.optional(),
     },
     async ({
       sessionId,
@@ -103,6 +220,8 @@ export function registerInstanceTools(
       customHeight,
       flippedX,
       flippedY,
+      variables,
+      properties,
     }) => {
       const session = projectManager.getSession(sessionId);
       const layout = session.getLayout(sceneName);
@@ -136,7 +255,27 @@ export function registerInstanceTools(
       instance.setFlippedX(flippedX);
       instance.setFlippedY(flippedY);
 
-      session.markDirty();
+      try {
+        if (properties) {
+          updateInstanceProperties(session.getProject(), layout, instance, properties);
+        }
+        if (variables) {
+          const object = layout.hasObjectNamed(objectName)
+            ? layout.getObject(objectName)
+            : session.getGlobalObject(objectName);
+          setInstanceVariables(
+            instance.getVariables(),
+            object.getVariables(),
+            objectName,
+            variables
+          );
+        }
+      } catch (error) {
+        layout.getInitialInstances().removeInstance(instance);
+        throw error;
+      }
+
+      session.markDirty(`Place instance of "${objectName}"`);
 
       return {
         content: [
@@ -144,6 +283,7 @@ export function registerInstanceTools(
             type: 'text',
             text: JSON.stringify({
               success: true,
+              id: instance.getPersistentUuid(),
               objectName,
               position: { x, y, z },
             }),
@@ -153,6 +293,177 @@ export function registerInstanceTools(
     }
   );
 
+  // gdevelop_instance_update
+  server.tool(
+    'gdevelop_instance_update',
+    'Update an instance by ID: position, angle, z, z-order, layer, custom size, flip and lock state',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      instanceId: z.string().describe('Instance ID returned by gdevelop_instance_list'),
+      x: z.number().optional(),
+      y: z.number().optional(),
+      z: z.number().optional().describe('Z position for 3D'),
+      angle: z.number().optional(),
+      zOrder: z.number().optional(),
+      layer: z.string().optional(),
+      customWidth: z.number().optional(),
+      customHeight: z.number().optional(),
+      useCustomSize: z
+        .boolean()
+        .optional()
+        .describe('Set to false to use the default size of the object again'),
+      flippedX: z.boolean().optional(),
+      flippedY: z.boolean().optional(),
+      locked: z.boolean().optional(),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      instanceId,
+      x,
+      y,
+      z,
+      angle,
+      zOrder,
+      layer,
+      customWidth,
+      customHeight,
+      useCustomSize,
+      flippedX,
+      flippedY,
+      locked,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+      const instance = session.getInstance(sceneName, instanceId);
+
+      if (layer !== undefined && !layout.hasLayerNamed(layer)) {
+        throw new Error(`Layer "${layer}" not found in scene "${sceneName}"`);
+      }
+
+      if (x !== undefined) instance.setX(x);
+      if (y !== undefined) instance.setY(y);
+      if (z !== undefined) instance.setZ(z);
+      if (angle !== undefined) instance.setAngle(angle);
+      if (zOrder !== undefined) instance.setZOrder(zOrder);
+      if (layer !== undefined) instance.setLayer(layer);
+
+      if (customWidth !== undefined || customHeight !== undefined) {
+        instance.setHasCustomSize(true);
+        if (customWidth !== undefined) instance.setCustomWidth(customWidth);
+        if (customHeight !== undefined) instance.setCustomHeight(customHeight);
+      }
+      if (useCustomSize !== undefined) instance.setHasCustomSize(useCustomSize);
+
+      if (flippedX !== undefined) instance.setFlippedX(flippedX);
+      if (flippedY !== undefined) instance.setFlippedY(flippedY);
+      if (locked !== undefined) instance.setLocked(locked);
+
+      session.markDirty(`Update instance of "${instance.getObjectName()}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              instance: describeInstance(session.gd, session.getProject(), layout, instance),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_instance_transform
+  server.tool(
+    'gdevelop_instance_transform',
+    'Move, rotate and/or scale a selection of instances: instances by ID, or the unlocked ' +
+      'instances of an object and/or on a layer. Scaling is applied first, then rotation, ' +
+      'then the move. Rotation and scale are around the center of the selection by default',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      instanceIds: z.array(z.string()).optional(),
+      objectName: z.string().optional(),
+      layer: z.string().optional(),
+      move: z.object({ dx: z.number().default(0), dy: z.number().default(0) }).optional(),
+      rotate: z.number().optional().describe('Angle in degrees, clockwise'),
+      scale: z
+        .union([z.number(), z.object({ x: z.number(), y: z.number() })])
+        .optional()
+        .describe('Scale factor, or factors for each axis (negative factors flip instances)'),
+      pivot: z
+        .object({ x: z.number(), y: z.number() })
+        .optional()
+        .describe('Center of rotation and scale'),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      instanceIds,
+      objectName,
+      layer,
+      move,
+      rotate,
+      scale,
+      pivot,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+
+      if (!instanceIds && objectName === undefined && layer === undefined) {
+        throw new Error('Must specify instanceIds, objectName or layer');
+      }
+      if (!move && rotate === undefined && scale === undefined) {
+        throw new Error('Must specify move, rotate or scale');
+      }
+
+      // Like in the editor, locked instances are only changed when selected explicitly
+      const instances = selectInstances(layout.getInitialInstances(), {
+        ids: instanceIds,
+        objectName,
+        layer,
+      }).filter((instance) => instanceIds || !instance.isLocked());
+
+      let unscaled: GDInitialInstance[] = [];
+      if (instances.length > 0) {
+        const center = pivot ?? getSelectionCenter(instances);
+        if (scale !== undefined) {
+          const { x: scaleX, y: scaleY } =
+            typeof scale === 'number' ? { x: scale, y: scale } : scale;
+          unscaled = scaleInstances(instances, scaleX, scaleY, center);
+        }
+        if (rotate !== undefined) rotateInstances(instances, rotate, center);
+        if (move) moveInstances(instances, move.dx, move.dy);
+
+        session.markDirty(`Transform ${instances.length} instances`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              transformedCount: instances.length,
+              instanceIds: instances.map((instance) => instance.getPersistentUuid()),
+              ...(unscaled.length > 0
+                ? {
+                    unscaledInstanceIds: unscaled.map((instance) => instance.getPersistentUuid()),
+                    note:
+                      'Only the position of these instances was scaled: ' +
+                      'set a custom size to scale them',
+                  }
+                : {}),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
   // gdevelop_instance_delete
   server.tool(
     'gdevelop_instance_delete',
@@ -160,17 +471,23 @@ export function registerInstanceTools(
     {
       sessionId: z.string(),
       sceneName: z.string(),
+      instanceIds: z.array(z.string()).optional().describe('Delete these instances'),
       objectName: z.string().optional().describe('Delete all instances of this object'),
       layer: z.string().optional().describe('Delete all instances on this layer'),
     },
-    async ({ sessionId, sceneName, objectName, layer }) => {
+    async ({ sessionId, sceneName, instanceIds, objectName, layer }) => {
       const session = projectManager.getSession(sessionId);
       const layout = session.getLayout(sceneName);
       const instances = layout.getInitialInstances();
 
       let deletedCount = 0;
 
-      if (objectName) {
+      if (instanceIds) {
+        for (const instance of selectInstances(instances, { ids: instanceIds })) {
+          instances.removeInstance(instance);
+          deletedCount++;
+        }
+      } else if (objectName) {
         // Count instances before deletion
         instances.iterateOverInstances((inst: GDInitialInstance) => {
           if (inst.getObjectName() === objectName) deletedCount++;
@@ -183,10 +500,10 @@ export function registerInstanceTools(
         });
         instances.removeAllInstancesOnLayer(layer);
       } else {
-        throw new Error('Must specify either objectName or layer');
+        throw new Error('Must specify instanceIds, objectName or layer');
       }
 
-      session.markDirty();
+      session.markDirty('Delete instances');
 
       return {
         content: [
@@ -226,7 +543,7 @@ export function registerInstanceTools(
       const layout = session.getLayout(sceneName);
       const instancesContainer = layout.getInitialInstances();
 
-      const results: object[] = [];
+      const results: { success: boolean; [field: string]: unknown }[] = [];
 
       for (const data of instancesData) {
         try {
@@ -254,6 +571,7 @@ export function registerInstanceTools(
 
           results.push({
             success: true,
+            id: instance.getPersistentUuid(),
             objectName: data.objectName,
             position: { x: data.x, y: data.y },
           });
@@ -266,16 +584,381 @@ export function registerInstanceTools(
         }
       }
 
-      session.markDirty();
+      session.markDirty('Place instances');
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              success: true,
+              // False when some instances could not be created
+              success: results.every((result) => result.success),
               results,
-              createdCount: results.filter((r: any) => r.success).length,
+              createdCount: results.filter((result) => result.success).length,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_instance_set_variables
+  server.tool(
+    'gdevelop_instance_set_variables',
+    'Set variables of an instance, overriding the values of its object variables ' +
+      '(e.g., the health of one enemy or the target of one door)',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      instanceId: z.string().describe('Instance ID returned by gdevelop_instance_list'),
+      variables: variableValuesSchema.default({}),
+      remove: z
+        .array(z.string())
+        .optional()
+        .describe('Variables to stop overriding, so that the object values are used again'),
+    },
+    async ({ sessionId, sceneName, instanceId, variables, remove }) => {
+      const session = projectManager.getSession(sessionId);
+      const instance = session.getInstance(sceneName, instanceId);
+      const container = instance.getVariables();
+      const objectName = instance.getObjectName();
+      const layout = session.getLayout(sceneName);
+      const object = layout.hasObjectNamed(objectName)
+        ? layout.getObject(objectName)
+        : session.getGlobalObject(objectName);
+
+      for (const name of remove ?? []) {
+        if (!container.has(name)) {
+          throw new Error(`Instance "${instanceId}" does not override variable "${name}"`);
+        }
+      }
+      for (const name of Object.keys(variables)) {
+        if (!object.getVariables().has(name)) {
+          throw new Error(`Object "${objectName}" has no variable "${name}"`);
+        }
+      }
+      for (const name of remove ?? []) {
+        container.remove(name);
+      }
+      setInstanceVariables(container, object.getVariables(), objectName, variables);
+
+      session.markDirty(`Set variables of instance of "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              variables: readVariables(session.gd, container),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_instance_set_properties
+  server.tool(
+    'gdevelop_instance_set_properties',
+    'Set properties of an instance declared by the type of its object (e.g., the ' +
+      'content of a text input or the settings of a tilemap)',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      instanceId: z.string().describe('Instance ID returned by gdevelop_instance_list'),
+      properties: propertyValuesSchema,
+    },
+    async ({ sessionId, sceneName, instanceId, properties }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const layout = session.getLayout(sceneName);
+      const instance = session.getInstance(sceneName, instanceId);
+
+      updateInstanceProperties(project, layout, instance, properties);
+      session.markDirty(`Set properties of instance of "${instance.getObjectName()}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              properties: getInstanceProperties(project, layout, instance),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_instance_query
+  server.tool(
+    'gdevelop_instance_query',
+    'Query instances by position, using their bounding boxes (custom size, or default size ' +
+      'of their object): instances in a rectangle or circle, nearest instances to a point, ' +
+      'instances overlapping another instance, or bounding box statistics of each layer',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      query: z.enum(['rectangle', 'circle', 'nearest', 'overlapping', 'layerStats']),
+      rectangle: z
+        .object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+        .optional()
+        .describe('For rectangle queries'),
+      circle: z
+        .object({ x: z.number(), y: z.number(), radius: z.number() })
+        .optional()
+        .describe('For circle queries'),
+      point: z.object({ x: z.number(), y: z.number() }).optional().describe('For nearest queries'),
+      instanceId: z.string().optional().describe('For overlapping queries'),
+      count: z.number().int().positive().default(5).describe('For nearest queries'),
+      fullyInside: z
+        .boolean()
+        .default(false)
+        .describe('For rectangle and circle queries: only instances entirely inside the area'),
+      objectName: z.string().optional().describe('Only consider instances of this object'),
+      layer: z.string().optional().describe('Only consider instances on this layer'),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      query,
+      rectangle,
+      circle,
+      point,
+      instanceId,
+      count,
+      fullyInside,
+      objectName,
+      layer,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const layout = session.getLayout(sceneName);
+      const locate = (instances: GDInitialInstance[]) =>
+        locateInstances(
+          session.gd,
+          project,
+          layout,
+          path.dirname(session.getProjectPath()),
+          instances
+        );
+
+      const located = await locate(
+        selectInstances(layout.getInitialInstances(), { objectName, layer })
+      );
+
+      let matches: Array<{ located: LocatedInstance; distance?: number }>;
+      switch (query) {
+        case 'rectangle': {
+          if (!rectangle) throw new Error('rectangle required for rectangle queries');
+          const area = {
+            minX: rectangle.x,
+            minY: rectangle.y,
+            maxX: rectangle.x + rectangle.width,
+            maxY: rectangle.y + rectangle.height,
+          };
+          matches = located
+            .filter(({ bounds }) =>
+              fullyInside ? boundsContain(area, bounds) : boundsOverlap(area, bounds)
+            )
+            .map((match) => ({ located: match }));
+          break;
+        }
+        case 'circle': {
+          if (!circle) throw new Error('circle required for circle queries');
+          matches = located
+            .filter(({ bounds }) =>
+              fullyInside
+                ? farthestDistanceToBounds(circle, bounds) <= circle.radius
+                : distanceToBounds(circle, bounds) < circle.radius
+            )
+            .map((match) => ({ located: match }));
+          break;
+        }
+        case 'nearest': {
+          if (!point) throw new Error('point required for nearest queries');
+          matches = located
+            .map((match) => ({ located: match, distance: distanceToBounds(point, match.bounds) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, count);
+          break;
+        }
+        case 'overlapping': {
+          if (!instanceId) throw new Error('instanceId required for overlapping queries');
+          const [target] = await locate([session.getInstance(sceneName, instanceId)]);
+          matches = located
+            .filter(
+              ({ instance, bounds }) =>
+                instance.getPersistentUuid() !== instanceId && boundsOverlap(target.bounds, bounds)
+            )
+            .map((match) => ({ located: match }));
+          break;
+        }
+        case 'layerStats':
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  layers: getLayerStats(located).map((stats) => ({
+                    ...stats,
+                    layer: stats.layer || '(Base layer)',
+                    bounds: toRectangle(stats.bounds),
+                  })),
+                }),
+              },
+            ],
+          };
+      }
+
+      const instances = matches.map(({ located: { instance, bounds, sizeEstimated }, distance }) => ({
+        id: instance.getPersistentUuid(),
+        objectName: instance.getObjectName(),
+        layer: instance.getLayer() || '(Base layer)',
+        x: instance.getX(),
+        y: instance.getY(),
+        bounds: toRectangle(bounds),
+        ...(distance !== undefined ? { distance } : {}),
+        ...(sizeEstimated ? { sizeEstimated } : {}),
+      }));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              instances,
+              totalCount: instances.length,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_instance_place_pattern
+  server.tool(
+    'gdevelop_instance_place_pattern',
+    'Place many instances at once following a pattern: a grid, along a line or polyline, ' +
+      'around a circle, scattered randomly (with a seed and minimum distance), or from a ' +
+      'character map where each character of the legend is replaced by an object',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      objectName: z.string().optional().describe('Object to place (not used by maps)'),
+      layer: z.string().default(''),
+      zOrder: z.number().optional(),
+      pattern: z.discriminatedUnion('type', [
+        z.object({
+          type: z.literal('grid'),
+          x: z.number().default(0),
+          y: z.number().default(0),
+          rows: z.number().int().positive(),
+          columns: z.number().int().positive(),
+          spacingX: z.number(),
+          spacingY: z.number(),
+        }),
+        z.object({
+          type: z.literal('line'),
+          points: z
+            .array(z.object({ x: z.number(), y: z.number() }))
+            .min(2)
+            .describe('Start and end of the line, with intermediate points for a polyline'),
+          spacing: z.number().positive().optional().describe('Distance between instances'),
+          count: z.number().int().positive().optional().describe('Or number of instances'),
+        }),
+        z.object({
+          type: z.literal('circle'),
+          x: z.number(),
+          y: z.number(),
+          radius: z.number().positive(),
+          count: z.number().int().positive(),
+          startAngle: z.number().default(0),
+          rotate: z.boolean().default(false).describe('Turn instances to follow the circle'),
+        }),
+        z.object({
+          type: z.literal('scatter'),
+          x: z.number(),
+          y: z.number(),
+          width: z.number().positive(),
+          height: z.number().positive(),
+          count: z.number().int().positive(),
+          minDistance: z.number().min(0).default(0),
+          seed: z.number().int().optional().describe('Same seed, same positions'),
+        }),
+        z.object({
+          type: z.literal('map'),
+          x: z.number().default(0),
+          y: z.number().default(0),
+          rows: z.array(z.string()).describe('Lines of the map, from top to bottom'),
+          legend: z
+            .record(z.string())
+            .describe('Object name by character (e.g., {"#": "Wall", "C": "Coin"})'),
+          cellWidth: z.number().positive(),
+          cellHeight: z.number().positive(),
+        }),
+      ]),
+    },
+    async ({ sessionId, sceneName, objectName, layer, zOrder, pattern }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+
+      if (!layout.hasLayerNamed(layer)) {
+        throw new Error(`Layer "${layer}" not found in scene "${sceneName}"`);
+      }
+      if (pattern.type !== 'map' && !objectName) {
+        throw new Error(`objectName required for ${pattern.type} patterns`);
+      }
+      const objectNames =
+        pattern.type === 'map' ? Object.values(pattern.legend) : [objectName!];
+      for (const name of objectNames) {
+        if (!layout.hasObjectNamed(name) && !session.hasGlobalObject(name)) {
+          throw new Error(`Object "${name}" not found in scene or globally`);
+        }
+      }
+
+      // Scattering without a seed uses a random one, returned to place the same again
+      const seed =
+        pattern.type === 'scatter' ? (pattern.seed ?? Math.floor(Math.random() * 2 ** 31)) : 0;
+      const placements = computePlacements(
+        pattern.type === 'scatter' ? { ...pattern, seed } : pattern
+      );
+
+      const instancesContainer = layout.getInitialInstances();
+      const instanceIds: string[] = [];
+      for (const placement of placements) {
+        const instance = instancesContainer.insertNewInitialInstance();
+        instance.setObjectName(placement.objectName ?? objectName!);
+        instance.setX(placement.x);
+        instance.setY(placement.y);
+        instance.setLayer(layer);
+        if (placement.angle !== undefined) instance.setAngle(placement.angle);
+        if (zOrder !== undefined) instance.setZOrder(zOrder);
+        instanceIds.push(instance.getPersistentUuid());
+      }
+
+      if (placements.length > 0) {
+        session.markDirty(`Place ${placements.length} instances (${pattern.type})`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              createdCount: instanceIds.length,
+              instanceIds,
+              ...(pattern.type === 'scatter'
+                ? {
+                    seed,
+                    ...(placements.length < pattern.count
+                      ? { note: `Only ${placements.length} instances fit with this minDistance` }
+                      : {}),
+                  }
+                : {}),
             }),
           },
         ],
@@ -1,6 +1,14 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ProjectManager } from '../core/project-manager.js';
+import {
+  LAYER_RENDERING_TYPES,
+  LAYER_CAMERA_TYPES,
+  getLayerCameraSettings,
+  getLayerCameras,
+  setLayerCameras,
+  createDefaultCamera,
+} from '../core/cameras.js';
 
 /**
  * Register layer management tools.
@@ -32,7 +40,9 @@ export function registerLayerTools(
           visible: layer.getVisibility(),
           locked: layer.isLocked(),
           isLightingLayer: layer.isLightingLayer(),
-          cameraCount: layer.getCamerasCount(),
+          renderingType: layer.getRenderingType(),
+          cameraType: layer.getCameraType(),
+          cameraCount: layer.getCameraCount(),
           effectCount: layer.getEffects().getEffectsCount(),
         });
       }
@@ -97,7 +107,7 @@ export function registerLayerTools(
         );
       }
 
-      session.markDirty();
+      session.markDirty(`Create layer "${name}"`);
 
       return {
         content: [
@@ -148,7 +158,7 @@ export function registerLayerTools(
       }
 
       layout.removeLayer(layerName);
-      session.markDirty();
+      session.markDirty(`Delete layer "${layerName}"`);
 
       return {
         content: [
@@ -183,6 +193,19 @@ export function registerLayerTools(
             b: z.number().min(0).max(255),
           })
           .optional(),
+        renderingType: z
+          .enum(LAYER_RENDERING_TYPES)
+          .optional()
+          .describe('Objects displayed: "2d", "3d" or "" for both (default)'),
+        cameraType: z.enum(LAYER_CAMERA_TYPES).optional().describe('3D camera projection'),
+        fieldOfView: z
+          .number()
+          .gt(0)
+          .lt(180)
+          .optional()
+          .describe('Vertical field of view of the 3D camera, in degrees'),
+        nearPlaneDistance: z.number().positive().optional(),
+        farPlaneDistance: z.number().positive().optional(),
       }),
     },
     async ({ sessionId, sceneName, layerName, properties }) => {
@@ -196,6 +219,15 @@ export function registerLayerTools(
       const layer = layout.getLayer(layerName);
       const updated: string[] = [];
 
+      const nearPlaneDistance =
+        properties.nearPlaneDistance ?? layer.getCamera3DNearPlaneDistance();
+      const farPlaneDistance = properties.farPlaneDistance ?? layer.getCamera3DFarPlaneDistance();
+      if (nearPlaneDistance >= farPlaneDistance) {
+        throw new Error(
+          `Near plane distance (${nearPlaneDistance}) must be less than far plane distance (${farPlaneDistance})`
+        );
+      }
+
       if (properties.visible !== undefined) {
         layer.setVisibility(properties.visible);
         updated.push('visible');
@@ -220,7 +252,32 @@ export function registerLayerTools(
         updated.push('ambientLightColor');
       }
 
-      session.markDirty();
+      if (properties.renderingType !== undefined) {
+        layer.setRenderingType(properties.renderingType);
+        updated.push('renderingType');
+      }
+
+      if (properties.cameraType !== undefined) {
+        layer.setCameraType(properties.cameraType);
+        updated.push('cameraType');
+      }
+
+      if (properties.fieldOfView !== undefined) {
+        layer.setCamera3DFieldOfView(properties.fieldOfView);
+        updated.push('fieldOfView');
+      }
+
+      if (properties.nearPlaneDistance !== undefined) {
+        layer.setCamera3DNearPlaneDistance(properties.nearPlaneDistance);
+        updated.push('nearPlaneDistance');
+      }
+
+      if (properties.farPlaneDistance !== undefined) {
+        layer.setCamera3DFarPlaneDistance(properties.farPlaneDistance);
+        updated.push('farPlaneDistance');
+      }
+
+      session.markDirty(`Update layer "${layerName}"`);
 
       return {
         content: [
@@ -264,7 +321,7 @@ export function registerLayerTools(
       }
 
       layout.moveLayer(oldPosition, newPosition);
-      session.markDirty();
+      session.markDirty(`Move layer "${layerName}"`);
 
       return {
         content: [
@@ -280,4 +337,157 @@ export function registerLayerTools(
       };
     }
   );
+
+  // gdevelop_layer_camera_list
+  server.tool(
+    'gdevelop_layer_camera_list',
+    'Get the cameras of a layer (size, viewport) and its 3D camera settings',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      layerName: z.string(),
+    },
+    async ({ sessionId, sceneName, layerName }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+
+      if (!layout.hasLayerNamed(layerName)) {
+        throw new Error(`Layer "${layerName}" not found`);
+      }
+
+      const settings = getLayerCameraSettings(session.gd, layout.getLayer(layerName));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(settings),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_layer_camera_set
+  server.tool(
+    'gdevelop_layer_camera_set',
+    'Configure a camera of a layer. Using the index after the last camera adds a camera',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      layerName: z.string(),
+      cameraIndex: z.number().int().min(0).default(0),
+      useGameResolution: z
+        .boolean()
+        .optional()
+        .describe('Use the game resolution as camera size, instead of width and height'),
+      width: z.number().nonnegative().optional(),
+      height: z.number().nonnegative().optional(),
+      useDefaultViewport: z
+        .boolean()
+        .optional()
+        .describe('Render on the whole screen, instead of the viewport'),
+      viewport: z
+        .object({
+          left: z.number().min(0).max(1),
+          top: z.number().min(0).max(1),
+          right: z.number().min(0).max(1),
+          bottom: z.number().min(0).max(1),
+        })
+        .optional()
+        .describe('Area of the screen where the camera renders, as fractions of the screen size'),
+    },
+    async ({
+      sessionId,
+      sceneName,
+      layerName,
+      cameraIndex,
+      useGameResolution,
+      width,
+      height,
+      useDefaultViewport,
+      viewport,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+
+      if (!layout.hasLayerNamed(layerName)) {
+        throw new Error(`Layer "${layerName}" not found`);
+      }
+
+      const layer = layout.getLayer(layerName);
+      const cameras = getLayerCameras(session.gd, layer);
+      if (cameraIndex > cameras.length) {
+        throw new Error(
+          `Camera ${cameraIndex} not found (layer has ${cameras.length} cameras, use ${cameras.length} to add one)`
+        );
+      }
+
+      const camera = cameras[cameraIndex] ?? createDefaultCamera();
+      // Giving a size or a viewport means not using the default one, unless told otherwise
+      if (width !== undefined || height !== undefined) camera.useGameResolution = false;
+      if (useGameResolution !== undefined) camera.useGameResolution = useGameResolution;
+      camera.width = width ?? camera.width;
+      camera.height = height ?? camera.height;
+      if (viewport) camera.useDefaultViewport = false;
+      if (useDefaultViewport !== undefined) camera.useDefaultViewport = useDefaultViewport;
+      camera.viewport = viewport ?? camera.viewport;
+      cameras[cameraIndex] = camera;
+
+      setLayerCameras(session.gd, layer, cameras);
+      session.markDirty(`Update camera ${cameraIndex} of layer "${layerName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              cameraIndex,
+              cameras: getLayerCameras(session.gd, layer),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_layer_camera_remove
+  server.tool(
+    'gdevelop_layer_camera_remove',
+    'Remove a camera from a layer (a layer keeps at least one camera)',
+    {
+      sessionId: z.string(),
+      sceneName: z.string(),
+      layerName: z.string(),
+      cameraIndex: z.number().int().min(0),
+    },
+    async ({ sessionId, sceneName, layerName, cameraIndex }) => {
+      const session = projectManager.getSession(sessionId);
+      const layout = session.getLayout(sceneName);
+
+      if (!layout.hasLayerNamed(layerName)) {
+        throw new Error(`Layer "${layerName}" not found`);
+      }
+
+      const layer = layout.getLayer(layerName);
+      const cameras = getLayerCameras(session.gd, layer);
+      if (cameraIndex >= cameras.length) {
+        throw new Error(`Camera ${cameraIndex} not found`);
+      }
+
+      cameras.splice(cameraIndex, 1);
+      setLayerCameras(session.gd, layer, cameras);
+      session.markDirty(`Remove camera ${cameraIndex} of layer "${layerName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, cameras }),
+          },
+        ],
+      };
+    }
+  );
 }
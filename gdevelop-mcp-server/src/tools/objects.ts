@@ -0,0 +1,80 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import {
+  getConfigurationProperties,
+  updateConfigurationProperties,
+} from '../core/object-configuration.js';
+
+/**
+ * Register object configuration tools.
+ */
+export function registerObjectTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_object_config_get
+  server.tool(
+    'gdevelop_object_config_get',
+    'Get the configuration properties of an object (text, font, size, colors, textures, emitter settings...)',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+    },
+    async ({ sessionId, objectName, sceneName }) => {
+      const session = projectManager.getSession(sessionId);
+      const object = session.getObject(objectName, sceneName);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              objectName,
+              objectType: object.getType(),
+              properties: getConfigurationProperties(session.gd, object),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_object_config_update
+  server.tool(
+    'gdevelop_object_config_update',
+    'Update configuration properties of an object. Property names are those returned by gdevelop_object_config_get',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+      properties: z
+        .record(z.union([z.string(), z.number(), z.boolean()]))
+        .describe('Property values by name (e.g., {"text": "Score: 0", "characterSize": 24})'),
+    },
+    async ({ sessionId, objectName, sceneName, properties }) => {
+      const session = projectManager.getSession(sessionId);
+      const object = session.getObject(objectName, sceneName);
+
+      const updated = updateConfigurationProperties(session.gd, object, properties);
+      const rejected = Object.keys(properties).filter((name) => !updated.includes(name));
+
+      session.markDirty(`Configure object "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: rejected.length === 0,
+              updatedProperties: updated,
+              ...(rejected.length > 0 ? { rejectedProperties: rejected } : {}),
+              properties: getConfigurationProperties(session.gd, object),
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,119 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import {
+  findObjectReferences,
+  findBehaviorReferences,
+  findVariableReferences,
+  findLayerReferences,
+  findResourceReferences,
+  findSceneReferences,
+  findExternalEventsReferences,
+  countReferences,
+  type Reference,
+} from '../core/usage-analysis.js';
+
+/**
+ * Register reference search tools.
+ */
+export function registerReferenceTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_find_references
+  server.tool(
+    'gdevelop_find_references',
+    'Find every place where an object, behavior, variable, layer, resource, scene or ' +
+      'external events is used: instructions (with event path), instances, groups, ' +
+      'objects and links, across scenes, external events/layouts and extension functions',
+    {
+      sessionId: z.string(),
+      kind: z.enum([
+        'object',
+        'behavior',
+        'variable',
+        'layer',
+        'resource',
+        'scene',
+        'externalEvents',
+      ]),
+      name: z.string(),
+      sceneName: z
+        .string()
+        .optional()
+        .describe('Scene of the object, variable or layer (omit for global objects and variables)'),
+      objectName: z
+        .string()
+        .optional()
+        .describe('Object owning the variable or behavior (for object variables and behaviors)'),
+    },
+    async ({ sessionId, kind, name, sceneName, objectName }) => {
+      const session = projectManager.getSession(sessionId);
+      const project = session.getProject();
+      const gd = session.gd;
+      const layout = sceneName ? session.getLayout(sceneName) : undefined;
+
+      let references: Reference[];
+      switch (kind) {
+        case 'object':
+          session.getObject(name, sceneName);
+          references = findObjectReferences(gd, project, name, { layout });
+          break;
+        case 'behavior':
+          references = findBehaviorReferences(gd, project, name, objectName);
+          break;
+        case 'variable': {
+          const container = objectName
+            ? session.getObject(objectName, sceneName).getVariables()
+            : layout
+              ? layout.getVariables()
+              : session.getGlobalVariables();
+          if (!container.has(name)) {
+            throw new Error(`Variable "${name}" not found`);
+          }
+          references = findVariableReferences(gd, project, name, { layout, objectName });
+          break;
+        }
+        case 'layer':
+          if (!layout) throw new Error('sceneName required for layers');
+          if (!layout.hasLayerNamed(name)) {
+            throw new Error(`Layer "${name}" not found in scene "${sceneName}"`);
+          }
+          references = findLayerReferences(gd, project, name, layout);
+          break;
+        case 'resource':
+          if (!project.getResourcesManager().hasResource(name)) {
+            throw new Error(`Resource "${name}" not found`);
+          }
+          references = findResourceReferences(gd, project, name);
+          break;
+        case 'scene':
+          if (!session.hasLayout(name)) {
+            throw new Error(`Layout "${name}" not found`);
+          }
+          references = findSceneReferences(gd, project, name);
+          break;
+        case 'externalEvents':
+          if (!project.hasExternalEventsNamed(name)) {
+            throw new Error(`External events "${name}" not found`);
+          }
+          references = findExternalEventsReferences(gd, project, name);
+          break;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              kind,
+              name,
+              references,
+              counts: countReferences(references),
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,11 +1,38 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import * as path from 'path';
+import * as fs from 'fs/promises';
 import { ProjectManager } from '../core/project-manager.js';
+import {
+  findResourceReferences,
+  replaceResourceReferences,
+  formatReferences,
+} from '../core/usage-analysis.js';
+
+// GDCore resource class for each resource kind
+const RESOURCE_CLASSES = {
+  image: 'ImageResource',
+  audio: 'AudioResource',
+  font: 'FontResource',
+  video: 'VideoResource',
+  json: 'JsonResource',
+  tilemap: 'TilemapResource',
+  tileset: 'TilesetResource',
+  model3D: 'Model3DResource',
+  atlas: 'AtlasResource',
+  spine: 'SpineResource',
+  bitmapFont: 'BitmapFontResource',
+  javascript: 'JavaScriptResource',
+} as const;
+
+type ResourceKind = keyof typeof RESOURCE_CLASSES;
+
+const RESOURCE_KINDS = Object.keys(RESOURCE_CLASSES) as [ResourceKind, ...ResourceKind[]];
 
 /**
  * Register resource management tools.
  * Supported resource kinds: image, audio, font, video, json, tilemap,
- * tileset, model3d, atlas, bitmapFont, javascript
+ * tileset, model3D, atlas, spine, bitmapFont, javascript
  */
 export function registerResourceTools(
   server: McpServer,
@@ -17,20 +44,7 @@ export function registerResourceTools(
     'List all resources in the project',
     {
       sessionId: z.string(),
-      filterByType: z
-        .enum([
-          'image',
-          'audio',
-          'font',
-          'video',
-          'json',
-          'tilemap',
-          'model3d',
-          'atlas',
-          'bitmapFont',
-          'javascript',
-        ])
-        .optional(),
+      filterByType: z.enum(RESOURCE_KINDS).optional(),
     },
     async ({ sessionId, filterByType }) => {
       const session = projectManager.getSession(sessionId);
@@ -75,36 +89,58 @@ export function registerResourceTools(
     {
       sessionId: z.string(),
       name: z.string(),
-      kind: z.enum([
-        'image',
-        'audio',
-        'font',
-        'video',
-        'json',
-        'tilemap',
-        'model3d',
-        'javascript',
-      ]),
-      file: z.string().describe('Relative path to the resource file'),
-      metadata: z.string().optional(),
+      kind: z.enum(RESOURCE_KINDS),
+      file: z.string().describe('Path to the resource file, relative to the project directory'),
+      metadata: z.string().optional().describe('Resource metadata as a JSON string'),
     },
-    async ({ sessionId, name, kind, file, metadata: _metadata }) => {
+    async ({ sessionId, name, kind, file, metadata }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
       const resourcesManager = project.getResourcesManager();
+      const gd = session.gd;
 
       if (resourcesManager.hasResource(name)) {
         throw new Error(`Resource "${name}" already exists`);
       }
 
-      // Create resource based on kind
-      // Note: In a real implementation, would use specific resource classes
-      // This is a simplified version
+      // Resources are stored relative to the project file
+      const projectDir = path.dirname(session.getProjectPath());
+      const absoluteFile = path.resolve(projectDir, file);
+      const relativePath = path.relative(projectDir, absoluteFile);
+      const isOutside =
+        relativePath === '..' || relativePath.startsWith(`..${path.sep}`);
+      if (isOutside || path.isAbsolute(relativePath)) {
+        throw new Error(`Resource file "${file}" is outside the project directory`);
+      }
+      const relativeFile = relativePath.split(path.sep).join('/');
 
-      // Would need to create appropriate resource object and add it
-      // resourcesManager.addResource(resource);
+      try {
+        await fs.access(absoluteFile);
+      } catch {
+        throw new Error(`Resource file "${file}" not found in project directory`);
+      }
+
+      if (metadata !== undefined) {
+        try {
+          JSON.parse(metadata);
+        } catch {
+          throw new Error('metadata must be a valid JSON string');
+        }
+      }
+
+      const resource = new gd[RESOURCE_CLASSES[kind]]();
+      resource.setName(name);
+      resource.setFile(relativeFile);
+      resource.setUserAdded(true);
+      if (metadata !== undefined) {
+        resource.setMetadata(metadata);
+      }
 
-      session.markDirty();
+      // The resources manager stores its own copy of the resource
+      resourcesManager.addResource(resource);
+      resource.delete();
+
+      session.markDirty(`Add resource "${name}"`);
 
       return {
         content: [
@@ -114,7 +150,7 @@ export function registerResourceTools(
               success: true,
               resourceName: name,
               kind,
-              file,
+              file: relativeFile,
             }),
           },
         ],
@@ -125,12 +161,22 @@ export function registerResourceTools(
   // gdevelop_resource_remove
   server.tool(
     'gdevelop_resource_remove',
-    'Remove a resource from the project',
+    'Remove a resource from the project. Refuses if the resource is used by objects or ' +
+      'events, unless force is set',
     {
       sessionId: z.string(),
       resourceName: z.string(),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Remove even if used: objects stop using the resource and instructions ' +
+          'using it are removed, unless replaceWith is set'),
+      replaceWith: z
+        .string()
+        .optional()
+        .describe('With force, resource to use instead in objects and instructions'),
     },
-    async ({ sessionId, resourceName }) => {
+    async ({ sessionId, resourceName, force, replaceWith }) => {
       const session = projectManager.getSession(sessionId);
       const project = session.getProject();
       const resourcesManager = project.getResourcesManager();
@@ -138,15 +184,34 @@ export function registerResourceTools(
       if (!resourcesManager.hasResource(resourceName)) {
         throw new Error(`Resource "${resourceName}" not found`);
       }
+      if (replaceWith !== undefined && !resourcesManager.hasResource(replaceWith)) {
+        throw new Error(`Resource "${replaceWith}" not found`);
+      }
+
+      const references = findResourceReferences(session.gd, project, resourceName);
+      if (references.length > 0 && !force) {
+        throw new Error(
+          `Resource "${resourceName}" is used in ${references.length} place(s):\n` +
+            `${formatReferences(references)}\n` +
+            'Pass force: true to remove it and update these references.'
+        );
+      }
 
+      if (references.length > 0) {
+        replaceResourceReferences(session.gd, project, resourceName, replaceWith ?? '');
+      }
       resourcesManager.removeResource(resourceName);
-      session.markDirty();
+      session.markDirty(`Remove resource "${resourceName}"`);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ success: true }),
+            text: JSON.stringify({
+              success: true,
+              referencesUpdated: references.length,
+              ...(replaceWith !== undefined ? { replacedWith: replaceWith } : {}),
+            }),
           },
         ],
       };
@@ -175,7 +240,7 @@ export function registerResourceTools(
       }
 
       resourcesManager.renameResource(currentName, newName);
-      session.markDirty();
+      session.markDirty(`Rename resource "${currentName}" to "${newName}"`);
 
       return {
         content: [
@@ -0,0 +1,566 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import { ProjectSession } from '../core/project-session.js';
+import type {
+  GD,
+  GDDirection,
+  GDSprite,
+  GDSpriteAnimationList,
+  GDSpriteObject,
+} from '../types/gdcore.js';
+
+const DEFAULT_TIME_BETWEEN_FRAMES = 0.08;
+
+// Animation name or index
+const animationSchema = z
+  .union([z.number().int().min(0), z.string()])
+  .describe('Animation name or index');
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const directionSchema = z.object({
+  frames: z.array(z.string()).describe('Image resource names, in order'),
+  timeBetweenFrames: z.number().positive().default(DEFAULT_TIME_BETWEEN_FRAMES),
+  loop: z.boolean().default(false),
+});
+
+/**
+ * Get the configuration of a Sprite object.
+ * @throws Error if the object is not a Sprite.
+ */
+function getSpriteConfiguration(
+  session: ProjectSession,
+  objectName: string,
+  sceneName: string | undefined
+): GDSpriteObject {
+  const object = session.getObject(objectName, sceneName);
+  if (object.getType() !== 'Sprite') {
+    throw new Error(`Object "${objectName}" is not a Sprite (is "${object.getType()}")`);
+  }
+  return session.gd.asSpriteConfiguration(object.getConfiguration());
+}
+
+/**
+ * Find an animation by name or index.
+ * @returns The index of the animation.
+ */
+function findAnimation(animations: GDSpriteAnimationList, animation: string | number): number {
+  if (typeof animation === 'number') {
+    if (animation >= animations.getAnimationsCount()) {
+      throw new Error(
+        `Animation index ${animation} out of range (0-${animations.getAnimationsCount() - 1})`
+      );
+    }
+    return animation;
+  }
+
+  for (let i = 0; i < animations.getAnimationsCount(); i++) {
+    if (animations.getAnimation(i).getName() === animation) return i;
+  }
+  throw new Error(`Animation "${animation}" not found`);
+}
+
+/**
+ * Check that every frame references an existing image resource.
+ */
+function checkImageResources(session: ProjectSession, images: string[]): void {
+  const resourcesManager = session.getProject().getResourcesManager();
+
+  for (const image of images) {
+    if (!resourcesManager.hasResource(image)) {
+      throw new Error(`Image resource "${image}" not found. Add it with gdevelop_resource_add`);
+    }
+    if (resourcesManager.getResource(image).getKind() !== 'image') {
+      throw new Error(`Resource "${image}" is not an image`);
+    }
+  }
+}
+
+/**
+ * Append frames made of the given images to a direction.
+ */
+function addFrames(gd: GD, direction: GDDirection, images: string[]): void {
+  for (const image of images) {
+    const sprite = new gd.Sprite();
+    sprite.setImageName(image);
+    direction.addSprite(sprite);
+    sprite.delete();
+  }
+}
+
+function serializeFrame(sprite: GDSprite) {
+  const points: object[] = [];
+  const nonDefaultPoints = sprite.getAllNonDefaultPoints();
+  for (let i = 0; i < nonDefaultPoints.size(); i++) {
+    const point = nonDefaultPoints.at(i);
+    points.push({ name: point.getName(), x: point.getX(), y: point.getY() });
+  }
+
+  let collisionMask: 'fullImage' | { x: number; y: number }[][] = 'fullImage';
+  if (!sprite.isFullImageCollisionMask()) {
+    collisionMask = [];
+    const polygons = sprite.getCustomCollisionMask();
+    for (let i = 0; i < polygons.size(); i++) {
+      const vertices = polygons.at(i).getVertices();
+      const polygon: { x: number; y: number }[] = [];
+      for (let j = 0; j < vertices.size(); j++) {
+        polygon.push({ x: vertices.at(j).x, y: vertices.at(j).y });
+      }
+      collisionMask.push(polygon);
+    }
+  }
+
+  const origin = sprite.getOrigin();
+  const center = sprite.getCenter();
+
+  return {
+    image: sprite.getImageName(),
+    origin: { x: origin.getX(), y: origin.getY() },
+    center: sprite.isDefaultCenterPoint() ? 'automatic' : { x: center.getX(), y: center.getY() },
+    points,
+    collisionMask,
+  };
+}
+
+function serializeAnimations(animations: GDSpriteAnimationList) {
+  const result: object[] = [];
+
+  for (let i = 0; i < animations.getAnimationsCount(); i++) {
+    const animation = animations.getAnimation(i);
+    const directions: object[] = [];
+
+    for (let d = 0; d < animation.getDirectionsCount(); d++) {
+      const direction = animation.getDirection(d);
+      const frames: object[] = [];
+      for (let f = 0; f < direction.getSpritesCount(); f++) {
+        frames.push(serializeFrame(direction.getSprite(f)));
+      }
+      directions.push({
+        timeBetweenFrames: direction.getTimeBetweenFrames(),
+        loop: direction.isLooping(),
+        frames,
+      });
+    }
+
+    result.push({
+      index: i,
+      name: animation.getName(),
+      useMultipleDirections: animation.useMultipleDirections(),
+      directions,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Register Sprite animation tools.
+ */
+export function registerSpriteTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_sprite_animation_list
+  server.tool(
+    'gdevelop_sprite_animation_list',
+    'List the animations of a Sprite object, with their directions, frames, points and collision masks',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+    },
+    async ({ sessionId, objectName, sceneName }) => {
+      const session = projectManager.getSession(sessionId);
+      const sprite = getSpriteConfiguration(session, objectName, sceneName);
+      const animations = sprite.getAnimations();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              objectName,
+              adaptCollisionMaskAutomatically: animations.adaptCollisionMaskAutomatically(),
+              animations: serializeAnimations(animations),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_sprite_animation_add
+  server.tool(
+    'gdevelop_sprite_animation_add',
+    'Add an animation to a Sprite object. Frames reference image resources of the project',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+      name: z.string().describe('Animation name (e.g., "Idle", "Run")'),
+      frames: z.array(z.string()).optional().describe('Image resource names of a single direction'),
+      timeBetweenFrames: z.number().positive().default(DEFAULT_TIME_BETWEEN_FRAMES),
+      loop: z.boolean().default(false),
+      directions: z
+        .array(directionSchema)
+        .min(1)
+        .optional()
+        .describe('Frames for each direction (replaces frames/timeBetweenFrames/loop)'),
+      position: z.number().int().min(0).optional().describe('Insert position'),
+    },
+    async ({
+      sessionId,
+      objectName,
+      sceneName,
+      name,
+      frames,
+      timeBetweenFrames,
+      loop,
+      directions,
+      position,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const animations = getSpriteConfiguration(session, objectName, sceneName).getAnimations();
+
+      for (let i = 0; i < animations.getAnimationsCount(); i++) {
+        if (name !== '' && animations.getAnimation(i).getName() === name) {
+          throw new Error(`Animation "${name}" already exists on object "${objectName}"`);
+        }
+      }
+
+      const directionSpecs = directions ?? [{ frames: frames ?? [], timeBetweenFrames, loop }];
+      checkImageResources(
+        session,
+        directionSpecs.flatMap((spec) => spec.frames)
+      );
+
+      const animation = new gd.Animation();
+      animation.setName(name);
+      animation.setDirectionsCount(directionSpecs.length);
+      animation.setUseMultipleDirections(directionSpecs.length > 1);
+
+      directionSpecs.forEach((spec, index) => {
+        const direction = new gd.Direction();
+        direction.setTimeBetweenFrames(spec.timeBetweenFrames);
+        direction.setLoop(spec.loop);
+        addFrames(gd, direction, spec.frames);
+        animation.setDirection(direction, index);
+        direction.delete();
+      });
+
+      animations.addAnimation(animation);
+      animation.delete();
+
+      let animationIndex = animations.getAnimationsCount() - 1;
+      if (position !== undefined && position < animationIndex) {
+        animations.moveAnimation(animationIndex, position);
+        animationIndex = position;
+      }
+
+      session.markDirty(`Add animation "${name}" to "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              animationIndex,
+              name,
+              directionsCount: directionSpecs.length,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_sprite_animation_update
+  server.tool(
+    'gdevelop_sprite_animation_update',
+    'Rename, reorder or edit a direction of a Sprite animation (timing, looping, frames)',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+      animation: animationSchema,
+      newName: z.string().optional(),
+      moveTo: z.number().int().min(0).optional().describe('New index of the animation'),
+      direction: z.number().int().min(0).default(0).describe('Direction to edit'),
+      timeBetweenFrames: z.number().positive().optional(),
+      loop: z.boolean().optional(),
+      frames: z
+        .array(z.string())
+        .optional()
+        .describe('Replace all frames of the direction with these image resources'),
+      addFrames: z
+        .array(z.string())
+        .optional()
+        .describe('Image resources to append as new frames'),
+      removeFrames: z
+        .array(z.number().int().min(0))
+        .optional()
+        .describe('Indices of frames to remove'),
+    },
+    async ({
+      sessionId,
+      objectName,
+      sceneName,
+      animation,
+      newName,
+      moveTo,
+      direction: directionIndex,
+      timeBetweenFrames,
+      loop,
+      frames,
+      addFrames: framesToAdd,
+      removeFrames,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const animations = getSpriteConfiguration(session, objectName, sceneName).getAnimations();
+
+      let animationIndex = findAnimation(animations, animation);
+      const gdAnimation = animations.getAnimation(animationIndex);
+
+      if (directionIndex >= gdAnimation.getDirectionsCount()) {
+        throw new Error(
+          `Direction ${directionIndex} out of range (animation has ${gdAnimation.getDirectionsCount()})`
+        );
+      }
+      const direction = gdAnimation.getDirection(directionIndex);
+
+      for (const frameIndex of removeFrames ?? []) {
+        if (frameIndex >= direction.getSpritesCount()) {
+          throw new Error(
+            `Frame ${frameIndex} out of range (direction has ${direction.getSpritesCount()})`
+          );
+        }
+      }
+      if (frames && removeFrames) {
+        throw new Error('frames replaces all frames: it cannot be used with removeFrames');
+      }
+      if (moveTo !== undefined && moveTo >= animations.getAnimationsCount()) {
+        throw new Error(`Position ${moveTo} out of range`);
+      }
+      checkImageResources(session, [...(frames ?? []), ...(framesToAdd ?? [])]);
+
+      if (newName !== undefined) {
+        gdAnimation.setName(newName);
+      }
+      if (timeBetweenFrames !== undefined) {
+        direction.setTimeBetweenFrames(timeBetweenFrames);
+      }
+      if (loop !== undefined) {
+        direction.setLoop(loop);
+      }
+      if (frames) {
+        direction.removeAllSprites();
+        addFrames(gd, direction, frames);
+      }
+      if (removeFrames) {
+        // Remove from the end so that indices stay valid
+        for (const frameIndex of [...new Set(removeFrames)].sort((a, b) => b - a)) {
+          direction.removeSprite(frameIndex);
+        }
+      }
+      if (framesToAdd) {
+        addFrames(gd, direction, framesToAdd);
+      }
+
+      if (moveTo !== undefined && moveTo !== animationIndex) {
+        animations.moveAnimation(animationIndex, moveTo);
+        animationIndex = moveTo;
+      }
+
+      session.markDirty(`Update animation of "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              animationIndex,
+              name: animations.getAnimation(animationIndex).getName(),
+              framesCount: direction.getSpritesCount(),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_sprite_animation_remove
+  server.tool(
+    'gdevelop_sprite_animation_remove',
+    'Remove an animation from a Sprite object',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+      animation: animationSchema,
+    },
+    async ({ sessionId, objectName, sceneName, animation }) => {
+      const session = projectManager.getSession(sessionId);
+      const animations = getSpriteConfiguration(session, objectName, sceneName).getAnimations();
+
+      const animationIndex = findAnimation(animations, animation);
+      const name = animations.getAnimation(animationIndex).getName();
+      animations.removeAnimation(animationIndex);
+
+      session.markDirty(`Remove animation "${name}" from "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              removedIndex: animationIndex,
+              name,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // gdevelop_sprite_frame_update
+  server.tool(
+    'gdevelop_sprite_frame_update',
+    'Edit the origin, center, custom points and collision mask (hitboxes) of Sprite frames',
+    {
+      sessionId: z.string(),
+      objectName: z.string(),
+      sceneName: z.string().optional().describe('Scene name (omit for global objects)'),
+      animation: animationSchema,
+      direction: z.number().int().min(0).default(0),
+      frames: z
+        .array(z.number().int().min(0))
+        .optional()
+        .describe('Indices of the frames to edit (omit for all frames of the direction)'),
+      origin: pointSchema.optional(),
+      center: pointSchema
+        .nullable()
+        .optional()
+        .describe('Center point (null to use the automatic center)'),
+      points: z
+        .array(pointSchema.extend({ name: z.string() }))
+        .optional()
+        .describe('Custom points to add or move'),
+      removePoints: z.array(z.string()).optional().describe('Names of custom points to remove'),
+      collisionMask: z
+        .union([z.literal('fullImage'), z.array(z.array(pointSchema).min(3)).min(1)])
+        .optional()
+        .describe('"fullImage", or polygons given as lists of vertices'),
+    },
+    async ({
+      sessionId,
+      objectName,
+      sceneName,
+      animation,
+      direction: directionIndex,
+      frames,
+      origin,
+      center,
+      points,
+      removePoints,
+      collisionMask,
+    }) => {
+      const session = projectManager.getSession(sessionId);
+      const gd = session.gd;
+      const spriteConfiguration = getSpriteConfiguration(session, objectName, sceneName);
+      const animations = spriteConfiguration.getAnimations();
+
+      const gdAnimation = animations.getAnimation(findAnimation(animations, animation));
+      if (directionIndex >= gdAnimation.getDirectionsCount()) {
+        throw new Error(
+          `Direction ${directionIndex} out of range (animation has ${gdAnimation.getDirectionsCount()})`
+        );
+      }
+      const direction = gdAnimation.getDirection(directionIndex);
+
+      const frameIndices =
+        frames ?? Array.from({ length: direction.getSpritesCount() }, (_, i) => i);
+      for (const frameIndex of frameIndices) {
+        if (frameIndex >= direction.getSpritesCount()) {
+          throw new Error(
+            `Frame ${frameIndex} out of range (direction has ${direction.getSpritesCount()})`
+          );
+        }
+      }
+
+      for (const frameIndex of frameIndices) {
+        const sprite = direction.getSprite(frameIndex);
+
+        if (origin) {
+          sprite.getOrigin().setXY(origin.x, origin.y);
+        }
+        if (center === null) {
+          sprite.setDefaultCenterPoint(true);
+        } else if (center) {
+          sprite.setDefaultCenterPoint(false);
+          sprite.getCenter().setXY(center.x, center.y);
+        }
+
+        for (const name of removePoints ?? []) {
+          if (sprite.hasPoint(name)) sprite.delPoint(name);
+        }
+        for (const { name, x, y } of points ?? []) {
+          if (sprite.hasPoint(name)) {
+            sprite.getPoint(name).setXY(x, y);
+          } else {
+            const point = new gd.Point(name);
+            point.setXY(x, y);
+            sprite.addPoint(point);
+            point.delete();
+          }
+        }
+
+        if (collisionMask === 'fullImage') {
+          sprite.setFullImageCollisionMask(true);
+        } else if (collisionMask) {
+          const polygons = new gd.VectorPolygon2d();
+          for (const vertices of collisionMask) {
+            const polygon = new gd.Polygon2d();
+            for (const { x, y } of vertices) {
+              const vertex = new gd.Vector2f();
+              vertex.x = x;
+              vertex.y = y;
+              polygon.getVertices().push_back(vertex);
+              vertex.delete();
+            }
+            polygons.push_back(polygon);
+            polygon.delete();
+          }
+          sprite.setCustomCollisionMask(polygons);
+          sprite.setFullImageCollisionMask(false);
+          polygons.delete();
+        }
+      }
+
+      // A custom collision mask must not be replaced by the automatic one
+      if (collisionMask && collisionMask !== 'fullImage') {
+        animations.setAdaptCollisionMaskAutomatically(false);
+      }
+
+      session.markDirty(`Update frames of "${objectName}"`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              framesUpdated: frameIndices.length,
+              frames: frameIndices.map((i) => serializeFrame(direction.getSprite(i))),
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,197 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProjectManager } from '../core/project-manager.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('transaction');
+
+type ToolResult = {
+  content: { type: string; text?: string }[];
+  isError?: boolean;
+};
+
+type ToolHandler = (args: Record<string, unknown>, extra: unknown) => Promise<ToolResult>;
+
+// Tools registered on the server, replayable as transaction operations
+const recordedTools: Map<
+  string,
+  {
+    schema: z.ZodObject<z.ZodRawShape>;
+    handler: ToolHandler;
+  }
+> = new Map();
+
+// Tools that manage sessions, history or files and cannot be rolled back
+const NON_TRANSACTIONAL_TOOLS = new Set([
+  'gdevelop_transaction',
+  'gdevelop_project_open',
+  'gdevelop_project_create',
+  'gdevelop_project_save',
+  'gdevelop_project_close',
+  'gdevelop_sessions_list',
+  'gdevelop_undo',
+  'gdevelop_redo',
+  'gdevelop_history_list',
+  'gdevelop_export_html5',
+  'gdevelop_export_electron',
+  'gdevelop_export_cordova',
+  'gdevelop_export_status',
+  'gdevelop_export_preview',
+]);
+
+/**
+ * Record every tool registered on the server from now on, so that
+ * gdevelop_transaction can run them as operations.
+ * Must be called before any tool is registered.
+ */
+export function recordToolRegistrations(server: McpServer) {
+  const registerTool = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const handler = rest[rest.length - 1] as ToolHandler;
+    const shape = rest.length >= 2 ? rest[rest.length - 2] : undefined;
+
+    if (typeof shape === 'object' && shape !== null) {
+      recordedTools.set(name, {
+        schema: z.object(shape as z.ZodRawShape),
+        handler,
+      });
+    }
+
+    return registerTool(name, ...rest);
+  }) as typeof server.tool;
+}
+
+/**
+ * Run one transaction step and return its parsed JSON output.
+ * @throws Error naming the failed step if the tool throws, reports an error,
+ *   or returns success: false.
+ */
+async function runStep(
+  index: number,
+  tool: string,
+  handler: ToolHandler,
+  args: Record<string, unknown>,
+  extra: unknown
+): Promise<unknown> {
+  let result: ToolResult;
+  try {
+    result = await handler(args, extra);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Operation ${index} (${tool}) failed: ${message}`);
+  }
+
+  const text = result.content[0]?.text ?? '';
+  if (result.isError) {
+    throw new Error(`Operation ${index} (${tool}) failed: ${text}`);
+  }
+
+  let output: unknown;
+  try {
+    output = JSON.parse(text);
+  } catch {
+    return text;
+  }
+
+  // Tools working on several items report partial failures in their output
+  if (typeof output === 'object' && output !== null && 'success' in output) {
+    if (output.success === false) {
+      throw new Error(`Operation ${index} (${tool}) failed: ${text}`);
+    }
+  }
+  return output;
+}
+
+/**
+ * Register the transaction tool.
+ */
+export function registerTransactionTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_transaction
+  server.tool(
+    'gdevelop_transaction',
+    'Run several tools as one atomic operation: if any step fails, the project is restored to its state before the batch',
+    {
+      sessionId: z.string(),
+      label: z.string().optional().describe('Name of the resulting undo step'),
+      operations: z
+        .array(
+          z.object({
+            tool: z.string().describe('Tool name (e.g., "gdevelop_object_create")'),
+            args: z
+              .record(z.unknown())
+              .default({})
+              .describe('Tool arguments (sessionId is filled in automatically)'),
+          })
+        )
+        .min(1),
+    },
+    async ({ sessionId, label, operations }, extra) => {
+      const session = projectManager.getSession(sessionId);
+
+      // Validate every operation before applying anything
+      const steps = operations.map((operation, index) => {
+        const recorded = recordedTools.get(operation.tool);
+        if (!recorded || NON_TRANSACTIONAL_TOOLS.has(operation.tool)) {
+          throw new Error(
+            `Operation ${index}: tool "${operation.tool}" cannot be used in a transaction`
+          );
+        }
+        if (!('sessionId' in recorded.schema.shape)) {
+          throw new Error(
+            `Operation ${index}: tool "${operation.tool}" does not operate on a session`
+          );
+        }
+
+        const parsed = recorded.schema.safeParse({ ...operation.args, sessionId });
+        if (!parsed.success) {
+          throw new Error(
+            `Operation ${index} (${operation.tool}): invalid arguments: ${parsed.error.message}`
+          );
+        }
+
+        return { tool: operation.tool, handler: recorded.handler, args: parsed.data };
+      });
+
+      const historyLabel = label ?? `Transaction (${steps.length} operations)`;
+
+      let results: object[];
+      try {
+        results = await session.runAtomically(historyLabel, async () => {
+          const stepResults: object[] = [];
+
+          for (const [index, step] of steps.entries()) {
+            stepResults.push({
+              index,
+              tool: step.tool,
+              result: await runStep(index, step.tool, step.handler, step.args, extra),
+            });
+          }
+
+          return stepResults;
+        });
+      } catch (error) {
+        logger.warn({ sessionId, error }, 'Transaction rolled back');
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${message}. No changes were applied.`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              label: historyLabel,
+              operationCount: results.length,
+              results,
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,53 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import * as path from 'path';
+import { ProjectManager } from '../core/project-manager.js';
+import { validateProject } from '../core/project-validator.js';
+
+/**
+ * Register project validation tools.
+ */
+export function registerValidationTools(
+  server: McpServer,
+  projectManager: ProjectManager
+) {
+  // gdevelop_project_validate
+  server.tool(
+    'gdevelop_project_validate',
+    'Scan a project for problems before export: instances of missing objects or layers, missing first scene or resource files, invalid instructions, behaviors of unused extensions, undeclared variables and empty event groups',
+    {
+      sessionId: z.string(),
+      severity: z
+        .enum(['error', 'warning'])
+        .optional()
+        .describe('Only report problems of this severity'),
+    },
+    async ({ sessionId, severity }) => {
+      const session = projectManager.getSession(sessionId);
+      const diagnostics = await validateProject(
+        session.gd,
+        session.getProject(),
+        path.dirname(session.getProjectPath())
+      );
+
+      const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+      const problems = severity
+        ? diagnostics.filter((d) => d.severity === severity)
+        : diagnostics;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              valid: errorCount === 0,
+              errorCount,
+              warningCount: diagnostics.length - errorCount,
+              problems,
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
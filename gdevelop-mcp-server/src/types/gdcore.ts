@@ -21,6 +21,8 @@ export interface GDProject {
   setAuthor(author: string): void;
   getPackageName(): string;
   setPackageName(packageName: string): void;
+  getProjectFile(): string;
+  setProjectFile(file: string): void;
 
   // Window settings
   getMainWindowDefaultWidth(): number;
@@ -63,6 +65,7 @@ export interface GDProject {
   getExternalEventsCount(): number;
   hasExternalEventsNamed(name: string): boolean;
   getExternalEvents(name: string): GDExternalEvents;
+  getExternalEventsAt(index: number): GDExternalEvents;
   insertNewExternalEvents(name: string, position: number): GDExternalEvents;
   removeExternalEvents(name: string): void;
 
@@ -70,6 +73,7 @@ export interface GDProject {
   getExternalLayoutsCount(): number;
   hasExternalLayoutNamed(name: string): boolean;
   getExternalLayout(name: string): GDExternalLayout;
+  getExternalLayoutAt(index: number): GDExternalLayout;
   insertNewExternalLayout(name: string, position: number): GDExternalLayout;
   removeExternalLayout(name: string): void;
 
@@ -78,6 +82,14 @@ export interface GDProject {
   addUsedExtension(name: string): void;
   removeUsedExtension(name: string): void;
 
+  // Events functions extensions
+  getEventsFunctionsExtensionsCount(): number;
+  hasEventsFunctionsExtensionNamed(name: string): boolean;
+  getEventsFunctionsExtension(name: string): GDEventsFunctionsExtension;
+  getEventsFunctionsExtensionAt(index: number): GDEventsFunctionsExtension;
+  insertNewEventsFunctionsExtension(name: string, position: number): GDEventsFunctionsExtension;
+  removeEventsFunctionsExtension(name: string): void;
+
   // Platform
   getCurrentPlatform(): GDPlatform;
 
@@ -128,6 +140,10 @@ export interface GDLayout {
   // Object groups
   getObjectGroups(): GDObjectGroupsContainer;
 
+  // Serialization
+  serializeTo(element: GDSerializerElement): void;
+  unserializeFrom(project: GDProject, element: GDSerializerElement): void;
+
   delete(): void;
 }
 
@@ -135,6 +151,7 @@ export interface GDObject {
   getName(): string;
   setName(name: string): void;
   getType(): string;
+  getConfiguration(): GDObjectConfiguration;
 
   // Behaviors
   getAllBehaviorNames(): string[];
@@ -165,7 +182,8 @@ export interface GDBehavior {
 }
 
 export interface GDMapStringPropertyDescriptor {
-  keys(): string[];
+  has(key: string): boolean;
+  keys(): GDVectorString;
   get(key: string): GDPropertyDescriptor;
 }
 
@@ -173,8 +191,301 @@ export interface GDPropertyDescriptor {
   getValue(): string;
   setValue(value: string): void;
   getType(): string;
+  setType(type: string): void;
   getLabel(): string;
+  setLabel(label: string): void;
   getDescription(): string;
+  setDescription(description: string): void;
+  getGroup(): string;
+  setGroup(group: string): void;
+  clearChoices(): void;
+  addChoice(value: string, label: string): void;
+  getChoices(): GDVectorPropertyDescriptorChoice;
+  getExtraInfo(): GDVectorString;
+  setExtraInfo(extraInfo: GDVectorString): void;
+  isHidden(): boolean;
+  setHidden(hidden: boolean): void;
+}
+
+export interface GDVectorPropertyDescriptorChoice {
+  size(): number;
+  at(index: number): { getValue(): string; getLabel(): string };
+}
+
+export interface GDNamedPropertyDescriptor extends GDPropertyDescriptor {
+  getName(): string;
+}
+
+export interface GDPropertiesContainer {
+  has(name: string): boolean;
+  get(name: string): GDNamedPropertyDescriptor;
+  insertNew(name: string, position: number): GDNamedPropertyDescriptor;
+  remove(name: string): void;
+  size(): number;
+  at(index: number): GDNamedPropertyDescriptor;
+}
+
+export interface GDObjectConfiguration {
+  getType(): string;
+  getProperties(): GDMapStringPropertyDescriptor;
+  updateProperty(name: string, value: string): boolean;
+}
+
+export interface GDSpriteObject extends GDObjectConfiguration {
+  getAnimations(): GDSpriteAnimationList;
+  setUpdateIfNotVisible(updateIfNotVisible: boolean): void;
+  getUpdateIfNotVisible(): boolean;
+  setPreScale(value: number): void;
+  getPreScale(): number;
+}
+
+export interface GDSpriteAnimationList {
+  addAnimation(animation: GDAnimation): void;
+  getAnimation(index: number): GDAnimation;
+  getAnimationsCount(): number;
+  removeAnimation(index: number): void;
+  moveAnimation(oldIndex: number, newIndex: number): void;
+  adaptCollisionMaskAutomatically(): boolean;
+  setAdaptCollisionMaskAutomatically(adapt: boolean): void;
+}
+
+export interface GDAnimation {
+  setName(name: string): void;
+  getName(): string;
+  setDirectionsCount(count: number): void;
+  getDirectionsCount(): number;
+  getDirection(index: number): GDDirection;
+  setDirection(direction: GDDirection, index: number): void;
+  useMultipleDirections(): boolean;
+  setUseMultipleDirections(enable: boolean): void;
+  delete(): void;
+}
+
+export interface GDDirection {
+  addSprite(sprite: GDSprite): void;
+  getSprite(index: number): GDSprite;
+  getSpritesCount(): number;
+  removeSprite(index: number): void;
+  removeAllSprites(): void;
+  isLooping(): boolean;
+  setLoop(enable: boolean): void;
+  getTimeBetweenFrames(): number;
+  setTimeBetweenFrames(time: number): void;
+  moveSprite(oldIndex: number, newIndex: number): void;
+  delete(): void;
+}
+
+export interface GDSprite {
+  setImageName(name: string): void;
+  getImageName(): string;
+  getOrigin(): GDPoint;
+  getCenter(): GDPoint;
+  isDefaultCenterPoint(): boolean;
+  setDefaultCenterPoint(defaultPoint: boolean): void;
+  getAllNonDefaultPoints(): GDVectorPoint;
+  addPoint(point: GDPoint): void;
+  delPoint(name: string): void;
+  getPoint(name: string): GDPoint;
+  hasPoint(name: string): boolean;
+  isFullImageCollisionMask(): boolean;
+  setFullImageCollisionMask(enabled: boolean): void;
+  getCustomCollisionMask(): GDVectorPolygon2d;
+  setCustomCollisionMask(collisionMask: GDVectorPolygon2d): void;
+  delete(): void;
+}
+
+export interface GDPoint {
+  setName(name: string): void;
+  getName(): string;
+  setXY(x: number, y: number): void;
+  getX(): number;
+  getY(): number;
+  delete(): void;
+}
+
+export interface GDVectorPoint {
+  size(): number;
+  at(index: number): GDPoint;
+}
+
+export interface GDPolygon2d {
+  getVertices(): GDVectorVector2f;
+  delete(): void;
+}
+
+export interface GDVectorPolygon2d {
+  push_back(polygon: GDPolygon2d): void;
+  size(): number;
+  at(index: number): GDPolygon2d;
+  delete(): void;
+}
+
+export interface GDVector2f {
+  x: number;
+  y: number;
+  delete(): void;
+}
+
+export interface GDVectorVector2f {
+  push_back(point: GDVector2f): void;
+  size(): number;
+  at(index: number): GDVector2f;
+}
+
+export interface GDTextObject extends GDObjectConfiguration {
+  setText(text: string): void;
+  getText(): string;
+  setCharacterSize(size: number): void;
+  getCharacterSize(): number;
+  setLineHeight(value: number): void;
+  getLineHeight(): number;
+  setFontName(fontName: string): void;
+  getFontName(): string;
+  isBold(): boolean;
+  setBold(enable: boolean): void;
+  isItalic(): boolean;
+  setItalic(enable: boolean): void;
+  isUnderlined(): boolean;
+  setUnderlined(enable: boolean): void;
+  setColor(color: string): void;
+  getColor(): string;
+  setTextAlignment(textAlignment: string): void;
+  getTextAlignment(): string;
+  setVerticalTextAlignment(value: string): void;
+  getVerticalTextAlignment(): string;
+  setOutlineEnabled(enable: boolean): void;
+  isOutlineEnabled(): boolean;
+  setOutlineThickness(value: number): void;
+  getOutlineThickness(): number;
+  setOutlineColor(color: string): void;
+  getOutlineColor(): string;
+  setShadowEnabled(enable: boolean): void;
+  isShadowEnabled(): boolean;
+  setShadowColor(color: string): void;
+  getShadowColor(): string;
+  setShadowOpacity(value: number): void;
+  getShadowOpacity(): number;
+  setShadowAngle(value: number): void;
+  getShadowAngle(): number;
+  setShadowDistance(value: number): void;
+  getShadowDistance(): number;
+  setShadowBlurRadius(value: number): void;
+  getShadowBlurRadius(): number;
+}
+
+export interface GDTiledSpriteObject extends GDObjectConfiguration {
+  setTexture(texture: string): void;
+  getTexture(): string;
+  setWidth(width: number): void;
+  getWidth(): number;
+  setHeight(height: number): void;
+  getHeight(): number;
+}
+
+export interface GDPanelSpriteObject extends GDTiledSpriteObject {
+  getLeftMargin(): number;
+  setLeftMargin(margin: number): void;
+  getTopMargin(): number;
+  setTopMargin(margin: number): void;
+  getRightMargin(): number;
+  setRightMargin(margin: number): void;
+  getBottomMargin(): number;
+  setBottomMargin(margin: number): void;
+  isTiled(): boolean;
+  setTiled(enable: boolean): void;
+}
+
+export interface GDShapePainterObject extends GDObjectConfiguration {
+  setCoordinatesAbsolute(): void;
+  setCoordinatesRelative(): void;
+  areCoordinatesAbsolute(): boolean;
+  setClearBetweenFrames(value: boolean): void;
+  isClearedBetweenFrames(): boolean;
+  setOutlineSize(size: number): void;
+  getOutlineSize(): number;
+  setOutlineColor(color: string): void;
+  getOutlineColor(): string;
+  setOutlineOpacity(value: number): void;
+  getOutlineOpacity(): number;
+  setFillColor(color: string): void;
+  getFillColor(): string;
+  setFillOpacity(value: number): void;
+  getFillOpacity(): number;
+  getAntialiasing(): string;
+  setAntialiasing(value: string): void;
+}
+
+export interface GDParticleEmitterObject extends GDObjectConfiguration {
+  setRendererType(type: number): void;
+  getRendererType(): number;
+  setParticleTexture(resourceName: string): void;
+  getParticleTexture(): string;
+  setRendererParam1(value: number): void;
+  getRendererParam1(): number;
+  setRendererParam2(value: number): void;
+  getRendererParam2(): number;
+  isRenderingAdditive(): boolean;
+  setRenderingAdditive(): void;
+  setRenderingAlpha(): void;
+  setMaxParticleNb(value: number): void;
+  getMaxParticleNb(): number;
+  setTank(value: number): void;
+  getTank(): number;
+  setFlow(value: number): void;
+  getFlow(): number;
+  setDestroyWhenNoParticles(enable: boolean): void;
+  getDestroyWhenNoParticles(): boolean;
+  setEmitterForceMin(value: number): void;
+  getEmitterForceMin(): number;
+  setEmitterForceMax(value: number): void;
+  getEmitterForceMax(): number;
+  setConeSprayAngle(value: number): void;
+  getConeSprayAngle(): number;
+  setZoneRadius(value: number): void;
+  getZoneRadius(): number;
+  setParticleGravityX(value: number): void;
+  getParticleGravityX(): number;
+  setParticleGravityY(value: number): void;
+  getParticleGravityY(): number;
+  setParticleLifeTimeMin(value: number): void;
+  getParticleLifeTimeMin(): number;
+  setParticleLifeTimeMax(value: number): void;
+  getParticleLifeTimeMax(): number;
+  setParticleColor1(value: string): void;
+  getParticleColor1(): string;
+  setParticleColor2(value: string): void;
+  getParticleColor2(): string;
+  setParticleAlpha1(value: number): void;
+  getParticleAlpha1(): number;
+  setParticleAlpha2(value: number): void;
+  getParticleAlpha2(): number;
+  setParticleSize1(value: number): void;
+  getParticleSize1(): number;
+  setParticleSize2(value: number): void;
+  getParticleSize2(): number;
+  setParticleAngle1(value: number): void;
+  getParticleAngle1(): number;
+  setParticleAngle2(value: number): void;
+  getParticleAngle2(): number;
+  setParticleAlphaRandomness1(value: number): void;
+  getParticleAlphaRandomness1(): number;
+  setParticleAlphaRandomness2(value: number): void;
+  getParticleAlphaRandomness2(): number;
+  setParticleSizeRandomness1(value: number): void;
+  getParticleSizeRandomness1(): number;
+  setParticleSizeRandomness2(value: number): void;
+  getParticleSizeRandomness2(): number;
+  setParticleAngleRandomness1(value: number): void;
+  getParticleAngleRandomness1(): number;
+  setParticleAngleRandomness2(value: number): void;
+  getParticleAngleRandomness2(): number;
+  setJumpForwardInTimeOnCreation(value: number): void;
+  getJumpForwardInTimeOnCreation(): number;
+}
+
+export interface GDUniquePtrObjectConfiguration {
+  get(): GDObjectConfiguration;
+  delete(): void;
 }
 
 export interface GDObjectsContainer {
@@ -183,9 +494,12 @@ export interface GDObjectsContainer {
   getObject(name: string): GDObject;
   getObjectAt(index: number): GDObject;
   getObjectPosition(name: string): number;
+  insertNewObject(project: GDProject, type: string, name: string, position: number): GDObject;
   insertObject(object: GDObject, position: number): void;
   removeObject(name: string): void;
   moveObject(oldIndex: number, newIndex: number): void;
+  getObjectGroups(): GDObjectGroupsContainer;
+  delete(): void;
 }
 
 export interface GDVariablesContainer {
@@ -194,10 +508,14 @@ export interface GDVariablesContainer {
   get(name: string): GDVariable;
   getAt(index: number): GDVariable;
   getNameAt(index: number): string;
+  insert(name: string, variable: GDVariable, position: number): GDVariable;
   insertNew(name: string, position: number): GDVariable;
   remove(name: string): void;
   rename(oldName: string, newName: string): void;
   move(oldIndex: number, newIndex: number): void;
+  serializeTo(element: GDSerializerElement): void;
+  resetPersistentUuid(): GDVariablesContainer;
+  clearPersistentUuid(): GDVariablesContainer;
 }
 
 export interface GDVariable {
@@ -209,13 +527,17 @@ export interface GDVariable {
   setValue(value: number): void;
   getBool(): boolean;
   setBool(value: boolean): void;
-  getType(): number; // 0=number, 1=string, 2=structure, 3=array, 4=boolean
-  setType(type: number): void;
+  getType(): number; // Variable_Type: 2=string, 3=number, 4=boolean, 5=structure, 6=array
+  castTo(type: string): void;
   getChildrenCount(): number;
   getChild(name: string): GDVariable;
   hasChild(name: string): boolean;
   removeChild(name: string): void;
-  getAllChildrenNames(): string[];
+  getAllChildrenNames(): GDVectorString;
+  clearChildren(): void;
+  getAtIndex(index: number): GDVariable;
+  pushNew(): GDVariable;
+  removeAtIndex(index: number): void;
 }
 
 export interface GDInitialInstancesContainer {
@@ -256,7 +578,20 @@ export interface GDInitialInstance {
   setFlippedX(flipped: boolean): void;
   isFlippedY(): boolean;
   setFlippedY(flipped: boolean): void;
+  getDefaultWidth(): number;
+  getDefaultHeight(): number;
+  getPersistentUuid(): string;
   getVariables(): GDVariablesContainer;
+  getCustomProperties(
+    globalObjectsContainer: GDObjectsContainer,
+    objectsContainer: GDObjectsContainer
+  ): GDMapStringPropertyDescriptor;
+  updateCustomProperty(
+    name: string,
+    value: string,
+    globalObjectsContainer: GDObjectsContainer,
+    objectsContainer: GDObjectsContainer
+  ): void;
 }
 
 export interface GDEventsList {
@@ -273,6 +608,8 @@ export interface GDEventsList {
     newIndex: number
   ): void;
   clear(): void;
+  serializeTo(element: GDSerializerElement): void;
+  unserializeFrom(project: GDProject, element: GDSerializerElement): void;
 }
 
 export interface GDBaseEvent {
@@ -281,6 +618,9 @@ export interface GDBaseEvent {
   canHaveSubEvents(): boolean;
   hasSubEvents(): boolean;
   getSubEvents(): GDEventsList;
+  canHaveVariables(): boolean;
+  hasVariables(): boolean;
+  getVariables(): GDVariablesContainer;
   isDisabled(): boolean;
   setDisabled(disabled: boolean): void;
   isFolded(): boolean;
@@ -294,6 +634,58 @@ export interface GDStandardEvent extends GDBaseEvent {
   getActions(): GDInstructionsList;
 }
 
+export interface GDRepeatEvent extends GDStandardEvent {
+  getRepeatExpression(): GDExpression;
+  setRepeatExpressionPlainString(expression: string): void;
+  getLoopIndexVariableName(): string;
+}
+
+export interface GDWhileEvent extends GDStandardEvent {
+  getWhileConditions(): GDInstructionsList;
+  getLoopIndexVariableName(): string;
+}
+
+export interface GDForEachEvent extends GDStandardEvent {
+  getObjectToPick(): string;
+  setObjectToPick(objectName: string): void;
+  getOrderBy(): string;
+  getOrder(): string;
+  getLimit(): string;
+  getLoopIndexVariableName(): string;
+}
+
+export interface GDForEachChildVariableEvent extends GDStandardEvent {
+  getIterableVariableName(): string;
+  getKeyIteratorVariableName(): string;
+  getValueIteratorVariableName(): string;
+  getLoopIndexVariableName(): string;
+}
+
+export interface GDCommentEvent extends GDBaseEvent {
+  getComment(): string;
+  setComment(comment: string): void;
+  getBackgroundColorRed(): number;
+  getBackgroundColorGreen(): number;
+  getBackgroundColorBlue(): number;
+  getTextColorRed(): number;
+  getTextColorGreen(): number;
+  getTextColorBlue(): number;
+}
+
+export interface GDGroupEvent extends GDBaseEvent {
+  getName(): string;
+  setName(name: string): void;
+  getBackgroundColorR(): number;
+  getBackgroundColorG(): number;
+  getBackgroundColorB(): number;
+  setBackgroundColor(r: number, g: number, b: number): void;
+}
+
+export interface GDLinkEvent extends GDBaseEvent {
+  getTarget(): string;
+  setTarget(name: string): void;
+}
+
 export interface GDInstructionsList {
   size(): number;
   get(index: number): GDInstruction;
@@ -309,7 +701,7 @@ export interface GDInstruction {
   isInverted(): boolean;
   setInverted(inverted: boolean): void;
   getParametersCount(): number;
-  getParameter(index: number): string;
+  getParameter(index: number): GDExpression;
   setParameter(index: number, value: string): void;
   setParametersCount(count: number): void;
   getSubInstructions(): GDInstructionsList;
@@ -317,6 +709,10 @@ export interface GDInstruction {
   delete(): void;
 }
 
+export interface GDExpression {
+  getPlainString(): string;
+}
+
 export interface GDLayer {
   getName(): string;
   setName(name: string): void;
@@ -330,8 +726,21 @@ export interface GDLayer {
   getAmbientLightColorGreen(): number;
   getAmbientLightColorBlue(): number;
   setAmbientLightColor(r: number, g: number, b: number): void;
-  getCamerasCount(): number;
+  getRenderingType(): string;
+  setRenderingType(renderingType: string): void;
+  getCameraType(): string;
+  setCameraType(cameraType: string): void;
+  getCamera3DFieldOfView(): number;
+  setCamera3DFieldOfView(angle: number): void;
+  getCamera3DNearPlaneDistance(): number;
+  setCamera3DNearPlaneDistance(distance: number): void;
+  getCamera3DFarPlaneDistance(): number;
+  setCamera3DFarPlaneDistance(distance: number): void;
+  getCameraCount(): number;
+  setCameraCount(cameraCount: number): void;
   getEffects(): GDEffectsContainer;
+  serializeTo(element: GDSerializerElement): void;
+  unserializeFrom(element: GDSerializerElement): void;
 }
 
 export interface GDEffectsContainer {
@@ -339,6 +748,7 @@ export interface GDEffectsContainer {
   hasEffectNamed(name: string): boolean;
   getEffect(name: string): GDEffect;
   getEffectAt(index: number): GDEffect;
+  getEffectPosition(name: string): number;
   insertNewEffect(name: string, position: number): GDEffect;
   removeEffect(name: string): void;
   moveEffect(oldIndex: number, newIndex: number): void;
@@ -349,18 +759,46 @@ export interface GDEffect {
   setName(name: string): void;
   getEffectType(): string;
   setEffectType(type: string): void;
-  getAllDoubleParameters(): Map<string, number>;
-  getAllStringParameters(): Map<string, string>;
-  getAllBooleanParameters(): Map<string, boolean>;
+  isEnabled(): boolean;
+  setEnabled(enabled: boolean): void;
+  getAllDoubleParameters(): GDMapStringDouble;
+  getAllStringParameters(): GDMapStringString;
+  getAllBooleanParameters(): GDMapStringBoolean;
+  getDoubleParameter(name: string): number;
+  getStringParameter(name: string): string;
+  getBooleanParameter(name: string): boolean;
   setDoubleParameter(name: string, value: number): void;
   setStringParameter(name: string, value: string): void;
   setBooleanParameter(name: string, value: boolean): void;
+  clearParameters(): void;
+}
+
+export interface GDMapStringDouble {
+  get(name: string): number;
+  keys(): GDVectorString;
+}
+
+export interface GDMapStringBoolean {
+  get(name: string): boolean;
+  keys(): GDVectorString;
+}
+
+export interface GDEffectMetadata {
+  getType(): string;
+  getFullName(): string;
+  getDescription(): string;
+  isMarkedAsNotWorkingForObjects(): boolean;
+  isMarkedAsOnlyWorkingFor2D(): boolean;
+  isMarkedAsOnlyWorkingFor3D(): boolean;
+  isMarkedAsUnique(): boolean;
+  getProperties(): GDMapStringPropertyDescriptor;
 }
 
 export interface GDObjectGroupsContainer {
   count(): number;
   has(name: string): boolean;
   get(name: string): GDObjectGroup;
+  getAt(index: number): GDObjectGroup;
   insert(group: GDObjectGroup, position: number): void;
   remove(name: string): void;
 }
@@ -408,6 +846,9 @@ export interface GDResource {
   setFile(file: string): void;
   getMetadata(): string;
   setMetadata(metadata: string): void;
+  isUserAdded(): boolean;
+  setUserAdded(userAdded: boolean): void;
+  delete(): void;
 }
 
 export interface GDSerializerElement {
@@ -419,11 +860,348 @@ export interface GDVectorString {
   at(index: number): string;
   push_back(value: string): void;
   clear(): void;
+  delete(): void;
 }
 
 export interface GDPlatform {
   getName(): string;
   getFullName(): string;
+  isExtensionLoaded(name: string): boolean;
+  removeExtension(name: string): void;
+  addNewExtension(extension: GDPlatformExtension): void;
+  getAllPlatformExtensions(): GDVectorPlatformExtension;
+  createObjectConfiguration(type: string): GDUniquePtrObjectConfiguration;
+}
+
+export interface GDVectorPlatformExtension {
+  size(): number;
+  at(index: number): GDPlatformExtension;
+}
+
+export interface GDPlatformExtension {
+  delete(): void;
+  getName(): string;
+  getFullName(): string;
+  getDescription(): string;
+  getCategory(): string;
+  getAuthor(): string;
+  getExtensionObjectsTypes(): GDVectorString;
+  getBehaviorsTypes(): GDVectorString;
+  getExtensionEffectTypes(): GDVectorString;
+  getObjectMetadata(type: string): GDObjectMetadata;
+  getEffectMetadata(type: string): GDEffectMetadata;
+  getBehaviorMetadata(type: string): GDBehaviorMetadata;
+  getAllConditions(): GDMapStringInstructionMetadata;
+  getAllActions(): GDMapStringInstructionMetadata;
+  getAllExpressions(): GDMapStringExpressionMetadata;
+  getAllStrExpressions(): GDMapStringExpressionMetadata;
+  getAllConditionsForObject(objectType: string): GDMapStringInstructionMetadata;
+  getAllActionsForObject(objectType: string): GDMapStringInstructionMetadata;
+  getAllExpressionsForObject(objectType: string): GDMapStringExpressionMetadata;
+  getAllStrExpressionsForObject(objectType: string): GDMapStringExpressionMetadata;
+  getAllConditionsForBehavior(behaviorType: string): GDMapStringInstructionMetadata;
+  getAllActionsForBehavior(behaviorType: string): GDMapStringInstructionMetadata;
+  getAllExpressionsForBehavior(behaviorType: string): GDMapStringExpressionMetadata;
+  getAllStrExpressionsForBehavior(behaviorType: string): GDMapStringExpressionMetadata;
+}
+
+export interface GDObjectMetadata {
+  getName(): string;
+  getFullName(): string;
+  getDescription(): string;
+  getCategory(): string;
+  isHidden(): boolean;
+  isPrivate(): boolean;
+}
+
+export interface GDBehaviorMetadata {
+  getName(): string;
+  getFullName(): string;
+  getDefaultName(): string;
+  getDescription(): string;
+  getGroup(): string;
+  getObjectType(): string;
+  isHidden(): boolean;
+  isPrivate(): boolean;
+  getProperties(): GDMapStringPropertyDescriptor;
+}
+
+export interface GDEventsFunctionsExtension {
+  getName(): string;
+  getFullName(): string;
+  setFullName(fullName: string): void;
+  getDescription(): string;
+  setDescription(description: string): void;
+  getShortDescription(): string;
+  setShortDescription(shortDescription: string): void;
+  getVersion(): string;
+  setVersion(version: string): void;
+  getAuthor(): string;
+  setAuthor(author: string): void;
+  getCategory(): string;
+  setCategory(category: string): void;
+  getTags(): GDVectorString;
+  setOrigin(originName: string, originIdentifier: string): void;
+  getOriginName(): string;
+  getOriginIdentifier(): string;
+  getEventsFunctions(): GDEventsFunctionsContainer;
+  getEventsBasedBehaviors(): GDEventsBasedBehaviorsList;
+  getEventsBasedObjects(): GDEventsBasedObjectsList;
+  serializeTo(element: GDSerializerElement): void;
+  unserializeFrom(project: GDProject, element: GDSerializerElement): void;
+}
+
+export interface GDEventsFunctionsContainer {
+  getEventsFunctionsCount(): number;
+  hasEventsFunctionNamed(name: string): boolean;
+  getEventsFunction(name: string): GDEventsFunction;
+  getEventsFunctionAt(index: number): GDEventsFunction;
+  insertNewEventsFunction(name: string, position: number): GDEventsFunction;
+  removeEventsFunction(name: string): void;
+}
+
+export interface GDEventsFunction {
+  getName(): string;
+  getFullName(): string;
+  setFullName(fullName: string): void;
+  getDescription(): string;
+  setDescription(description: string): void;
+  getSentence(): string;
+  setSentence(sentence: string): void;
+  getGroup(): string;
+  setGroup(group: string): void;
+  getFunctionType(): number;
+  setFunctionType(type: number): void;
+  getExpressionType(): GDValueTypeMetadata;
+  isPrivate(): boolean;
+  setPrivate(isPrivate: boolean): void;
+  isAsync(): boolean;
+  setAsync(isAsync: boolean): void;
+  getParameters(): GDParameterMetadataContainer;
+  getEvents(): GDEventsList;
+  getObjectGroups(): GDObjectGroupsContainer;
+  serializeTo(element: GDSerializerElement): void;
+  unserializeFrom(project: GDProject, element: GDSerializerElement): void;
+}
+
+export interface GDParameterMetadataContainer {
+  getParametersCount(): number;
+  getParameterAt(index: number): GDParameterMetadata;
+  addNewParameter(name: string): GDParameterMetadata;
+  clearParameters(): void;
+}
+
+export interface GDValueTypeMetadata {
+  getName(): string;
+  setName(name: string): void;
+}
+
+export interface GDAbstractEventsBasedEntity {
+  getName(): string;
+  getFullName(): string;
+  getDescription(): string;
+  isPrivate(): boolean;
+  getPropertyDescriptors(): GDPropertiesContainer;
+  getEventsFunctions(): GDEventsFunctionsContainer;
+}
+
+export interface GDEventsBasedBehavior extends GDAbstractEventsBasedEntity {
+  setFullName(fullName: string): void;
+  setDescription(description: string): void;
+  setPrivate(isPrivate: boolean): void;
+  getObjectType(): string;
+  setObjectType(objectType: string): void;
+}
+
+export interface GDEventsBasedObject extends GDAbstractEventsBasedEntity {
+  setFullName(fullName: string): void;
+  setDescription(description: string): void;
+  setPrivate(isPrivate: boolean): void;
+  getDefaultName(): string;
+  setDefaultName(defaultName: string): void;
+  isRenderedIn3D(): boolean;
+  markAsRenderedIn3D(isRenderedIn3D: boolean): void;
+  getObjects(): GDObjectsContainer;
+  getInitialInstances(): GDInitialInstancesContainer;
+}
+
+export interface GDEventsBasedBehaviorsList {
+  has(name: string): boolean;
+  get(name: string): GDEventsBasedBehavior;
+  insertNew(name: string, position: number): GDEventsBasedBehavior;
+  remove(name: string): void;
+  size(): number;
+  at(index: number): GDEventsBasedBehavior;
+}
+
+export interface GDEventsBasedObjectsList {
+  has(name: string): boolean;
+  get(name: string): GDEventsBasedObject;
+  insertNew(name: string, position: number): GDEventsBasedObject;
+  remove(name: string): void;
+  size(): number;
+  at(index: number): GDEventsBasedObject;
+}
+
+export interface GDMapStringInstructionMetadata {
+  has(name: string): boolean;
+  get(name: string): GDInstructionMetadata;
+  keys(): GDVectorString;
+}
+
+export interface GDMapStringExpressionMetadata {
+  has(name: string): boolean;
+  get(name: string): GDExpressionMetadata;
+  keys(): GDVectorString;
+}
+
+export interface GDExpressionMetadata {
+  getReturnType(): string;
+  getFullName(): string;
+  getDescription(): string;
+  getGroup(): string;
+  getParametersCount(): number;
+  getParameter(index: number): GDParameterMetadata;
+  isShown(): boolean;
+  isPrivate(): boolean;
+}
+
+export interface GDInstructionMetadata {
+  getFullName(): string;
+  getDescription(): string;
+  getSentence(): string;
+  getGroup(): string;
+  getParametersCount(): number;
+  getParameter(index: number): GDParameterMetadata;
+  canHaveSubInstructions(): boolean;
+  isHidden(): boolean;
+  isPrivate(): boolean;
+}
+
+export interface GDParameterMetadata {
+  getType(): string;
+  setType(type: string): void;
+  getName(): string;
+  setName(name: string): void;
+  getExtraInfo(): string;
+  setExtraInfo(extraInfo: string): void;
+  getDescription(): string;
+  setDescription(description: string): void;
+  getLongDescription(): string;
+  setLongDescription(longDescription: string): void;
+  getDefaultValue(): string;
+  setDefaultValue(defaultValue: string): void;
+  isOptional(): boolean;
+  setOptional(optional: boolean): void;
+  isCodeOnly(): boolean;
+}
+
+export interface GDMetadataProvider {
+  getConditionMetadata(platform: GDPlatform, type: string): GDInstructionMetadata;
+  getActionMetadata(platform: GDPlatform, type: string): GDInstructionMetadata;
+  isBadInstructionMetadata(metadata: GDInstructionMetadata): boolean;
+  getEffectMetadata(platform: GDPlatform, type: string): GDEffectMetadata;
+  isBadEffectMetadata(metadata: GDEffectMetadata): boolean;
+  getObjectMetadata(platform: GDPlatform, type: string): GDObjectMetadata;
+  isBadObjectMetadata(metadata: GDObjectMetadata): boolean;
+  getBehaviorMetadata(platform: GDPlatform, type: string): GDBehaviorMetadata;
+  isBadBehaviorMetadata(metadata: GDBehaviorMetadata): boolean;
+}
+
+export interface GDProjectScopedContainers {
+  delete(): void;
+}
+
+export interface GDWholeProjectRefactorer {
+  objectOrGroupRenamedInScene(
+    project: GDProject,
+    layout: GDLayout,
+    oldName: string,
+    newName: string,
+    isObjectGroup: boolean
+  ): void;
+  globalObjectOrGroupRenamed(
+    project: GDProject,
+    oldName: string,
+    newName: string,
+    isObjectGroup: boolean
+  ): void;
+  objectRemovedInScene(project: GDProject, layout: GDLayout, objectName: string): void;
+  globalObjectRemoved(project: GDProject, objectName: string): void;
+  ensureBehaviorEventsFunctionsProperParameters(
+    extension: GDEventsFunctionsExtension,
+    eventsBasedBehavior: GDEventsBasedBehavior
+  ): void;
+  ensureObjectEventsFunctionsProperParameters(
+    extension: GDEventsFunctionsExtension,
+    eventsBasedObject: GDEventsBasedObject
+  ): void;
+  objectOrGroupRenamedInEventsBasedObject(
+    project: GDProject,
+    projectScopedContainers: GDProjectScopedContainers,
+    eventsBasedObject: GDEventsBasedObject,
+    oldName: string,
+    newName: string,
+    isObjectGroup: boolean
+  ): void;
+  computeChangesetForVariablesContainer(
+    oldSerializedVariablesContainer: GDSerializerElement,
+    newVariablesContainer: GDVariablesContainer
+  ): GDVariablesChangeset;
+  applyRefactoringForVariablesContainer(
+    project: GDProject,
+    newVariablesContainer: GDVariablesContainer,
+    changeset: GDVariablesChangeset,
+    originalSerializedVariables: GDSerializerElement
+  ): void;
+  applyRefactoringForObjectVariablesContainer(
+    project: GDProject,
+    objectVariablesContainer: GDVariablesContainer,
+    initialInstancesContainer: GDInitialInstancesContainer,
+    objectName: string,
+    changeset: GDVariablesChangeset,
+    originalSerializedVariables: GDSerializerElement
+  ): void;
+}
+
+export interface GDVariablesChangeset {
+  hasRemovedVariables(): boolean;
+  delete(): void;
+}
+
+export interface GDEventsRemover {
+  addEventToRemove(event: GDBaseEvent): void;
+  addInstructionToRemove(instruction: GDInstruction): void;
+  launch(events: GDEventsList): void;
+  delete(): void;
+}
+
+export interface GDObjectsUsingResourceCollector {
+  launch(container: GDObjectsContainer): void;
+  getObjectNames(): GDVectorString;
+  delete(): void;
+}
+
+export interface GDArbitraryResourceWorker {
+  delete(): void;
+}
+
+export interface GDMapStringString {
+  get(name: string): string;
+  set(name: string, value: string): void;
+  has(name: string): boolean;
+  keys(): GDVectorString;
+  delete(): void;
+}
+
+export interface GDMetadataDeclarationHelper {
+  generateFreeFunctionMetadata(
+    project: GDProject,
+    extension: GDPlatformExtension,
+    eventsFunctionsExtension: GDEventsFunctionsExtension,
+    eventsFunction: GDEventsFunction
+  ): unknown;
+  delete(): void;
 }
 
 export interface GDSerializer {
@@ -440,7 +1218,118 @@ export interface GD {
   ObjectGroup: new () => GDObjectGroup;
   SerializerElement: new () => GDSerializerElement;
   Serializer: GDSerializer;
-  Variable: new () => GDVariable;
+  Variable: { new (): GDVariable; typeAsString(type: number): string };
+  VersionWrapper: { major(): number; minor(): number; build(): number };
+
+  // Metadata
+  JsPlatform: { get(): GDPlatform };
+  MetadataProvider: GDMetadataProvider;
+  ParameterMetadata: {
+    isObject(parameterType: string): boolean;
+    isBehavior(parameterType: string): boolean;
+    isExpression(valueType: string, parameterType: string): boolean;
+  };
+
+  // Refactoring
+  EventsRemover: new () => GDEventsRemover;
+  ObjectsUsingResourceCollector: new (
+    resourcesManager: GDResourcesManager,
+    resourceName: string
+  ) => GDObjectsUsingResourceCollector;
+  ResourcesRenamer: new (
+    resourcesManager: GDResourcesManager,
+    oldToNewNames: GDMapStringString
+  ) => GDArbitraryResourceWorker;
+  ResourceExposer: {
+    exposeWholeProjectResources(project: GDProject, worker: GDArbitraryResourceWorker): void;
+  };
+  MapStringString: new () => GDMapStringString;
+  VectorString: new () => GDVectorString;
+  PlatformExtension: new () => GDPlatformExtension;
+  MetadataDeclarationHelper: {
+    new (): GDMetadataDeclarationHelper;
+    declareExtension(
+      extension: GDPlatformExtension,
+      eventsFunctionsExtension: GDEventsFunctionsExtension
+    ): void;
+    generateBehaviorMetadata(
+      project: GDProject,
+      extension: GDPlatformExtension,
+      eventsFunctionsExtension: GDEventsFunctionsExtension,
+      eventsBasedBehavior: GDEventsBasedBehavior,
+      behaviorMethodMangledNames: GDMapStringString
+    ): unknown;
+    generateObjectMetadata(
+      project: GDProject,
+      extension: GDPlatformExtension,
+      eventsFunctionsExtension: GDEventsFunctionsExtension,
+      eventsBasedObject: GDEventsBasedObject,
+      objectMethodMangledNames: GDMapStringString
+    ): unknown;
+    isBehaviorLifecycleEventsFunction(functionName: string): boolean;
+    isObjectLifecycleEventsFunction(functionName: string): boolean;
+    isExtensionLifecycleEventsFunction(functionName: string): boolean;
+  };
+  ObjectsContainer: {
+    new (sourceType: number): GDObjectsContainer;
+    // ObjectsContainer_SourceType values
+    Unknown: number;
+    Global: number;
+    Scene: number;
+    Object: number;
+    Function: number;
+  };
+  WholeProjectRefactorer: GDWholeProjectRefactorer;
+  ProjectScopedContainers: {
+    makeNewProjectScopedContainersForEventsBasedObject(
+      project: GDProject,
+      extension: GDEventsFunctionsExtension,
+      eventsBasedObject: GDEventsBasedObject,
+      outputObjectsContainer: GDObjectsContainer
+    ): GDProjectScopedContainers;
+  };
+
+  // Resources
+  ImageResource: new () => GDResource;
+  AudioResource: new () => GDResource;
+  FontResource: new () => GDResource;
+  BitmapFontResource: new () => GDResource;
+  VideoResource: new () => GDResource;
+  JsonResource: new () => GDResource;
+  SpineResource: new () => GDResource;
+  TilemapResource: new () => GDResource;
+  TilesetResource: new () => GDResource;
+  Model3DResource: new () => GDResource;
+  AtlasResource: new () => GDResource;
+  JavaScriptResource: new () => GDResource;
+
+  // Sprites
+  Animation: new () => GDAnimation;
+  Direction: new () => GDDirection;
+  Sprite: new () => GDSprite;
+  Point: new (name: string) => GDPoint;
+  Polygon2d: new () => GDPolygon2d;
+  VectorPolygon2d: new () => GDVectorPolygon2d;
+  Vector2f: new () => GDVector2f;
+
+  // Object configuration casts
+  asSpriteConfiguration(configuration: GDObjectConfiguration): GDSpriteObject;
+  asTextObjectConfiguration(configuration: GDObjectConfiguration): GDTextObject;
+  asTiledSpriteConfiguration(configuration: GDObjectConfiguration): GDTiledSpriteObject;
+  asPanelSpriteConfiguration(configuration: GDObjectConfiguration): GDPanelSpriteObject;
+  asShapePainterConfiguration(configuration: GDObjectConfiguration): GDShapePainterObject;
+  asParticleEmitterConfiguration(configuration: GDObjectConfiguration): GDParticleEmitterObject;
+
+  // Event casts
+  asStandardEvent(event: GDBaseEvent): GDStandardEvent;
+  asElseEvent(event: GDBaseEvent): GDStandardEvent;
+  asRepeatEvent(event: GDBaseEvent): GDRepeatEvent;
+  asWhileEvent(event: GDBaseEvent): GDWhileEvent;
+  asForEachEvent(event: GDBaseEvent): GDForEachEvent;
+  asForEachChildVariableEvent(event: GDBaseEvent): GDForEachChildVariableEvent;
+  asCommentEvent(event: GDBaseEvent): GDCommentEvent;
+  asGroupEvent(event: GDBaseEvent): GDGroupEvent;
+  asLinkEvent(event: GDBaseEvent): GDLinkEvent;
 
   // Event handlers
   on?(event: 'print', callback: (message: string) => void): void;
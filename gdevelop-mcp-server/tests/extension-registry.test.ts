@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, satisfiesVersionRange } from '../src/core/extension-registry.js';
+
+describe('compareVersions', () => {
+  it('compares major, minor and patch numbers', () => {
+    expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+    expect(compareVersions('1.2.3', '1.2.4')).toBeLessThan(0);
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('2.0.0', '1.99.99')).toBeGreaterThan(0);
+  });
+
+  it('treats missing parts as zeros', () => {
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('2', '1.9.9')).toBeGreaterThan(0);
+  });
+
+  it('ignores a "v" prefix and pre-release suffixes', () => {
+    expect(compareVersions('v1.2.3', '1.2.3')).toBe(0);
+    expect(compareVersions('1.2.3-beta.1', '1.2.3')).toBe(0);
+    expect(compareVersions('5.3.180+build', '5.3.179')).toBeGreaterThan(0);
+  });
+});
+
+describe('satisfiesVersionRange', () => {
+  it('accepts any version for an empty range or "*"', () => {
+    expect(satisfiesVersionRange('1.0.0', '')).toBe(true);
+    expect(satisfiesVersionRange('1.0.0', '*')).toBe(true);
+  });
+
+  it('checks comparison operators', () => {
+    expect(satisfiesVersionRange('5.3.180', '>=5.3.180')).toBe(true);
+    expect(satisfiesVersionRange('5.3.179', '>=5.3.180')).toBe(false);
+    expect(satisfiesVersionRange('5.3.179', '<5.3.180')).toBe(true);
+    expect(satisfiesVersionRange('5.3.180', '<5.3.180')).toBe(false);
+    expect(satisfiesVersionRange('5.3.181', '>5.3.180')).toBe(true);
+    expect(satisfiesVersionRange('5.3.180', '<=5.3.180')).toBe(true);
+  });
+
+  it('accepts spaces between an operator and its version', () => {
+    expect(satisfiesVersionRange('5.3.180', '>= 5.3.180')).toBe(true);
+    expect(satisfiesVersionRange('5.3.179', '>= 5.3.180')).toBe(false);
+    expect(satisfiesVersionRange('1.5.0', '>= 1.0.0 < 2.0.0')).toBe(true);
+    expect(satisfiesVersionRange('2.0.0', '>= 1.0.0 < 2.0.0')).toBe(false);
+  });
+
+  it('requires all the comparators of a range', () => {
+    expect(satisfiesVersionRange('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfiesVersionRange('0.9.0', '>=1.0.0 <2.0.0')).toBe(false);
+  });
+
+  it('checks caret and tilde ranges', () => {
+    expect(satisfiesVersionRange('1.9.0', '^1.2.0')).toBe(true);
+    expect(satisfiesVersionRange('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfiesVersionRange('1.1.0', '^1.2.0')).toBe(false);
+    expect(satisfiesVersionRange('1.2.9', '~1.2.0')).toBe(true);
+    expect(satisfiesVersionRange('1.3.0', '~1.2.0')).toBe(false);
+  });
+
+  it('checks exact and wildcard versions', () => {
+    expect(satisfiesVersionRange('1.2.3', '1.2.3')).toBe(true);
+    expect(satisfiesVersionRange('1.2.3', '=v1.2.3')).toBe(true);
+    expect(satisfiesVersionRange('1.2.4', '1.2.3')).toBe(false);
+    expect(satisfiesVersionRange('1.7.0', '1.x')).toBe(true);
+    expect(satisfiesVersionRange('2.0.0', '1.x')).toBe(false);
+  });
+
+  it('accepts any of the alternatives', () => {
+    expect(satisfiesVersionRange('2.4.0', '1.x || 2.x')).toBe(true);
+    expect(satisfiesVersionRange('3.0.0', '1.x || 2.x')).toBe(false);
+    expect(satisfiesVersionRange('0.5.0', '<1.0.0 || >= 3.0.0')).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import type { GDInitialInstance } from '../src/types/gdcore.js';
+
+export interface FakeInstanceData {
+  objectName?: string;
+  layer?: string;
+  x?: number;
+  y?: number;
+  angle?: number;
+  customWidth?: number;
+  customHeight?: number;
+  defaultWidth?: number;
+  defaultHeight?: number;
+}
+
+/**
+ * Create an initial instance holding its values in memory, with the methods
+ * used by the geometry functions.
+ */
+export function createFakeInstance(data: FakeInstanceData = {}): GDInitialInstance {
+  let x = data.x ?? 0;
+  let y = data.y ?? 0;
+  let angle = data.angle ?? 0;
+  let hasCustomSize = data.customWidth !== undefined;
+  let customWidth = data.customWidth ?? 0;
+  let customHeight = data.customHeight ?? 0;
+  let flippedX = false;
+  let flippedY = false;
+
+  const instance = {
+    getObjectName: () => data.objectName ?? 'Object',
+    getLayer: () => data.layer ?? '',
+    getX: () => x,
+    setX: (value: number) => (x = value),
+    getY: () => y,
+    setY: (value: number) => (y = value),
+    getAngle: () => angle,
+    setAngle: (value: number) => (angle = value),
+    hasCustomSize: () => hasCustomSize,
+    setHasCustomSize: (value: boolean) => (hasCustomSize = value),
+    getCustomWidth: () => customWidth,
+    setCustomWidth: (value: number) => (customWidth = value),
+    getCustomHeight: () => customHeight,
+    setCustomHeight: (value: number) => (customHeight = value),
+    getDefaultWidth: () => data.defaultWidth ?? 0,
+    getDefaultHeight: () => data.defaultHeight ?? 0,
+    isFlippedX: () => flippedX,
+    setFlippedX: (value: boolean) => (flippedX = value),
+    isFlippedY: () => flippedY,
+    setFlippedY: (value: boolean) => (flippedY = value),
+  };
+  return instance as unknown as GDInitialInstance;
+}
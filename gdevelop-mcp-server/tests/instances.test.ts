@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSelectionCenter,
+  moveInstances,
+  rotateInstances,
+  scaleInstances,
+} from '../src/core/instances.js';
+import { createFakeInstance } from './fake-instance.js';
+
+describe('getSelectionCenter', () => {
+  it('returns the center of the box around the positions', () => {
+    const instances = [
+      createFakeInstance({ x: 0, y: 10 }),
+      createFakeInstance({ x: 100, y: 30 }),
+      createFakeInstance({ x: 20, y: 50 }),
+    ];
+
+    expect(getSelectionCenter(instances)).toEqual({ x: 50, y: 30 });
+  });
+});
+
+describe('moveInstances', () => {
+  it('moves instances by an offset', () => {
+    const instance = createFakeInstance({ x: 10, y: 20 });
+    moveInstances([instance], 5, -30);
+
+    expect(instance.getX()).toBe(15);
+    expect(instance.getY()).toBe(-10);
+  });
+});
+
+describe('rotateInstances', () => {
+  it('turns positions clockwise around the pivot', () => {
+    const instance = createFakeInstance({ x: 110, y: 50 });
+    rotateInstances([instance], 90, { x: 100, y: 50 });
+
+    expect(instance.getX()).toBeCloseTo(100);
+    expect(instance.getY()).toBeCloseTo(60);
+    expect(instance.getAngle()).toBe(90);
+  });
+
+  it('keeps angles between 0 and 360', () => {
+    const instance = createFakeInstance({ angle: 300 });
+    rotateInstances([instance], 90, { x: 0, y: 0 });
+    expect(instance.getAngle()).toBe(30);
+
+    rotateInstances([instance], -45, { x: 0, y: 0 });
+    expect(instance.getAngle()).toBe(345);
+  });
+
+  it('leaves an instance at the pivot in place', () => {
+    const instance = createFakeInstance({ x: 40, y: 40 });
+    rotateInstances([instance], 135, { x: 40, y: 40 });
+
+    expect(instance.getX()).toBeCloseTo(40);
+    expect(instance.getY()).toBeCloseTo(40);
+  });
+});
+
+describe('scaleInstances', () => {
+  it('moves positions away from the origin and scales custom sizes', () => {
+    const instance = createFakeInstance({ x: 20, y: 30, customWidth: 10, customHeight: 5 });
+    const unsized = scaleInstances([instance], 2, 3, { x: 10, y: 10 });
+
+    expect(unsized).toEqual([]);
+    expect(instance.getX()).toBe(30);
+    expect(instance.getY()).toBe(70);
+    expect(instance.getCustomWidth()).toBe(20);
+    expect(instance.getCustomHeight()).toBe(15);
+  });
+
+  it('starts from the default size of instances without a custom size', () => {
+    const instance = createFakeInstance({ defaultWidth: 32, defaultHeight: 16 });
+    scaleInstances([instance], 0.5, 0.5, { x: 0, y: 0 });
+
+    expect(instance.hasCustomSize()).toBe(true);
+    expect(instance.getCustomWidth()).toBe(16);
+    expect(instance.getCustomHeight()).toBe(8);
+  });
+
+  it('flips instances for negative factors', () => {
+    const instance = createFakeInstance({ x: 10, customWidth: 10, customHeight: 10 });
+    scaleInstances([instance], -1, 1, { x: 0, y: 0 });
+
+    expect(instance.getX()).toBe(-10);
+    expect(instance.getCustomWidth()).toBe(10);
+    expect(instance.isFlippedX()).toBe(true);
+    expect(instance.isFlippedY()).toBe(false);
+  });
+
+  it('only moves instances whose size is unknown', () => {
+    const instance = createFakeInstance({ x: 10, y: 10 });
+    const unsized = scaleInstances([instance], 2, 2, { x: 0, y: 0 });
+
+    expect(unsized).toEqual([instance]);
+    expect(instance.getX()).toBe(20);
+    expect(instance.hasCustomSize()).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { computePlacements, MAX_PLACEMENTS } from '../src/core/placement.js';
+
+describe('computePlacements', () => {
+  it('places a grid row by row', () => {
+    const placements = computePlacements({
+      type: 'grid',
+      x: 10,
+      y: 20,
+      rows: 2,
+      columns: 3,
+      spacingX: 32,
+      spacingY: 16,
+    });
+
+    expect(placements).toEqual([
+      { x: 10, y: 20 },
+      { x: 42, y: 20 },
+      { x: 74, y: 20 },
+      { x: 10, y: 36 },
+      { x: 42, y: 36 },
+      { x: 74, y: 36 },
+    ]);
+  });
+
+  it('refuses patterns placing too many instances', () => {
+    expect(() =>
+      computePlacements({
+        type: 'grid',
+        x: 0,
+        y: 0,
+        rows: MAX_PLACEMENTS,
+        columns: 2,
+        spacingX: 1,
+        spacingY: 1,
+      })
+    ).toThrow(/at most/);
+  });
+
+  it('places instances along a polyline every spacing units, including its end', () => {
+    const placements = computePlacements({
+      type: 'line',
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 50 },
+      ],
+      spacing: 50,
+    });
+
+    expect(placements).toEqual([
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 50 },
+    ]);
+  });
+
+  it('spreads a count of instances from the start to the end of a line', () => {
+    const placements = computePlacements({
+      type: 'line',
+      points: [
+        { x: 0, y: 0 },
+        { x: 0, y: 90 },
+      ],
+      count: 4,
+    });
+
+    expect(placements.map(({ y }) => y)).toEqual([0, 30, 60, 90]);
+  });
+
+  it('requires either spacing or count for a line', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+    ];
+    expect(() => computePlacements({ type: 'line', points })).toThrow(/spacing or count/);
+    expect(() => computePlacements({ type: 'line', points, spacing: 5, count: 2 })).toThrow(
+      /spacing or count/
+    );
+  });
+
+  it('places instances around a circle, turned along it when rotated', () => {
+    const placements = computePlacements({
+      type: 'circle',
+      x: 100,
+      y: 100,
+      radius: 50,
+      count: 4,
+      rotate: true,
+    });
+
+    expect(placements).toHaveLength(4);
+    expect(placements[0].x).toBeCloseTo(150);
+    expect(placements[0].y).toBeCloseTo(100);
+    expect(placements[1].x).toBeCloseTo(100);
+    expect(placements[1].y).toBeCloseTo(150);
+    expect(placements.map(({ angle }) => angle)).toEqual([90, 180, 270, 0]);
+  });
+
+  it('scatters the same positions for the same seed, inside the area', () => {
+    const pattern = {
+      type: 'scatter' as const,
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 100,
+      count: 20,
+      seed: 42,
+    };
+    const placements = computePlacements(pattern);
+
+    expect(placements).toHaveLength(20);
+    expect(computePlacements(pattern)).toEqual(placements);
+    expect(computePlacements({ ...pattern, seed: 43 })).not.toEqual(placements);
+    for (const { x, y } of placements) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(200);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThan(100);
+    }
+  });
+
+  it('keeps scattered instances apart, placing fewer when there is no room', () => {
+    const placements = computePlacements({
+      type: 'scatter',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      count: 50,
+      minDistance: 40,
+      seed: 1,
+    });
+
+    expect(placements.length).toBeGreaterThan(0);
+    expect(placements.length).toBeLessThan(50);
+    for (const a of placements) {
+      for (const b of placements) {
+        if (a !== b) expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(40);
+      }
+    }
+  });
+
+  it('places the objects of a character map legend', () => {
+    const placements = computePlacements({
+      type: 'map',
+      x: 0,
+      y: 0,
+      rows: ['#.#', '.P.'],
+      legend: { '#': 'Wall', P: 'Player' },
+      cellWidth: 32,
+      cellHeight: 32,
+    });
+
+    expect(placements).toEqual([
+      { x: 0, y: 0, objectName: 'Wall' },
+      { x: 64, y: 0, objectName: 'Wall' },
+      { x: 32, y: 32, objectName: 'Player' },
+    ]);
+  });
+
+  it('refuses map legend keys longer than one character', () => {
+    expect(() =>
+      computePlacements({
+        type: 'map',
+        x: 0,
+        y: 0,
+        rows: ['ab'],
+        legend: { ab: 'Wall' },
+        cellWidth: 32,
+        cellHeight: 32,
+      })
+    ).toThrow(/single characters/);
+  });
+});
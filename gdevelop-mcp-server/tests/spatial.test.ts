@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getBounds,
+  boundsOverlap,
+  boundsContain,
+  distanceToBounds,
+  farthestDistanceToBounds,
+  getLayerStats,
+  readImageSize,
+} from '../src/core/spatial.js';
+import { createFakeInstance } from './fake-instance.js';
+
+describe('getBounds', () => {
+  it('uses the position as the top-left corner by default', () => {
+    const instance = createFakeInstance({ x: 10, y: 20 });
+
+    expect(getBounds(instance, { width: 30, height: 40 })).toEqual({
+      minX: 10,
+      minY: 20,
+      maxX: 40,
+      maxY: 60,
+    });
+  });
+
+  it('places the box by the origin point', () => {
+    const instance = createFakeInstance({ x: 100, y: 100 });
+
+    expect(getBounds(instance, { width: 32, height: 64 }, { x: 16, y: 64 })).toEqual({
+      minX: 84,
+      minY: 36,
+      maxX: 116,
+      maxY: 100,
+    });
+  });
+
+  it('includes the rotation around the center', () => {
+    const instance = createFakeInstance({ x: 0, y: 0, angle: 90 });
+    const bounds = getBounds(instance, { width: 40, height: 20 });
+
+    expect(bounds.minX).toBeCloseTo(10);
+    expect(bounds.minY).toBeCloseTo(-10);
+    expect(bounds.maxX).toBeCloseTo(30);
+    expect(bounds.maxY).toBeCloseTo(30);
+  });
+
+  it('ignores full turns', () => {
+    const instance = createFakeInstance({ x: 5, y: 5, angle: 360 });
+
+    expect(getBounds(instance, { width: 10, height: 10 })).toEqual({
+      minX: 5,
+      minY: 5,
+      maxX: 15,
+      maxY: 15,
+    });
+  });
+});
+
+describe('bounds checks', () => {
+  const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+  it('detects overlapping boxes, but not boxes only touching', () => {
+    expect(boundsOverlap(box, { minX: 5, minY: 5, maxX: 15, maxY: 15 })).toBe(true);
+    expect(boundsOverlap(box, { minX: 10, minY: 0, maxX: 20, maxY: 10 })).toBe(false);
+    expect(boundsOverlap(box, { minX: 20, minY: 20, maxX: 30, maxY: 30 })).toBe(false);
+  });
+
+  it('detects boxes inside others', () => {
+    expect(boundsContain(box, { minX: 0, minY: 2, maxX: 10, maxY: 8 })).toBe(true);
+    expect(boundsContain(box, { minX: -1, minY: 2, maxX: 5, maxY: 8 })).toBe(false);
+  });
+
+  it('measures the distance from a point to a box', () => {
+    expect(distanceToBounds({ x: 5, y: 5 }, box)).toBe(0);
+    expect(distanceToBounds({ x: 13, y: 14 }, box)).toBe(5);
+    expect(distanceToBounds({ x: -3, y: 5 }, box)).toBe(3);
+  });
+
+  it('measures the distance from a point to the farthest corner of a box', () => {
+    expect(farthestDistanceToBounds({ x: 0, y: 0 }, box)).toBeCloseTo(Math.hypot(10, 10));
+    expect(farthestDistanceToBounds({ x: 5, y: 5 }, box)).toBeCloseTo(Math.hypot(5, 5));
+  });
+});
+
+describe('getLayerStats', () => {
+  it('counts instances and merges their boxes by layer', () => {
+    const stats = getLayerStats([
+      {
+        instance: createFakeInstance({ objectName: 'Player', layer: '' }),
+        bounds: { minX: 0, minY: 0, maxX: 10, maxY: 10 },
+        sizeEstimated: false,
+      },
+      {
+        instance: createFakeInstance({ objectName: 'Enemy', layer: '' }),
+        bounds: { minX: 20, minY: -5, maxX: 30, maxY: 5 },
+        sizeEstimated: false,
+      },
+      {
+        instance: createFakeInstance({ objectName: 'Enemy', layer: '' }),
+        bounds: { minX: 40, minY: 0, maxX: 50, maxY: 10 },
+        sizeEstimated: true,
+      },
+      {
+        instance: createFakeInstance({ objectName: 'Score', layer: 'UI' }),
+        bounds: { minX: 5, minY: 5, maxX: 15, maxY: 10 },
+        sizeEstimated: false,
+      },
+    ]);
+
+    expect(stats).toEqual([
+      {
+        layer: '',
+        instanceCount: 3,
+        bounds: { minX: 0, minY: -5, maxX: 50, maxY: 10 },
+        objects: { Player: 1, Enemy: 2 },
+      },
+      {
+        layer: 'UI',
+        instanceCount: 1,
+        bounds: { minX: 5, minY: 5, maxX: 15, maxY: 10 },
+        objects: { Score: 1 },
+      },
+    ]);
+  });
+});
+
+describe('readImageSize', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'spatial-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads the size of a PNG image', async () => {
+    const data = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+    data.writeUInt32BE(64, 16);
+    data.writeUInt32BE(48, 20);
+    const file = path.join(directory, 'image.png');
+    await fs.writeFile(file, data);
+
+    expect(await readImageSize(file)).toEqual({ width: 64, height: 48 });
+  });
+
+  it('reads the size of a GIF image', async () => {
+    const data = Buffer.alloc(10);
+    data.write('GIF89a', 0, 'ascii');
+    data.writeUInt16LE(20, 6);
+    data.writeUInt16LE(10, 8);
+    const file = path.join(directory, 'image.gif');
+    await fs.writeFile(file, data);
+
+    expect(await readImageSize(file)).toEqual({ width: 20, height: 10 });
+  });
+
+  it('returns nothing for missing or unknown files', async () => {
+    const file = path.join(directory, 'image.txt');
+    await fs.writeFile(file, 'not an image');
+
+    expect(await readImageSize(file)).toBeUndefined();
+    expect(await readImageSize(path.join(directory, 'missing.png'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVariablePath,
+  formatPath,
+  convertPrimitiveValue,
+  variableValueSchema,
+} from '../src/core/variables.js';
+
+describe('parseVariablePath', () => {
+  it('parses a plain variable name', () => {
+    expect(parseVariablePath('Score')).toEqual(['Score']);
+  });
+
+  it('parses children and array indexes', () => {
+    expect(parseVariablePath('Inventory.items[2].name')).toEqual([
+      'Inventory',
+      'items',
+      2,
+      'name',
+    ]);
+    expect(parseVariablePath('Grid[1][3]')).toEqual(['Grid', 1, 3]);
+  });
+
+  it('parses quoted child names', () => {
+    expect(parseVariablePath('Stats["max hp"]')).toEqual(['Stats', 'max hp']);
+    expect(parseVariablePath('Config["a.b"].c')).toEqual(['Config', 'a.b', 'c']);
+  });
+
+  it('ignores spaces around the path', () => {
+    expect(parseVariablePath('  Player.hp ')).toEqual(['Player', 'hp']);
+  });
+
+  it('refuses invalid paths', () => {
+    expect(() => parseVariablePath('')).toThrow('Variable path is empty');
+    expect(() => parseVariablePath('.Score')).toThrow('Invalid variable path');
+    expect(() => parseVariablePath('[0]')).toThrow('Invalid variable path');
+    expect(() => parseVariablePath('Items[x]')).toThrow('Invalid variable path');
+    expect(() => parseVariablePath('Player..hp')).toThrow('Invalid variable path');
+  });
+});
+
+describe('formatPath', () => {
+  it('formats children, indexes and names needing quotes', () => {
+    expect(formatPath(['Inventory', 'items', 2, 'name'])).toBe('Inventory.items[2].name');
+    expect(formatPath(['Stats', 'a.b'])).toBe('Stats["a.b"]');
+  });
+
+  it('is the reverse of parseVariablePath', () => {
+    for (const path of ['Score', 'Inventory.items[2].name', 'Config["a.b"].c', 'Grid[1][3]']) {
+      expect(formatPath(parseVariablePath(path))).toBe(path);
+    }
+  });
+});
+
+describe('convertPrimitiveValue', () => {
+  it('converts numeric strings and booleans to numbers', () => {
+    expect(convertPrimitiveValue('42.5', 'number')).toBe(42.5);
+    expect(convertPrimitiveValue(true, 'number')).toBe(1);
+    expect(convertPrimitiveValue(7, 'number')).toBe(7);
+  });
+
+  it('refuses strings that are not numbers', () => {
+    expect(() => convertPrimitiveValue('abc', 'number')).toThrow(
+      'Cannot convert "abc" to a number'
+    );
+    expect(() => convertPrimitiveValue('  ', 'number')).toThrow('to a number');
+  });
+
+  it('converts numbers and "true" or "false" to booleans', () => {
+    expect(convertPrimitiveValue(1, 'boolean')).toBe(true);
+    expect(convertPrimitiveValue(-2, 'boolean')).toBe(true);
+    expect(convertPrimitiveValue(0, 'boolean')).toBe(false);
+    expect(convertPrimitiveValue('true', 'boolean')).toBe(true);
+    expect(convertPrimitiveValue('false', 'boolean')).toBe(false);
+    expect(convertPrimitiveValue(false, 'boolean')).toBe(false);
+  });
+
+  it('refuses other strings for booleans', () => {
+    expect(() => convertPrimitiveValue('yes', 'boolean')).toThrow(
+      'Cannot convert "yes" to a boolean'
+    );
+  });
+
+  it('converts any primitive value to a string', () => {
+    expect(convertPrimitiveValue(3, 'string')).toBe('3');
+    expect(convertPrimitiveValue(true, 'string')).toBe('true');
+  });
+});
+
+describe('variableValueSchema', () => {
+  it('accepts nested structures and arrays', () => {
+    const value = { hp: 10, name: 'Hero', items: [{ id: 1 }, 'key'], alive: true };
+    expect(variableValueSchema.parse(value)).toEqual(value);
+  });
+
+  it('refuses null values', () => {
+    expect(variableValueSchema.safeParse({ hp: null }).success).toBe(false);
+  });
+});